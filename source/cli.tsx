@@ -1,15 +1,41 @@
 #!/usr/bin/env node
 import Pastel from "pastel";
 import { createRequire } from "module";
+import { loadConfig } from "./lib/config.js";
+import { findMainRepoRoot } from "./lib/git.js";
 
 const require = createRequire(import.meta.url);
 const { version } = require("../package.json");
 
-const app = new Pastel({
-	importMeta: import.meta,
-	name: "santree",
-	version,
-	description: "Beautiful CLI for managing Git worktrees",
-});
+const argv = process.argv.slice(2);
+// Arguments after `--` belong to the command santree runs, e.g. `worktree exec -- gh ... --json`
+const ownArgv = argv.includes("--") ? argv.slice(0, argv.indexOf("--")) : argv;
 
-await app.run();
+if (ownArgv.includes("--json") && !ownArgv.includes("--help") && !ownArgv.includes("-h")) {
+	// JSON output (see lib/json.ts) skips Pastel, so Ink never renders. Commands declare
+	// `--json` as an option only so it shows up in their --help.
+	const { runJsonCommand } = await import("./lib/json.js");
+	await runJsonCommand(ownArgv);
+} else {
+	// Validate config files up front so typos and unknown keys surface before any command runs.
+	// Helpers are skipped: they run from shell startup and the Claude statusline and must never fail.
+	if (argv.length > 0 && argv[0] !== "helpers") {
+		const { issues } = loadConfig(findMainRepoRoot());
+		if (issues.length > 0) {
+			console.error("Invalid santree config:");
+			for (const issue of issues) {
+				console.error(`  ${issue}`);
+			}
+			process.exit(1);
+		}
+	}
+
+	const app = new Pastel({
+		importMeta: import.meta,
+		name: "santree",
+		version,
+		description: "Beautiful CLI for managing Git worktrees",
+	});
+
+	await app.run();
+}
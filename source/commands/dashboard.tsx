@@ -1,8 +1,8 @@
 import { useEffect, useReducer, useCallback, useRef, useState } from "react";
 import { Text, Box, useInput, useStdout, useApp } from "ink";
 import Spinner from "ink-spinner";
-import { exec, execSync, spawn } from "child_process";
-import { promisify } from "util";
+import { z } from "zod";
+import { spawn } from "child_process";
 import { createRequire } from "module";
 import * as fs from "fs";
 import * as path from "path";
@@ -14,33 +14,75 @@ import {
 	createWorktree,
 	getDefaultBranch,
 	getBaseBranch,
-	hasInitScript,
-	getInitScriptPath,
+	getBaseRemote,
+	getPushRemote,
 	removeWorktree,
+	listWorktrees,
 } from "../lib/git.js";
-import { run, spawnAsync } from "../lib/exec.js";
+import { getProvisionSteps, hasProvisioning, provisionWorktree } from "../lib/provision.js";
+import { getConfig, formatCommitPrefix } from "../lib/config.js";
+import {
+	git,
+	gitAsync,
+	ghAsync,
+	tmux,
+	runCommand,
+	commandOutput,
+	commandError,
+	spawnAsync,
+} from "../lib/exec.js";
 import { resolveAgentBinary } from "../lib/ai.js";
 import { extractTicketId } from "../lib/git.js";
-import { getPRTemplate } from "../lib/github.js";
+import { getPRTemplate, getPRHeadArg, ghEnv } from "../lib/github.js";
+import { getTmuxEnvArgs } from "../lib/ports.js";
+import { chooseSparseCheckout } from "../lib/sparse.js";
+import { compareWorktrees, getComparisonDiff } from "../lib/diff.js";
+import { removeScratchWorktree } from "../lib/scratch.js";
 import { renderPrompt, renderDiff } from "../lib/prompts.js";
 import * as os from "os";
 import type { DashboardIssue, ProjectGroup } from "../lib/dashboard/types.js";
 import { initialState, reducer } from "../lib/dashboard/types.js";
-import { loadDashboardData } from "../lib/dashboard/data.js";
+import { loadDashboardData, loadDiskUsage } from "../lib/dashboard/data.js";
 import IssueList from "../lib/dashboard/IssueList.js";
 import DetailPanel from "../lib/dashboard/DetailPanel.js";
-import { CommitOverlay, PrCreateOverlay } from "../lib/dashboard/Overlays.js";
+import { CommitOverlay, PrCreateOverlay, DiffOverlay } from "../lib/dashboard/Overlays.js";
 
 export const description = "Interactive dashboard of your Linear issues";
 
-const execAsync = promisify(exec);
+export const options = z.object({
+	json: z.boolean().optional().describe("Print the dashboard's issues as JSON"),
+});
 
 // ── Helpers ───────────────────────────────────────────────────────────
 
+const SCRATCH_NEEDS_BRANCH =
+	"Scratch worktree has no branch. Keep it with: santree worktree promote <branch>";
+
 function isInTmux(): boolean {
 	return !!process.env.TMUX;
 }
 
+/**
+ * Open a new tmux window in `cwd` (with the worktree's environment) and type `command` into it,
+ * if one is given.
+ * Returns false if tmux fails.
+ */
+function openTmuxWindow(name: string, cwd: string, command?: string): boolean {
+	if (!tmux(["new-window", "-n", name, "-c", cwd, ...getTmuxEnvArgs(cwd)]).ok) return false;
+	if (!command) return true;
+	// Small delay so the new shell can start reading input before we send keys,
+	// otherwise buffered keystrokes from the dashboard pane can leak in.
+	runCommand("sleep", ["0.1"]);
+	return tmux(["send-keys", "-t", name, command, "Enter"]).ok;
+}
+
+/**
+ * Open a URL in the default browser.
+ */
+function openUrl(url: string): void {
+	runCommand(process.platform === "darwin" ? "open" : "xdg-open", [url]);
+}
+
 function slugify(title: string): string {
 	return title
 		.toLowerCase()
@@ -122,9 +164,7 @@ function ensureAltScreen() {
 	if (altScreenEntered) return;
 	altScreenEntered = true;
 	if (isInTmux()) {
-		try {
-			execSync('tmux rename-window "santree"', { stdio: "ignore" });
-		} catch {}
+		tmux(["rename-window", "santree"]);
 	}
 	process.stdout.write("\x1b[?1049h"); // Enter alternate screen buffer
 	process.stdout.write("\x1b[?25l"); // Hide cursor
@@ -148,6 +188,7 @@ export default function Dashboard() {
 	const stateRef = useRef(state);
 	stateRef.current = state;
 	const draggingRef = useRef(false);
+	const measuringDiskRef = useRef(false);
 
 	const [termSize, setTermSize] = useState({
 		columns: stdout?.columns ?? 80,
@@ -191,6 +232,17 @@ export default function Dashboard() {
 		try {
 			const data = await loadDashboardData(repoRoot);
 			dispatch({ type: "SET_DATA", ...data });
+
+			// Disk usage can take a while to measure; fill it in without holding up the list
+			if (!measuringDiskRef.current) {
+				measuringDiskRef.current = true;
+				loadDiskUsage(repoRoot, data.flatIssues)
+					.then((usage) => dispatch({ type: "SET_DISK_USAGE", usage }))
+					.catch(() => {})
+					.finally(() => {
+						measuringDiskRef.current = false;
+					});
+			}
 		} catch (e) {
 			dispatch({
 				type: "SET_ERROR",
@@ -306,6 +358,11 @@ export default function Dashboard() {
 		};
 	}, [refresh]);
 
+	// Quitting while the dashboard couldn't load exits non-zero
+	useEffect(() => {
+		process.exitCode = state.error ? 1 : undefined;
+	}, [state.error]);
+
 	// ── List scroll tracking ──────────────────────────────────────────
 
 	useEffect(() => {
@@ -334,35 +391,26 @@ export default function Dashboard() {
 			const resumeCmd = sessionId && bin ? `${bin} --resume ${sessionId}` : null;
 			const workCmd = mode === "plan" ? "st worktree work --plan" : "st worktree work";
 
-			try {
-				// Switch to existing window if it exists
-				execSync(`tmux select-window -t "${windowName}"`, { stdio: "ignore" });
-				const cmd = resumeCmd ?? workCmd;
-				execSync(`tmux send-keys -t "${windowName}" "${cmd}" Enter`, { stdio: "ignore" });
+			const cmd = resumeCmd ?? workCmd;
+			// Switch to existing window if it exists
+			if (tmux(["select-window", "-t", windowName]).ok) {
+				tmux(["send-keys", "-t", windowName, cmd, "Enter"]);
 				dispatch({
 					type: "SET_ACTION_MESSAGE",
 					message: resumeCmd
 						? `Resumed session in: ${windowName}`
 						: `Launched ${mode} in: ${windowName}`,
 				});
-			} catch {
-				// Window doesn't exist — create it
-				try {
-					execSync(`tmux new-window -n "${windowName}" -c "${worktreePath}"`, { stdio: "ignore" });
-					// Small delay so the new shell can start reading input before we send keys,
-					// otherwise buffered keystrokes from the dashboard pane can leak in.
-					execSync("sleep 0.1", { stdio: "ignore" });
-					const cmd = resumeCmd ?? workCmd;
-					execSync(`tmux send-keys -t "${windowName}" "${cmd}" Enter`, { stdio: "ignore" });
-					dispatch({
-						type: "SET_ACTION_MESSAGE",
-						message: resumeCmd
-							? `Resumed session in new window: ${windowName}`
-							: `Launched ${mode} in tmux window: ${windowName}`,
-					});
-				} catch {
-					dispatch({ type: "SET_ACTION_MESSAGE", message: "Failed to create tmux window" });
-				}
+			} else if (openTmuxWindow(windowName, worktreePath, cmd)) {
+				// Window didn't exist — created it
+				dispatch({
+					type: "SET_ACTION_MESSAGE",
+					message: resumeCmd
+						? `Resumed session in new window: ${windowName}`
+						: `Launched ${mode} in tmux window: ${windowName}`,
+				});
+			} else {
+				dispatch({ type: "SET_ACTION_MESSAGE", message: "Failed to create tmux window" });
 			}
 			// Delayed refresh to pick up session ID created by `st worktree work`
 			setTimeout(() => refresh(), 3000);
@@ -375,15 +423,12 @@ export default function Dashboard() {
 			if (isInTmux()) {
 				const windowName = ticketId;
 				const workCmd = mode === "plan" ? "st worktree work --plan" : "st worktree work";
-				try {
-					execSync(`tmux new-window -n "${windowName}" -c "${worktreePath}"`, { stdio: "ignore" });
-					execSync("sleep 0.1", { stdio: "ignore" });
-					execSync(`tmux send-keys -t "${windowName}" "${workCmd}" Enter`, { stdio: "ignore" });
+				if (openTmuxWindow(windowName, worktreePath, workCmd)) {
 					dispatch({
 						type: "SET_ACTION_MESSAGE",
 						message: `Created worktree + launched ${mode} in: ${windowName}`,
 					});
-				} catch {
+				} else {
 					dispatch({ type: "SET_ACTION_MESSAGE", message: "Worktree created, but tmux failed" });
 				}
 				setTimeout(() => refresh(), 3000);
@@ -412,25 +457,42 @@ export default function Dashboard() {
 
 			const slug = slugify(di.issue.title);
 			const branchName = `feature/${ticketId}-${slug}`;
-			const base = getDefaultBranch();
+			const remote = getBaseRemote(null, repoRoot);
+			const base = getDefaultBranch(remote);
 
 			// 1. Pull latest (async to avoid blocking the event loop)
-			dispatch({ type: "CREATION_LOG", logs: `Fetching origin...\n` });
-			try {
-				await execAsync("git fetch origin", { cwd: repoRoot });
-				dispatch({ type: "CREATION_LOG", logs: `Checking out ${base}...\n` });
-				await execAsync(`git checkout ${base}`, { cwd: repoRoot });
-				dispatch({ type: "CREATION_LOG", logs: `Pulling ${base}...\n` });
-				await execAsync(`git pull origin ${base}`, { cwd: repoRoot });
-				dispatch({ type: "CREATION_LOG", logs: `Pulled latest ${base}\n` });
-			} catch (e) {
-				const msg = e instanceof Error ? e.message : "Failed to pull latest";
-				dispatch({ type: "CREATION_LOG", logs: `Warning: ${msg}\n` });
+			const pullSteps: { log: string; args: string[] }[] = [
+				{ log: `Fetching ${remote}...`, args: ["fetch", remote] },
+				{ log: `Checking out ${base}...`, args: ["checkout", base] },
+				{ log: `Pulling ${base}...`, args: ["pull", remote, base] },
+			];
+			let pulled = true;
+			for (const step of pullSteps) {
+				dispatch({ type: "CREATION_LOG", logs: `${step.log}\n` });
+				const stepResult = await gitAsync(step.args, { cwd: repoRoot });
+				if (!stepResult.ok) {
+					const msg = commandError(stepResult, `git ${step.args[0]}`);
+					dispatch({ type: "CREATION_LOG", logs: `Warning: ${msg}\n` });
+					pulled = false;
+					break;
+				}
 			}
+			if (pulled) dispatch({ type: "CREATION_LOG", logs: `Pulled latest ${base}\n` });
 
-			// 2. Create worktree
+			// 2. Create worktree, sparse if the config infers profiles from the ticket
+			const sparse = await chooseSparseCheckout(repoRoot, {
+				ticketId,
+				scope: { labels: di.issue.labels, project: di.issue.projectName },
+			});
+			if (sparse.warning) dispatch({ type: "CREATION_LOG", logs: `Warning: ${sparse.warning}\n` });
+			if (sparse.sparse) {
+				dispatch({
+					type: "CREATION_LOG",
+					logs: `Sparse checkout: ${sparse.sparse.profiles.join(", ")}\n`,
+				});
+			}
 			dispatch({ type: "CREATION_LOG", logs: `Creating worktree ${branchName}...\n` });
-			const result = await createWorktree(branchName, base, repoRoot);
+			const result = await createWorktree(branchName, base, repoRoot, { sparse: sparse.sparse });
 
 			if (!result.success || !result.path) {
 				dispatch({ type: "CREATION_ERROR", error: result.error ?? "Unknown error" });
@@ -442,46 +504,32 @@ export default function Dashboard() {
 			}
 
 			dispatch({ type: "CREATION_LOG", logs: `Worktree created at ${result.path}\n` });
+			if (result.warning) dispatch({ type: "CREATION_LOG", logs: `Warning: ${result.warning}\n` });
 
-			// 3. Run init script if requested
+			// 3. Run setup steps if requested
 			if (runSetup) {
-				const initScript = getInitScriptPath(repoRoot);
-				let canExecute = true;
-				try {
-					fs.accessSync(initScript, fs.constants.X_OK);
-				} catch {
+				let lastLen = 0;
+				const setup = await provisionWorktree(repoRoot, result.path, branchName, {
+					onStep: (step, stepState) => {
+						if (stepState === "running") {
+							lastLen = 0;
+							dispatch({ type: "CREATION_LOG", logs: `Running setup step ${step.name}...\n` });
+						}
+					},
+					onOutput: (_step, output) => {
+						const delta = output.slice(lastLen);
+						if (delta) dispatch({ type: "CREATION_LOG", logs: delta });
+						lastLen = output.length;
+					},
+				});
+
+				if (!setup.success) {
 					dispatch({
 						type: "CREATION_LOG",
-						logs: "Warning: init.sh exists but is not executable, skipping\n",
+						logs: `\n${setup.error}\nResume with: santree worktree setup --from ${setup.failedStep}\n`,
 					});
-					canExecute = false;
-				}
-
-				if (canExecute) {
-					dispatch({ type: "CREATION_LOG", logs: "Running init.sh...\n" });
-					let lastLen = 0;
-					const initResult = await spawnAsync(initScript, [], {
-						cwd: result.path,
-						env: {
-							...process.env,
-							SANTREE_WORKTREE_PATH: result.path,
-							SANTREE_REPO_ROOT: repoRoot,
-						},
-						onOutput: (output) => {
-							const delta = output.slice(lastLen);
-							if (delta) dispatch({ type: "CREATION_LOG", logs: delta });
-							lastLen = output.length;
-						},
-					});
-
-					if (initResult.code !== 0) {
-						dispatch({
-							type: "CREATION_LOG",
-							logs: `\nInit script exited with code ${initResult.code}\n`,
-						});
-					} else {
-						dispatch({ type: "CREATION_LOG", logs: "\nSetup complete!\n" });
-					}
+				} else {
+					dispatch({ type: "CREATION_LOG", logs: "\nSetup complete!\n" });
 				}
 			}
 
@@ -512,12 +560,12 @@ export default function Dashboard() {
 					exit();
 				}
 			} else {
-				// No worktree — ask about setup if init script exists
-				if (hasInitScript(repoRoot)) {
+				// No worktree — ask about setup if there are setup steps
+				if (hasProvisioning(repoRoot)) {
 					dispatch({ type: "SETUP_CONFIRM_SHOW", mode });
 					return;
 				}
-				// No init script — create directly
+				// Nothing to set up — create directly
 				createAndLaunch(mode, false);
 			}
 		},
@@ -530,16 +578,14 @@ export default function Dashboard() {
 		const wtPath = stateRef.current.commitWorktreePath;
 		const ticketId = stateRef.current.commitTicketId;
 		if (!wtPath) return;
-		try {
-			await execAsync("git add -A", { cwd: wtPath });
-			dispatch({ type: "COMMIT_MESSAGE", message: `[${ticketId}] ` });
-			dispatch({ type: "COMMIT_PHASE", phase: "awaiting-message" });
-		} catch (e: any) {
-			dispatch({
-				type: "COMMIT_ERROR",
-				error: e?.stderr?.trim() || e?.message || "Failed to stage",
-			});
+		const result = await gitAsync(["add", "-A"], { cwd: wtPath });
+		if (!result.ok) {
+			dispatch({ type: "COMMIT_ERROR", error: commandError(result, "git add") });
+			return;
 		}
+		const prefix = formatCommitPrefix(getConfig(repoRootRef.current), ticketId);
+		dispatch({ type: "COMMIT_MESSAGE", message: prefix });
+		dispatch({ type: "COMMIT_PHASE", phase: "awaiting-message" });
 	}, []);
 
 	const handleCommitSubmit = useCallback(
@@ -551,28 +597,24 @@ export default function Dashboard() {
 				dispatch({ type: "COMMIT_ERROR", error: "Empty commit message" });
 				return;
 			}
-			const msg = trimmed.includes(`[${s.commitTicketId}]`)
-				? trimmed
-				: `[${s.commitTicketId}] ${trimmed}`;
+			const config = getConfig(repoRootRef.current);
+			const prefix = formatCommitPrefix(config, s.commitTicketId);
+			const msg = !prefix || trimmed.includes(prefix.trim()) ? trimmed : `${prefix}${trimmed}`;
 
 			dispatch({ type: "COMMIT_PHASE", phase: "committing" });
-			try {
-				await execAsync(`git commit -m "${msg.replace(/"/g, '\\"')}"`, {
-					cwd: s.commitWorktreePath,
-				});
-			} catch (e: any) {
-				dispatch({
-					type: "COMMIT_ERROR",
-					error: e?.stderr?.trim() || e?.stdout?.trim() || e?.message || "Commit failed",
-				});
+			const commitResult = await gitAsync(["commit", "-m", msg], { cwd: s.commitWorktreePath });
+			if (!commitResult.ok) {
+				dispatch({ type: "COMMIT_ERROR", error: commandError(commitResult, "git commit") });
 				return;
 			}
 
 			dispatch({ type: "COMMIT_PHASE", phase: "pushing" });
-			try {
-				await execAsync(`git push -u origin "${s.commitBranch}"`, { cwd: s.commitWorktreePath });
-			} catch (e: any) {
-				dispatch({ type: "COMMIT_ERROR", error: e?.stderr?.trim() || e?.message || "Push failed" });
+			const remote = getPushRemote(s.commitBranch, repoRootRef.current);
+			const pushResult = await gitAsync(["push", "-u", remote, s.commitBranch], {
+				cwd: s.commitWorktreePath,
+			});
+			if (!pushResult.ok) {
+				dispatch({ type: "COMMIT_ERROR", error: commandError(pushResult, "git push") });
 				return;
 			}
 
@@ -588,7 +630,7 @@ export default function Dashboard() {
 	// ── Editor actions ───────────────────────────────────────────────
 
 	const openInEditor = useCallback((wtPath: string) => {
-		const editor = process.env.SANTREE_EDITOR || "code";
+		const editor = process.env.SANTREE_EDITOR || getConfig(repoRootRef.current).editor;
 		spawn(editor, [wtPath], { detached: true, stdio: "ignore" }).unref();
 		dispatch({
 			type: "SET_ACTION_MESSAGE",
@@ -599,7 +641,7 @@ export default function Dashboard() {
 	const openWorkspace = useCallback(() => {
 		const repoRoot = repoRootRef.current;
 		if (!repoRoot) return;
-		const editor = process.env.SANTREE_EDITOR || "code";
+		const editor = process.env.SANTREE_EDITOR || getConfig(repoRoot).editor;
 		try {
 			const entries = fs.readdirSync(repoRoot);
 			const wsFile = entries.find((f) => f.endsWith(".code-workspace"));
@@ -626,30 +668,29 @@ export default function Dashboard() {
 
 			// Push first
 			dispatch({ type: "PR_CREATE_PHASE", phase: "pushing" });
-			try {
-				await execAsync(`git -C "${cwd}" push -u origin "${s.prCreateBranch}"`);
-			} catch (e: any) {
-				const msg = e?.stderr?.trim() || e?.message || "Push failed";
-				dispatch({ type: "PR_CREATE_ERROR", error: msg });
+			const remote = getPushRemote(s.prCreateBranch, repoRootRef.current);
+			const pushResult = await gitAsync(["push", "-u", remote, s.prCreateBranch], { cwd });
+			if (!pushResult.ok) {
+				dispatch({ type: "PR_CREATE_ERROR", error: commandError(pushResult, "git push") });
 				return;
 			}
 
 			if (!fill) {
 				// Web mode — open in browser directly
-				try {
-					dispatch({ type: "PR_CREATE_PHASE", phase: "creating" });
-					await execAsync(`gh pr create --web --base "${base}" --head "${s.prCreateBranch}"`, {
-						cwd,
-					});
-					dispatch({ type: "PR_CREATE_DONE", url: "" });
-					setTimeout(() => {
-						dispatch({ type: "PR_CREATE_CANCEL" });
-						refresh();
-					}, 2500);
-				} catch (e: any) {
-					const msg = e?.stderr?.trim() || e?.message || "PR creation failed";
-					dispatch({ type: "PR_CREATE_ERROR", error: msg });
+				dispatch({ type: "PR_CREATE_PHASE", phase: "creating" });
+				const result = await ghAsync(
+					["pr", "create", "--web", "--base", base, "--head", getPRHeadArg(s.prCreateBranch)],
+					{ cwd, env: ghEnv(s.prCreateBranch) },
+				);
+				if (!result.ok) {
+					dispatch({ type: "PR_CREATE_ERROR", error: commandError(result, "gh pr create") });
+					return;
 				}
+				dispatch({ type: "PR_CREATE_DONE", url: "" });
+				setTimeout(() => {
+					dispatch({ type: "PR_CREATE_CANCEL" });
+					refresh();
+				}, 2500);
 				return;
 			}
 
@@ -676,9 +717,10 @@ export default function Dashboard() {
 				dispatch({ type: "PR_CREATE_PHASE", phase: "filling" });
 
 				const ticketId = extractTicketId(s.prCreateBranch) ?? "";
-				const commitLog = run(`git log ${base}..HEAD --format="- %s"`, { cwd }) || null;
-				const diffStat = run(`git diff ${base}..HEAD --stat`, { cwd }) || null;
-				const diff = run(`git diff ${base}..HEAD`, { cwd, maxBuffer: 10 * 1024 * 1024 }) || null;
+				const range = `${base}..HEAD`;
+				const commitLog = commandOutput(git(["log", range, "--format=- %s"], { cwd })) || null;
+				const diffStat = commandOutput(git(["diff", range, "--stat"], { cwd })) || null;
+				const diff = commandOutput(git(["diff", range], { cwd })) || null;
 
 				const diffContent = renderDiff({
 					base_branch: base,
@@ -711,7 +753,7 @@ export default function Dashboard() {
 
 				// Get title from first commit
 				const title =
-					run(`git log ${base}..HEAD --reverse --format=%s`, { cwd })?.split("\n")[0] ??
+					commandOutput(git(["log", range, "--reverse", "--format=%s"], { cwd }))?.split("\n")[0] ??
 					s.prCreateBranch;
 
 				// Show review instead of creating immediately
@@ -732,28 +774,39 @@ export default function Dashboard() {
 		const cwd = s.prCreateWorktreePath;
 
 		dispatch({ type: "PR_CREATE_PHASE", phase: "creating" });
-		try {
-			const bodyFile = path.join(os.tmpdir(), `santree-pr-${Date.now()}.md`);
-			fs.writeFileSync(bodyFile, s.prCreateBody);
-
-			const { stdout } = await execAsync(
-				`gh pr create --title "${s.prCreateTitle.replace(/"/g, '\\"')}" --base "${base}" --head "${s.prCreateBranch}" --body-file "${bodyFile}"`,
-				{ cwd },
-			);
+		const bodyFile = path.join(os.tmpdir(), `santree-pr-${Date.now()}.md`);
+		fs.writeFileSync(bodyFile, s.prCreateBody);
+
+		const result = await ghAsync(
+			[
+				"pr",
+				"create",
+				"--title",
+				s.prCreateTitle,
+				"--base",
+				base,
+				"--head",
+				getPRHeadArg(s.prCreateBranch),
+				"--body-file",
+				bodyFile,
+			],
+			{ cwd, env: ghEnv(s.prCreateBranch) },
+		);
 
-			try {
-				fs.unlinkSync(bodyFile);
-			} catch {}
+		try {
+			fs.unlinkSync(bodyFile);
+		} catch {}
 
-			dispatch({ type: "PR_CREATE_DONE", url: stdout.trim() });
-			setTimeout(() => {
-				dispatch({ type: "PR_CREATE_CANCEL" });
-				refresh();
-			}, 2500);
-		} catch (e: any) {
-			const msg = e?.stderr?.trim() || e?.message || "PR creation failed";
-			dispatch({ type: "PR_CREATE_ERROR", error: msg });
+		if (!result.ok) {
+			dispatch({ type: "PR_CREATE_ERROR", error: commandError(result, "gh pr create") });
+			return;
 		}
+
+		dispatch({ type: "PR_CREATE_DONE", url: result.stdout.trim() });
+		setTimeout(() => {
+			dispatch({ type: "PR_CREATE_CANCEL" });
+			refresh();
+		}, 2500);
 	}, [refresh]);
 
 	const openPrInWeb = useCallback(async () => {
@@ -763,19 +816,46 @@ export default function Dashboard() {
 		const base = getBaseBranch(s.prCreateBranch);
 		const cwd = s.prCreateWorktreePath;
 
-		try {
-			await execAsync(`gh pr create --web --base "${base}" --head "${s.prCreateBranch}"`, { cwd });
-			dispatch({ type: "PR_CREATE_DONE", url: "" });
-			setTimeout(() => {
-				dispatch({ type: "PR_CREATE_CANCEL" });
-				refresh();
-			}, 2500);
-		} catch (e: any) {
-			const msg = e?.stderr?.trim() || e?.message || "Failed to open in browser";
-			dispatch({ type: "PR_CREATE_ERROR", error: msg });
+		const result = await ghAsync(
+			["pr", "create", "--web", "--base", base, "--head", getPRHeadArg(s.prCreateBranch)],
+			{ cwd, env: ghEnv(s.prCreateBranch) },
+		);
+		if (!result.ok) {
+			dispatch({
+				type: "PR_CREATE_ERROR",
+				error: commandError(result, "Failed to open in browser"),
+			});
+			return;
 		}
+		dispatch({ type: "PR_CREATE_DONE", url: "" });
+		setTimeout(() => {
+			dispatch({ type: "PR_CREATE_CANCEL" });
+			refresh();
+		}, 2500);
 	}, [refresh]);
 
+	// ── Diff flow ────────────────────────────────────────────────────
+
+	const doDiff = useCallback(async (uncommitted: boolean) => {
+		const s = stateRef.current;
+		const target = s.diffTargets[s.diffPickIndex];
+		const repoRoot = repoRootRef.current;
+		if (!s.diffPath || !target || !repoRoot) return;
+
+		dispatch({ type: "DIFF_LOADING" });
+		const result = await compareWorktrees(repoRoot, s.diffPath, target.path, { uncommitted });
+		if (!result.comparison) {
+			dispatch({ type: "DIFF_ERROR", error: result.error ?? "Could not compare worktrees" });
+			return;
+		}
+		const stat = await getComparisonDiff(repoRoot, result.comparison, "stat");
+		if (!stat.success) {
+			dispatch({ type: "DIFF_ERROR", error: stat.error ?? "git diff failed" });
+			return;
+		}
+		dispatch({ type: "DIFF_RESULT", comparison: result.comparison, stat: stat.diff ?? "" });
+	}, []);
+
 	// ── Keyboard ──────────────────────────────────────────────────────
 
 	useInput(
@@ -850,6 +930,52 @@ export default function Dashboard() {
 				return;
 			}
 
+			// Diff overlay
+			if (state.overlay === "diff") {
+				if (key.escape || input === "q") {
+					dispatch({ type: "DIFF_CANCEL" });
+					return;
+				}
+				if (input === "u" && state.diffPhase !== "loading") {
+					dispatch({ type: "DIFF_TOGGLE_UNCOMMITTED" });
+					// Recompute right away when a comparison is showing
+					if (state.diffPhase === "show") doDiff(!state.diffUncommitted);
+					return;
+				}
+				if (state.diffPhase === "pick") {
+					if (input === "j" || key.downArrow) {
+						dispatch({
+							type: "DIFF_PICK",
+							index: Math.min(state.diffTargets.length - 1, state.diffPickIndex + 1),
+						});
+						return;
+					}
+					if (input === "k" || key.upArrow) {
+						dispatch({ type: "DIFF_PICK", index: Math.max(0, state.diffPickIndex - 1) });
+						return;
+					}
+					if (key.return) {
+						doDiff(state.diffUncommitted);
+						return;
+					}
+				}
+				if (state.diffPhase === "show" || state.diffPhase === "error") {
+					if (input === "b") {
+						dispatch({ type: "DIFF_BACK" });
+						return;
+					}
+					if (key.shift && key.downArrow) {
+						dispatch({ type: "SCROLL_DETAIL", offset: state.detailScrollOffset + 3 });
+						return;
+					}
+					if (key.shift && key.upArrow) {
+						dispatch({ type: "SCROLL_DETAIL", offset: Math.max(0, state.detailScrollOffset - 3) });
+						return;
+					}
+				}
+				return;
+			}
+
 			// Confirm setup overlay
 			if (state.overlay === "confirm-setup") {
 				const mode = state.setupMode;
@@ -889,20 +1015,35 @@ export default function Dashboard() {
 
 			// Confirm delete overlay
 			if (state.overlay === "confirm-delete") {
-				if (input === "y") {
+				const di = state.flatIssues[state.selectedIndex];
+				// Locked worktrees need an explicit force (F) instead of y
+				const locked = Boolean(di?.worktree?.lock);
+				if ((input === "y" && !locked) || (input === "F" && locked)) {
 					dispatch({ type: "SET_OVERLAY", overlay: null });
-					const di = state.flatIssues[state.selectedIndex];
 					if (di?.worktree) {
 						const repoRoot = repoRootRef.current;
 						if (repoRoot) {
 							dispatch({ type: "DELETE_START", ticketId: di.issue.identifier });
 							const force = di.worktree.dirty;
-							removeWorktree(di.worktree.branch, repoRoot, force).then((result) => {
+							const { scratch } = di.worktree;
+							const removal: Promise<{ success: boolean; error?: string; warning?: string }> = (
+								scratch
+									? removeScratchWorktree(repoRoot, scratch, force)
+									: removeWorktree(di.worktree.branch, repoRoot, force, locked)
+							).catch((e) => ({
+								success: false,
+								error: e instanceof Error ? e.message : "Unknown error",
+							}));
+							removal.then((result) => {
 								dispatch({ type: "DELETE_DONE" });
 								if (result.success) {
 									dispatch({
 										type: "SET_ACTION_MESSAGE",
-										message: `Removed worktree for ${di.issue.identifier}`,
+										message: scratch
+											? `Removed scratch worktree ${scratch.name}`
+											: result.warning
+												? `Removed worktree for ${di.issue.identifier}, but ${result.warning.split("\n")[0]}`
+												: `Removed worktree for ${di.issue.identifier} (santree undo brings it back)`,
 									});
 									refresh();
 								} else {
@@ -961,6 +1102,10 @@ export default function Dashboard() {
 
 			// Work
 			if (input === "w") {
+				if (di.worktree?.scratch) {
+					dispatch({ type: "SET_ACTION_MESSAGE", message: SCRATCH_NEEDS_BRANCH });
+					return;
+				}
 				if (di.worktree?.sessionId) {
 					dispatch({
 						type: "SET_ACTION_MESSAGE",
@@ -984,20 +1129,10 @@ export default function Dashboard() {
 					const bin = resolveAgentBinary();
 					const resumeCmd = sessionId && bin ? `${bin} --resume ${sessionId}` : null;
 
-					try {
-						execSync(`tmux select-window -t "${windowName}"`, { stdio: "ignore" });
-					} catch {
-						// Window doesn't exist — create one and resume/launch
-						try {
-							execSync(`tmux new-window -n "${windowName}" -c "${di.worktree.path}"`, {
-								stdio: "ignore",
-							});
-							execSync("sleep 0.1", { stdio: "ignore" });
-							const cmd = resumeCmd ?? "st worktree work";
-							execSync(`tmux send-keys -t "${windowName}" "${cmd}" Enter`, {
-								stdio: "ignore",
-							});
-						} catch {
+					if (!tmux(["select-window", "-t", windowName]).ok) {
+						// Window doesn't exist — create one and resume/launch (just a shell for scratch)
+						const cmd = resumeCmd ?? (di.worktree.scratch ? undefined : "st worktree work");
+						if (!openTmuxWindow(windowName, di.worktree.path, cmd)) {
 							dispatch({ type: "SET_ACTION_MESSAGE", message: "Failed to switch tmux window" });
 						}
 					}
@@ -1015,8 +1150,7 @@ export default function Dashboard() {
 					dispatch({ type: "SET_ACTION_MESSAGE", message: "No Linear ticket URL" });
 					return;
 				}
-				const openCmd = process.platform === "darwin" ? "open" : "xdg-open";
-				execSync(`${openCmd} "${di.issue.url}"`, { stdio: "ignore" });
+				openUrl(di.issue.url);
 				dispatch({ type: "SET_ACTION_MESSAGE", message: "Opened in browser" });
 				return;
 			}
@@ -1027,8 +1161,7 @@ export default function Dashboard() {
 					dispatch({ type: "SET_ACTION_MESSAGE", message: "No PR to open" });
 					return;
 				}
-				const openCmd = process.platform === "darwin" ? "open" : "xdg-open";
-				execSync(`${openCmd} "${di.pr.url}"`, { stdio: "ignore" });
+				openUrl(di.pr.url);
 				dispatch({ type: "SET_ACTION_MESSAGE", message: "Opened PR in browser" });
 				return;
 			}
@@ -1039,6 +1172,10 @@ export default function Dashboard() {
 					dispatch({ type: "SET_ACTION_MESSAGE", message: "Create a worktree first (w)" });
 					return;
 				}
+				if (di.worktree.scratch) {
+					dispatch({ type: "SET_ACTION_MESSAGE", message: SCRATCH_NEEDS_BRANCH });
+					return;
+				}
 				if (di.pr) {
 					dispatch({ type: "SET_ACTION_MESSAGE", message: "PR already exists" });
 					return;
@@ -1060,13 +1197,9 @@ export default function Dashboard() {
 				}
 				if (isInTmux()) {
 					const windowName = `review-${di.issue.identifier}`;
-					try {
-						execSync(`tmux new-window -n "${windowName}" -c "${di.worktree.path}"`, {
-							stdio: "ignore",
-						});
-						execSync(`tmux send-keys -t "${windowName}" "st pr review" Enter`, { stdio: "ignore" });
+					if (openTmuxWindow(windowName, di.worktree.path, "st pr review")) {
 						dispatch({ type: "SET_ACTION_MESSAGE", message: "Launched review in tmux" });
-					} catch {
+					} else {
 						dispatch({ type: "SET_ACTION_MESSAGE", message: "Failed to launch review" });
 					}
 				} else {
@@ -1099,13 +1232,17 @@ export default function Dashboard() {
 					dispatch({ type: "SET_ACTION_MESSAGE", message: "No worktree" });
 					return;
 				}
+				if (di.worktree.scratch) {
+					dispatch({ type: "SET_ACTION_MESSAGE", message: SCRATCH_NEEDS_BRANCH });
+					return;
+				}
 				if (!di.worktree.dirty) {
 					dispatch({ type: "SET_ACTION_MESSAGE", message: "No changes to commit" });
 					return;
 				}
 				dispatch({
 					type: "COMMIT_START",
-					ticketId: di.issue.identifier,
+					ticketId: extractTicketId(di.worktree.branch),
 					worktreePath: di.worktree.path,
 					branch: di.worktree.branch,
 					gitStatus: di.worktree.gitStatus,
@@ -1121,13 +1258,9 @@ export default function Dashboard() {
 				}
 				if (isInTmux()) {
 					const windowName = `fix-${di.issue.identifier}`;
-					try {
-						execSync(`tmux new-window -n "${windowName}" -c "${di.worktree.path}"`, {
-							stdio: "ignore",
-						});
-						execSync(`tmux send-keys -t "${windowName}" "st pr fix" Enter`, { stdio: "ignore" });
+					if (openTmuxWindow(windowName, di.worktree.path, "st pr fix")) {
 						dispatch({ type: "SET_ACTION_MESSAGE", message: "Launched PR fix in tmux" });
-					} catch {
+					} else {
 						dispatch({ type: "SET_ACTION_MESSAGE", message: "Failed to launch PR fix" });
 					}
 				} else {
@@ -1138,6 +1271,24 @@ export default function Dashboard() {
 				return;
 			}
 
+			// Compare with another worktree
+			if (input === "D") {
+				if (!di.worktree) {
+					dispatch({ type: "SET_ACTION_MESSAGE", message: "No worktree to compare" });
+					return;
+				}
+				const selectedPath = path.resolve(di.worktree.path);
+				dispatch({
+					type: "DIFF_START",
+					branch: di.worktree.branch,
+					path: di.worktree.path,
+					targets: listWorktrees()
+						.filter((wt) => !wt.isBare && path.resolve(wt.path) !== selectedPath)
+						.map((wt) => ({ branch: wt.branch, path: wt.path })),
+				});
+				return;
+			}
+
 			// Delete worktree
 			if (input === "d") {
 				if (!di.worktree) {
@@ -1260,17 +1411,42 @@ export default function Dashboard() {
 							Remove worktree?
 						</Text>
 						<Text> </Text>
-						<Text>{selectedIssue?.worktree?.branch ?? ""}</Text>
+						<Text>
+							{selectedIssue?.worktree?.scratch
+								? `scratch/${selectedIssue.worktree.scratch.name}`
+								: (selectedIssue?.worktree?.branch ?? "")}
+						</Text>
 						{selectedIssue?.worktree?.dirty && (
-							<Text color="yellow">Warning: worktree has uncommitted changes</Text>
+							<Text color="yellow">
+								{selectedIssue.worktree.scratch
+									? "Warning: uncommitted changes will be lost (scratch worktrees skip the trash)"
+									: "Warning: worktree has uncommitted changes"}
+							</Text>
+						)}
+						{selectedIssue?.worktree?.lock && (
+							<Text color="yellow">
+								Locked
+								{selectedIssue.worktree.lock.reason
+									? `: ${selectedIssue.worktree.lock.reason}`
+									: ""}
+							</Text>
 						)}
 						<Text> </Text>
-						<Text>
-							<Text color="red" bold>
-								y
+						{selectedIssue?.worktree?.lock ? (
+							<Text>
+								<Text color="red" bold>
+									F
+								</Text>
+								{"  Force remove"}
 							</Text>
-							{"  Confirm"}
-						</Text>
+						) : (
+							<Text>
+								<Text color="red" bold>
+									y
+								</Text>
+								{"  Confirm"}
+							</Text>
+						)}
 						<Text>
 							<Text color="cyan" bold>
 								n
@@ -1288,9 +1464,13 @@ export default function Dashboard() {
 						paddingX={3}
 						paddingY={1}
 					>
-						<Text bold>Run setup script?</Text>
+						<Text bold>Run setup steps?</Text>
 						<Text> </Text>
-						<Text dimColor>.santree/init.sh</Text>
+						<Text dimColor>
+							{getProvisionSteps(repoRootRef.current!)
+								.map((step) => step.name)
+								.join(" → ")}
+						</Text>
 						<Text> </Text>
 						<Text>
 							<Text color="green" bold>
@@ -1319,6 +1499,7 @@ export default function Dashboard() {
 							width={leftWidth}
 							creatingForTicket={state.creatingForTicket}
 							deletingForTicket={state.deletingForTicket}
+							diskUsage={state.diskUsage}
 						/>
 					</Box>
 
@@ -1346,6 +1527,20 @@ export default function Dashboard() {
 								dispatch={dispatch}
 								onSubmit={handleCommitSubmit}
 							/>
+						) : state.overlay === "diff" ? (
+							<DiffOverlay
+								width={rightWidth}
+								height={contentHeight}
+								branch={state.diffBranch}
+								phase={state.diffPhase}
+								targets={state.diffTargets}
+								pickIndex={state.diffPickIndex}
+								uncommitted={state.diffUncommitted}
+								comparison={state.diffComparison}
+								stat={state.diffStat}
+								error={state.diffError}
+								scrollOffset={state.detailScrollOffset}
+							/>
 						) : state.overlay === "pr-create" ? (
 							<PrCreateOverlay
 								width={rightWidth}
@@ -1367,6 +1562,9 @@ export default function Dashboard() {
 								width={rightWidth}
 								creatingForTicket={state.creatingForTicket}
 								creationLogs={state.creationLogs}
+								diskUsage={
+									selectedIssue?.worktree ? state.diskUsage[selectedIssue.worktree.path] : undefined
+								}
 							/>
 						)}
 					</Box>
@@ -2,6 +2,7 @@ import { useEffect, useRef } from "react";
 import { execSync } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
+import { getConfig } from "../../lib/config.js";
 
 export const description = "Statusline wrapper for Claude Code";
 
@@ -82,9 +83,13 @@ function isWorktree(cwd: string): boolean {
 	}
 }
 
-// Check if directory is a santree-managed worktree
+// Check if directory is a santree-managed worktree: inside the repo's config `worktrees_dir`
 function isSantreeWorktree(cwd: string): boolean {
-	return cwd.includes("/.santree/worktrees/");
+	const gitCommonDir = git(cwd, "rev-parse --git-common-dir");
+	if (!gitCommonDir) return false;
+	const mainRepoRoot = path.dirname(path.resolve(cwd, gitCommonDir));
+	const worktreesDir = path.resolve(mainRepoRoot, getConfig(mainRepoRoot).worktrees_dir);
+	return path.resolve(cwd).startsWith(worktreesDir + path.sep);
 }
 
 // Extract ticket ID from branch name (e.g., feature/TEAM-123-desc -> TEAM-123)
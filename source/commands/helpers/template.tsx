@@ -148,6 +148,10 @@ export default function Template({ args }: Props) {
 		run();
 	}, [type]);
 
+	useEffect(() => {
+		if (status === "error") process.exitCode = 1;
+	}, [status]);
+
 	if (status === "done") return null;
 
 	const spinnerTexts: Record<string, string> = {
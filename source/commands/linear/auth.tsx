@@ -2,12 +2,8 @@ import { useEffect, useState } from "react";
 import { Text, Box, useInput } from "ink";
 import Spinner from "ink-spinner";
 import { z } from "zod";
-import {
-	findMainRepoRoot,
-	setRepoLinearOrg,
-	getRepoLinearOrg,
-	removeRepoLinearOrg,
-} from "../../lib/git.js";
+import { findMainRepoRoot } from "../../lib/git.js";
+import { setRepoLinearOrg, getRepoLinearOrg, removeRepoLinearOrg } from "../../lib/metadata.js";
 import {
 	startOAuthFlow,
 	getAuthStatus,
@@ -22,6 +18,7 @@ export const description = "Authenticate with Linear";
 export const options = z.object({
 	logout: z.boolean().optional().describe("Unlink Linear workspace from this repo"),
 	status: z.boolean().optional().describe("Show current auth status"),
+	json: z.boolean().optional().describe("Print the auth status as JSON (with --status)"),
 	test: z
 		.string()
 		.optional()
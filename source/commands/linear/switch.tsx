@@ -1,7 +1,8 @@
 import { useEffect, useState } from "react";
 import { Text, Box, useInput } from "ink";
 import Spinner from "ink-spinner";
-import { findMainRepoRoot, setRepoLinearOrg, getRepoLinearOrg } from "../../lib/git.js";
+import { findMainRepoRoot } from "../../lib/git.js";
+import { setRepoLinearOrg, getRepoLinearOrg } from "../../lib/metadata.js";
 import { readAuthStore } from "../../lib/linear.js";
 
 export const description = "Switch Linear workspace for this repo";
@@ -2,8 +2,6 @@ import { useEffect, useState } from "react";
 import { Text, Box, useInput, useApp } from "ink";
 import Spinner from "ink-spinner";
 import { z } from "zod";
-import { exec } from "child_process";
-import { promisify } from "util";
 import { join } from "path";
 import { writeFileSync } from "fs";
 import { tmpdir } from "os";
@@ -22,6 +20,7 @@ import {
 	getCommitLog,
 	getDiffStat,
 	getDiffContent,
+	getHookContext,
 } from "../../lib/git.js";
 import {
 	ghCliAvailable,
@@ -33,8 +32,9 @@ import {
 } from "../../lib/github.js";
 import { renderPrompt, renderDiff } from "../../lib/prompts.js";
 import { runAgent } from "../../lib/ai.js";
-
-const execAsync = promisify(exec);
+import { runCommandAsync } from "../../lib/exec.js";
+import { getStackParent } from "../../lib/stack.js";
+import { runHook } from "../../lib/hooks.js";
 
 export const description = "Create a GitHub pull request";
 
@@ -65,6 +65,7 @@ export default function PR({ options }: Props) {
 	const [issueId, setIssueId] = useState<string | null>(null);
 	const [closedPrInfo, setClosedPrInfo] = useState<PRInfo | null>(null);
 	const [pendingCreate, setPendingCreate] = useState(false);
+	const [hookWarning, setHookWarning] = useState<string | null>(null);
 
 	useInput((input, key) => {
 		if (status !== "confirm-reopen") return;
@@ -85,7 +86,7 @@ export default function PR({ options }: Props) {
 		openPR();
 	}, [pendingCreate]);
 
-	function openPR() {
+	async function openPR() {
 		if (!branch || !baseBranch) return;
 
 		const title = getFirstCommitMessage(baseBranch) ?? branch;
@@ -138,6 +139,15 @@ export default function PR({ options }: Props) {
 		const result = createPR(title, baseBranch, branch, bodyFile);
 
 		if (result === 0) {
+			// The PR is finished in the browser, so its number isn't known yet
+			const mainRepo = findMainRepoRoot();
+			if (mainRepo) {
+				const hook = await runHook(
+					"post-pr-create",
+					getHookContext(branch, mainRepo, { baseBranch }),
+				);
+				if (!hook.success) setHookWarning(hook.error ?? null);
+			}
 			setStatus("done");
 			setMessage("Opened PR creation page in browser");
 		} else {
@@ -216,6 +226,20 @@ export default function PR({ options }: Props) {
 			// Yield to let spinner animate
 			await new Promise((r) => setTimeout(r, 10));
 
+			// Stacked PRs target their parent branch, which must exist on the remote
+			const parent = getStackParent(mainRepoRoot, branchName);
+			if (parent && !remoteBranchExists(parent)) {
+				setStatus("pushing");
+				setMessage(`Pushing parent branch ${parent}...`);
+				await new Promise((r) => setTimeout(r, 10));
+
+				if (!pushBranch(parent)) {
+					setStatus("error");
+					setMessage(`Failed to push parent branch ${parent} to remote`);
+					return;
+				}
+			}
+
 			// Check if we need to push
 			const remoteExists = remoteBranchExists(branchName);
 			const unpushed = getUnpushedCommits(branchName);
@@ -246,11 +270,8 @@ export default function PR({ options }: Props) {
 				setStatus("existing");
 				setMessage(`PR already exists (#${existingPr.number}) - ${existingPr.state}`);
 				if (existingPr.url) {
-					try {
-						await execAsync(`open "${existingPr.url}"`);
-					} catch {
-						// Ignore open errors
-					}
+					// Ignore open errors
+					await runCommandAsync("open", [existingPr.url]);
 				}
 				setTimeout(() => exit(), 100);
 				return;
@@ -273,6 +294,14 @@ export default function PR({ options }: Props) {
 		}
 	}, [status, branch, baseBranch]);
 
+	useEffect(() => {
+		if (status === "error") {
+			process.exitCode = 1;
+			const timer = setTimeout(() => exit(), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
 	const isLoading =
 		status === "checking" || status === "pushing" || status === "filling" || status === "creating";
 
@@ -347,9 +376,12 @@ export default function PR({ options }: Props) {
 					</Box>
 				)}
 				{status === "done" && (
-					<Text color="green" bold>
-						✓ {message}
-					</Text>
+					<Box flexDirection="column">
+						<Text color="green" bold>
+							✓ {message}
+						</Text>
+						{hookWarning && <Text color="yellow">⚠ {hookWarning}</Text>}
+					</Box>
 				)}
 				{status === "existing" && (
 					<Text color="yellow" bold>
@@ -57,13 +57,15 @@ export default function Fix() {
 				const child = launchAgent(prompt);
 
 				child.on("error", (err) => {
+					// close follows right away and exits with this code
+					process.exitCode = 1;
 					setStatus("error");
 					setError(`Failed to launch agent: ${err.message}`);
 				});
 
 				child.on("close", () => {
 					if (ctx.ticketId) cleanupImages(ctx.ticketId);
-					process.exit(0);
+					process.exit();
 				});
 			} catch (err) {
 				setStatus("error");
@@ -75,6 +77,10 @@ export default function Fix() {
 		init();
 	}, []);
 
+	useEffect(() => {
+		if (status === "error") process.exitCode = 1;
+	}, [status]);
+
 	return (
 		<Box flexDirection="column" padding={1} width="100%">
 			<Box marginBottom={1}>
@@ -133,7 +139,7 @@ export default function Fix() {
 						<Text color="green" bold>
 							✓ Launching Claude...
 						</Text>
-						<Text dimColor> claude {`"<fix-pr prompt for ${ticketId}>"`}</Text>
+						<Text dimColor> claude {`"<fix-pr prompt for ${ticketId ?? branch}>"`}</Text>
 					</Box>
 				)}
 				{status === "error" && (
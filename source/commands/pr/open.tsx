@@ -1,12 +1,9 @@
 import { useEffect, useState } from "react";
 import { Text, Box } from "ink";
 import Spinner from "ink-spinner";
-import { exec } from "child_process";
-import { promisify } from "util";
 import { getCurrentBranch, isInWorktree } from "../../lib/git.js";
-import { ghCliAvailable } from "../../lib/github.js";
-
-const execAsync = promisify(exec);
+import { ghCliAvailable, getPRRef, ghEnv } from "../../lib/github.js";
+import { ghAsync } from "../../lib/exec.js";
 
 export const description = "Open the current PR in the browser";
 
@@ -39,11 +36,13 @@ export default function PROpen() {
 				return;
 			}
 
-			try {
-				await execAsync(`gh pr view "${branch}" --web`);
+			const result = await ghAsync(["pr", "view", getPRRef(branch), "--web"], {
+				env: ghEnv(branch),
+			});
+			if (result.ok) {
 				setStatus("done");
 				setMessage("Opened PR in browser");
-			} catch {
+			} else {
 				setStatus("error");
 				setMessage(`No PR found for branch ${branch}`);
 			}
@@ -48,13 +48,15 @@ export default function Review() {
 				const child = launchAgent(prompt);
 
 				child.on("error", (err) => {
+					// close follows right away and exits with this code
+					process.exitCode = 1;
 					setStatus("error");
 					setError(`Failed to launch agent: ${err.message}`);
 				});
 
 				child.on("close", () => {
 					if (ctx.ticketId) cleanupImages(ctx.ticketId);
-					process.exit(0);
+					process.exit();
 				});
 			} catch (err) {
 				setStatus("error");
@@ -66,6 +68,10 @@ export default function Review() {
 		init();
 	}, []);
 
+	useEffect(() => {
+		if (status === "error") process.exitCode = 1;
+	}, [status]);
+
 	return (
 		<Box flexDirection="column" padding={1} width="100%">
 			<Box marginBottom={1}>
@@ -124,7 +130,7 @@ export default function Review() {
 						<Text color="green" bold>
 							✓ Launching Claude...
 						</Text>
-						<Text dimColor> claude {`"<review prompt for ${ticketId}>"`}</Text>
+						<Text dimColor> claude {`"<review prompt for ${ticketId ?? branch}>"`}</Text>
 					</Box>
 				)}
 				{status === "error" && (
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import { z } from "zod";
+import { addRepo, type RegisteredRepo } from "../../lib/repos.js";
+
+export const description = "Register a repository";
+
+export const options = z.object({
+	name: z.string().optional().describe("Name to register it under (default: its directory name)"),
+});
+
+export const args = z.tuple([
+	z.string().optional().describe("Path to the repository (defaults to the current one)"),
+]);
+
+type Props = {
+	options: z.infer<typeof options>;
+	args: z.infer<typeof args>;
+};
+
+type Status = "adding" | "done" | "error";
+
+export default function RepoAdd({ options, args }: Props) {
+	const [dir] = args;
+	const [status, setStatus] = useState<Status>("adding");
+	const [message, setMessage] = useState("");
+	const [repo, setRepo] = useState<RegisteredRepo | null>(null);
+
+	useEffect(() => {
+		const result = addRepo(dir ?? process.cwd(), options.name);
+		if (!result.success || !result.repo) {
+			setStatus("error");
+			setMessage(result.error ?? "Could not register the repository");
+			return;
+		}
+		setRepo(result.repo);
+		setStatus("done");
+		setMessage(`Registered ${result.repo.name}`);
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			{status === "done" && repo && (
+				<>
+					<Text color="green" bold>
+						✓ {message}
+					</Text>
+					<Text dimColor> {repo.path}</Text>
+				</>
+			)}
+			{status === "error" && (
+				<Text color="red" bold>
+					✗ {message}
+				</Text>
+			)}
+		</Box>
+	);
+}
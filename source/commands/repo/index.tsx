@@ -0,0 +1 @@
+export const description = "Repositories a ticket's worktrees can span";
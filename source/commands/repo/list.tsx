@@ -0,0 +1,63 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Text, Box } from "ink";
+import { findMainRepoRoot, listWorktrees } from "../../lib/git.js";
+import { listRegisteredRepos, getRegistryPath } from "../../lib/repos.js";
+
+export const description = "List registered repositories";
+
+export default function RepoList() {
+	const repos = listRegisteredRepos();
+	if (repos.length === 0) {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<Text color="yellow">No repositories registered</Text>
+				<Text dimColor>{"Register one with: santree repo add <path> [--name <name>]"}</Text>
+			</Box>
+		);
+	}
+
+	const current = findMainRepoRoot();
+	const nameWidth = Math.max(...repos.map((r) => r.name.length));
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					📚 Repositories
+				</Text>
+				<Text dimColor> ({repos.length})</Text>
+			</Box>
+
+			{repos.map((r) => {
+				const root = path.resolve(r.path);
+				const missing = !fs.existsSync(root);
+				const worktrees = missing
+					? 0
+					: listWorktrees(root).filter((w) => path.resolve(w.path) !== root).length;
+				return (
+					<Box key={r.name} gap={2}>
+						<Box width={nameWidth}>
+							<Text color="cyan" bold>
+								{r.name}
+							</Text>
+						</Box>
+						<Text>{r.path}</Text>
+						{missing ? (
+							<Text color="red">missing</Text>
+						) : (
+							<Text dimColor>
+								{worktrees} worktree{worktrees === 1 ? "" : "s"}
+							</Text>
+						)}
+						{current && path.resolve(current) === root && <Text color="green">current</Text>}
+					</Box>
+				);
+			})}
+
+			<Box marginTop={1}>
+				<Text dimColor>{getRegistryPath()}</Text>
+			</Box>
+		</Box>
+	);
+}
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import { z } from "zod";
+import { removeRepo } from "../../lib/repos.js";
+
+export const description = "Unregister a repository (its worktrees are left alone)";
+
+export const args = z.tuple([z.string().describe("Name the repository is registered under")]);
+
+type Props = {
+	args: z.infer<typeof args>;
+};
+
+type Status = "removing" | "done" | "error";
+
+export default function RepoRemove({ args }: Props) {
+	const [name] = args;
+	const [status, setStatus] = useState<Status>("removing");
+	const [message, setMessage] = useState("");
+
+	useEffect(() => {
+		const result = removeRepo(name);
+		if (!result.success) {
+			setStatus("error");
+			setMessage(result.error ?? "Could not unregister the repository");
+			return;
+		}
+		setStatus("done");
+		setMessage(`Unregistered ${name}`);
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			{status === "done" && (
+				<Text color="green" bold>
+					✓ {message}
+				</Text>
+			)}
+			{status === "error" && (
+				<Text color="red" bold>
+					✗ {message}
+				</Text>
+			)}
+		</Box>
+	);
+}
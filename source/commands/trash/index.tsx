@@ -0,0 +1 @@
+export const description = "Worktrees removed by santree, kept for undo";
@@ -0,0 +1,75 @@
+import { Text, Box } from "ink";
+import { findMainRepoRoot } from "../../lib/git.js";
+import { listTrash } from "../../lib/trash.js";
+
+export const description = "List removed worktrees that can be restored";
+
+export default function TrashList() {
+	const root = findMainRepoRoot();
+	if (!root) {
+		return (
+			<Box padding={1}>
+				<Text color="red" bold>
+					✗ Not inside a git repository
+				</Text>
+			</Box>
+		);
+	}
+
+	const entries = listTrash(root);
+	if (entries.length === 0) {
+		return (
+			<Box padding={1}>
+				<Text color="yellow">The trash is empty</Text>
+			</Box>
+		);
+	}
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					🗑️ Trash
+				</Text>
+				<Text dimColor> ({entries.length})</Text>
+			</Box>
+
+			{entries.map((e, i) => (
+				<Box
+					key={e.id}
+					flexDirection="column"
+					borderStyle="round"
+					borderColor="gray"
+					paddingX={1}
+					marginBottom={i < entries.length - 1 ? 1 : 0}
+				>
+					<Box gap={1}>
+						<Text color="cyan" bold>
+							{e.branch}
+						</Text>
+						<Text dimColor>{e.id}</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>removed:</Text>
+						<Text>{new Date(e.removed_at).toLocaleString()}</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>head:</Text>
+						<Text>{e.head.slice(0, 8)}</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>changes:</Text>
+						{e.snapshot && <Text color="yellow">● uncommitted</Text>}
+						{e.untracked > 0 && <Text color="yellow">+ {e.untracked} untracked</Text>}
+						{!e.snapshot && e.untracked === 0 && <Text dimColor>none</Text>}
+						{e.metadata.session_id !== undefined && <Text color="magenta">session</Text>}
+					</Box>
+				</Box>
+			))}
+
+			<Box marginTop={1}>
+				<Text dimColor>{"Restore with: santree trash restore <id|branch>"}</Text>
+			</Box>
+		</Box>
+	);
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import { z } from "zod";
+import { findMainRepoRoot } from "../../lib/git.js";
+import { findTrash, listTrash, purgeTrash, type TrashEntry } from "../../lib/trash.js";
+import { parseDuration } from "../../lib/clean.js";
+
+export const description = "Permanently delete removed worktrees from the trash";
+
+export const options = z.object({
+	all: z.boolean().optional().describe("Empty the whole trash"),
+	olderThan: z
+		.string()
+		.optional()
+		.describe("Only worktrees removed longer ago than this (e.g. 12h, 30d, 2w)"),
+});
+
+export const args = z.tuple([z.string().optional().describe("Trash ID or branch name")]);
+
+type Props = {
+	options: z.infer<typeof options>;
+	args: z.infer<typeof args>;
+};
+
+function purge(
+	root: string,
+	query: string | undefined,
+	options: Props["options"],
+): { purged?: TrashEntry[]; error?: string } {
+	if (query) {
+		const entry = findTrash(root, query);
+		if (!entry) return { error: `Nothing in the trash for ${query}` };
+		purgeTrash(root, entry);
+		return { purged: [entry] };
+	}
+
+	if (!options.all && !options.olderThan) {
+		return { error: "Give a trash ID or branch, --older-than <duration>, or --all" };
+	}
+
+	let entries = listTrash(root);
+	if (options.olderThan) {
+		const maxAge = parseDuration(options.olderThan);
+		if (maxAge === null) {
+			return { error: `Invalid duration: ${options.olderThan} (use e.g. 12h, 30d, 2w)` };
+		}
+		const cutoff = Date.now() - maxAge;
+		entries = entries.filter((e) => new Date(e.removed_at).getTime() < cutoff);
+	}
+	for (const entry of entries) purgeTrash(root, entry);
+	return { purged: entries };
+}
+
+type Status = "purging" | "done" | "error";
+
+export default function TrashPurge({ args, options }: Props) {
+	const [query] = args;
+	const [status, setStatus] = useState<Status>("purging");
+	const [message, setMessage] = useState("");
+	const [purged, setPurged] = useState<TrashEntry[]>([]);
+
+	useEffect(() => {
+		const root = findMainRepoRoot();
+		if (!root) {
+			setStatus("error");
+			setMessage("Not inside a git repository");
+			return;
+		}
+
+		const result = purge(root, query, options);
+		if (result.error) {
+			setStatus("error");
+			setMessage(result.error);
+			return;
+		}
+		const entries = result.purged ?? [];
+		setPurged(entries);
+		setStatus("done");
+		setMessage(
+			entries.length === 0
+				? "Nothing to purge"
+				: `Purged ${entries.length} worktree${entries.length === 1 ? "" : "s"} from the trash`,
+		);
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			{status === "done" && (
+				<Text color={purged.length > 0 ? "green" : "yellow"} bold>
+					{purged.length > 0 ? "✓ " : ""}
+					{message}
+				</Text>
+			)}
+			{purged.map((e) => (
+				<Text key={e.id} dimColor>
+					{" "}
+					{e.branch} ({e.id})
+				</Text>
+			))}
+			{status === "error" && (
+				<Text color="red" bold>
+					✗ {message}
+				</Text>
+			)}
+		</Box>
+	);
+}
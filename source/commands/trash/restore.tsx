@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import { findMainRepoRoot } from "../../lib/git.js";
+import { findTrash, listTrash, type TrashEntry } from "../../lib/trash.js";
+import { restoreFromTrash } from "../../lib/undo.js";
+import { hasProvisioning, provisionWorktree } from "../../lib/provision.js";
+
+export const description = "Bring back a removed worktree";
+
+export const args = z.tuple([
+	z
+		.string()
+		.optional()
+		.describe("Trash ID or branch name (defaults to the most recently removed worktree)"),
+]);
+
+type Props = {
+	args: z.infer<typeof args>;
+};
+
+type Status = "restoring" | "setup" | "done" | "error";
+
+export default function TrashRestore({ args }: Props) {
+	const [query] = args;
+	const [status, setStatus] = useState<Status>("restoring");
+	const [message, setMessage] = useState("Restoring worktree...");
+	const [entry, setEntry] = useState<TrashEntry | null>(null);
+	const [worktreePath, setWorktreePath] = useState("");
+	const [warnings, setWarnings] = useState<string[]>([]);
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const root = findMainRepoRoot();
+			if (!root) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			const found = query ? findTrash(root, query) : (listTrash(root)[0] ?? null);
+			if (!found) {
+				setStatus("error");
+				setMessage(query ? `Nothing in the trash for ${query}` : "The trash is empty");
+				return;
+			}
+			setEntry(found);
+
+			const result = await restoreFromTrash(root, found);
+			if (!result.success || !result.path) {
+				setStatus("error");
+				setMessage(result.error ?? "Unknown error");
+				return;
+			}
+			setWorktreePath(result.path);
+			const problems: string[] = result.warning ? result.warning.split("\n") : [];
+
+			// Ignored files (.env, dependencies) weren't kept; setup recreates them
+			if (hasProvisioning(root)) {
+				setStatus("setup");
+				const setup = await provisionWorktree(root, result.path, found.branch, {
+					onStep: (step, state) => {
+						if (state === "running") setMessage(`Running setup step ${step.name}...`);
+					},
+				});
+				if (!setup.success) {
+					problems.push(
+						`${setup.error}. Resume with: santree worktree setup --from ${setup.failedStep}`,
+					);
+				}
+			}
+
+			setWarnings(problems);
+			setStatus("done");
+			setMessage(`Restored ${found.branch}`);
+			console.log(`SANTREE_CD:${result.path}`);
+		}
+
+		run();
+	}, [query]);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	const isLoading = status === "restoring" || status === "setup";
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					♻️ Undo Remove
+				</Text>
+			</Box>
+
+			{entry && (
+				<Box
+					flexDirection="column"
+					borderStyle="round"
+					borderColor={status === "error" ? "red" : status === "done" ? "green" : "blue"}
+					paddingX={1}
+					width="100%"
+				>
+					<Box gap={1}>
+						<Text dimColor>branch:</Text>
+						<Text color="cyan" bold>
+							{entry.branch}
+						</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>removed:</Text>
+						<Text>{new Date(entry.removed_at).toLocaleString()}</Text>
+					</Box>
+				</Box>
+			)}
+
+			<Box marginTop={1}>
+				{isLoading && (
+					<Box>
+						<Text color="cyan">
+							<Spinner type="dots" />
+						</Text>
+						<Text> {message}</Text>
+					</Box>
+				)}
+				{status === "done" && (
+					<Box flexDirection="column">
+						<Text color="green" bold>
+							✓ {message}
+						</Text>
+						<Text dimColor> {worktreePath}</Text>
+						{warnings.map((w) => (
+							<Text key={w} color="yellow">
+								{" "}
+								⚠ {w}
+							</Text>
+						))}
+					</Box>
+				)}
+				{status === "error" && (
+					<Text color="red" bold>
+						✗ {message}
+					</Text>
+				)}
+			</Box>
+		</Box>
+	);
+}
@@ -0,0 +1,7 @@
+import TrashRestore from "./trash/restore.js";
+
+export const description = "Bring back the most recently removed worktree";
+
+export default function Undo() {
+	return <TrashRestore args={[undefined]} />;
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import { findMainRepoRoot } from "../../lib/git.js";
+import { archiveWorktree, type ArchiveManifest } from "../../lib/archive.js";
+
+export const description = "Archive a worktree, keeping its changes and session";
+
+export const options = z.object({
+	note: z.string().optional().describe("Note to keep with the archive"),
+});
+
+export const args = z.tuple([z.string().describe("Branch name to archive")]);
+
+type Props = {
+	options: z.infer<typeof options>;
+	args: z.infer<typeof args>;
+};
+
+type Status = "archiving" | "done" | "error";
+
+export default function Archive({ args, options }: Props) {
+	const [branchName] = args;
+	const [status, setStatus] = useState<Status>("archiving");
+	const [message, setMessage] = useState("");
+	const [manifest, setManifest] = useState<ArchiveManifest | null>(null);
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const root = findMainRepoRoot();
+			if (!root) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			const result = await archiveWorktree(branchName, root, options.note);
+			if (result.success && result.manifest) {
+				setManifest(result.manifest);
+				setStatus("done");
+				const { branch } = result.manifest;
+				setMessage(`Archived ${branch}. Restore with: santree worktree restore ${branch}`);
+			} else {
+				setStatus("error");
+				setMessage(result.error ?? "Unknown error");
+			}
+		}
+
+		run();
+	}, [branchName]);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					📦 Archive
+				</Text>
+			</Box>
+
+			<Box
+				flexDirection="column"
+				borderStyle="round"
+				borderColor={status === "error" ? "red" : status === "done" ? "green" : "blue"}
+				paddingX={1}
+				width="100%"
+			>
+				<Box gap={1}>
+					<Text dimColor>branch:</Text>
+					<Text color="cyan" bold>
+						{branchName}
+					</Text>
+				</Box>
+				{manifest && (
+					<Box gap={1}>
+						<Text dimColor>changes:</Text>
+						<Text>{manifest.snapshot ? "stashed" : "none"}</Text>
+					</Box>
+				)}
+				{manifest?.metadata.session_id !== undefined && (
+					<Box gap={1}>
+						<Text dimColor>session:</Text>
+						<Text>kept</Text>
+					</Box>
+				)}
+				{options.note && (
+					<Box gap={1}>
+						<Text dimColor>note:</Text>
+						<Text>{options.note}</Text>
+					</Box>
+				)}
+			</Box>
+
+			<Box marginTop={1}>
+				{status === "archiving" && (
+					<Box>
+						<Text color="cyan">
+							<Spinner type="dots" />
+						</Text>
+						<Text> Archiving worktree...</Text>
+					</Box>
+				)}
+				{status === "done" && (
+					<Text color="green" bold>
+						✓ {message}
+					</Text>
+				)}
+				{status === "error" && (
+					<Text color="red" bold>
+						✗ {message}
+					</Text>
+				)}
+			</Box>
+		</Box>
+	);
+}
@@ -2,71 +2,121 @@ import { useEffect, useState } from "react";
 import { Text, Box, useInput, useApp } from "ink";
 import Spinner from "ink-spinner";
 import { z } from "zod";
-import { findMainRepoRoot, listWorktrees, removeWorktree, isWorktreePath } from "../../lib/git.js";
-import { getPRInfoAsync } from "../../lib/github.js";
-
-export const description = "Remove worktrees with merged/closed PRs";
-
-export const options = z.object({});
+import { findMainRepoRoot, removeWorktree } from "../../lib/git.js";
+import { ghCliAvailable } from "../../lib/github.js";
+import {
+	findCleanCandidates,
+	parseDuration,
+	type CleanCandidate,
+	type CleanCriteria,
+} from "../../lib/clean.js";
+import { removeScratchWorktree } from "../../lib/scratch.js";
+
+export const description = "Remove merged, abandoned or idle worktrees";
+
+export const options = z.object({
+	merged: z
+		.boolean()
+		.optional()
+		.describe("Worktrees whose PR is merged or closed (default when no criteria are given)"),
+	// Declared as a default-true `pr` flag so it is spelled --no-pr on the command line
+	pr: z.boolean().default(true).describe("Worktrees whose branch has no PR"),
+	olderThan: z
+		.string()
+		.optional()
+		.describe("Worktrees with no commit or file change for this long (e.g. 12h, 30d, 2w)"),
+	linearDone: z
+		.boolean()
+		.optional()
+		.describe("Worktrees whose Linear ticket is completed or canceled"),
+	branchGone: z.boolean().optional().describe("Worktrees whose remote branch was deleted"),
+	ignoreLock: z.boolean().optional().describe("Also remove locked worktrees"),
+});
 
 type Props = {
 	options: z.infer<typeof options>;
 };
 
-interface StaleWorktree {
-	branch: string;
-	path: string;
-	prNum: string;
-	prState: "MERGED" | "CLOSED";
+/** What a candidate is listed as: its branch, or scratch/<name> */
+function candidateName(wt: CleanCandidate): string {
+	return wt.scratch ? `scratch/${wt.scratch.name}` : wt.branch;
 }
 
-type Status =
-	| "checking"
-	| "confirming"
-	| "removing"
-	| "done"
-	| "none-found"
-	| "cancelled"
-	| "error";
+type Status = "checking" | "selecting" | "removing" | "done" | "none-found" | "cancelled" | "error";
 
-export default function Clean({}: Props) {
+export default function Clean({ options }: Props) {
 	const { exit } = useApp();
 	const [status, setStatus] = useState<Status>("checking");
-	const [message, setMessage] = useState("Checking worktrees for merged/closed PRs...");
-	const [staleWorktrees, setStaleWorktrees] = useState<StaleWorktree[]>([]);
+	const [message, setMessage] = useState("Checking worktrees...");
+	const [candidates, setCandidates] = useState<CleanCandidate[]>([]);
+	const [lockedWorktrees, setLockedWorktrees] = useState<CleanCandidate[]>([]);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [cursor, setCursor] = useState(0);
 	const [failed, setFailed] = useState(0);
+	const [problems, setProblems] = useState<string[]>([]);
 	const [repoRoot, setRepoRoot] = useState<string | null>(null);
 
-	// Handle confirmation input
-	useInput((input) => {
-		if (status !== "confirming") return;
+	function cancel() {
+		setStatus("cancelled");
+		setMessage("Cancelled");
+		setTimeout(() => exit(), 100);
+	}
 
-		if (input === "y" || input === "Y") {
-			removeStaleWorktrees();
-		} else if (input === "n" || input === "N" || input === "\x03") {
-			setStatus("cancelled");
-			setMessage("Cancelled");
-			setTimeout(() => exit(), 100);
+	// Handle selection input
+	useInput((input, key) => {
+		if (status !== "selecting") return;
+
+		if (key.upArrow || input === "k") {
+			setCursor((c) => Math.max(0, c - 1));
+		} else if (key.downArrow || input === "j") {
+			setCursor((c) => Math.min(candidates.length - 1, c + 1));
+		} else if (input === " ") {
+			const wtPath = candidates[cursor]!.path;
+			setSelected((prev) => {
+				const next = new Set(prev);
+				if (next.has(wtPath)) next.delete(wtPath);
+				else next.add(wtPath);
+				return next;
+			});
+		} else if (input === "a") {
+			setSelected((prev) =>
+				prev.size === candidates.length ? new Set() : new Set(candidates.map((c) => c.path)),
+			);
+		} else if (key.return) {
+			if (selected.size === 0) cancel();
+			else removeSelected();
+		} else if (input === "q" || input === "n" || key.escape || input === "\x03") {
+			cancel();
 		}
 	});
 
-	async function removeStaleWorktrees() {
+	async function removeSelected() {
 		if (!repoRoot) return;
 
 		setStatus("removing");
 		let removedCount = 0;
 		let failedCount = 0;
-
-		for (const wt of staleWorktrees) {
-			const result = await removeWorktree(wt.branch, repoRoot, true);
+		const found: string[] = [];
+
+		for (const wt of candidates.filter((c) => selected.has(c.path))) {
+			const name = candidateName(wt);
+			setMessage(`Removing ${name}...`);
+			// Scratch worktrees skip the trash, so uncommitted changes in them are not forced away
+			const result: { success: boolean; error?: string; warning?: string } = wt.scratch
+				? await removeScratchWorktree(repoRoot, wt.scratch)
+				: await removeWorktree(wt.branch, repoRoot, true, options.ignoreLock);
 			if (result.success) {
 				removedCount++;
+				if (result.warning) found.push(`${name}: ${result.warning}`);
 			} else {
 				failedCount++;
+				if (result.error) found.push(`${name}: ${result.error}`);
 			}
 		}
 
 		setFailed(failedCount);
+		setProblems(found);
+		if (failedCount > 0) process.exitCode = 1;
 		setStatus("done");
 		setMessage(
 			failedCount > 0
@@ -90,45 +140,79 @@ export default function Clean({}: Props) {
 			}
 			setRepoRoot(mainRepo);
 
-			const worktrees = listWorktrees();
-
-			// Filter to only worktrees (not main repo) with branches
-			const candidates = worktrees.filter((wt) => isWorktreePath(wt.path) && wt.branch);
-
-			// Fetch PR info for all worktrees in parallel
-			const prInfoResults = await Promise.all(candidates.map((wt) => getPRInfoAsync(wt.branch!)));
-
-			// Find worktrees with merged/closed PRs
-			const stale: StaleWorktree[] = [];
-			for (let i = 0; i < candidates.length; i++) {
-				const wt = candidates[i]!;
-				const prInfo = prInfoResults[i];
-				if (prInfo && (prInfo.state === "MERGED" || prInfo.state === "CLOSED")) {
-					stale.push({
-						branch: wt.branch!,
-						path: wt.path,
-						prNum: prInfo.number,
-						prState: prInfo.state,
-					});
+			const criteria: CleanCriteria = {
+				merged: options.merged,
+				noPr: options.pr === false,
+				linearDone: options.linearDone,
+				branchGone: options.branchGone,
+			};
+			if (options.olderThan !== undefined) {
+				const olderThan = parseDuration(options.olderThan);
+				if (olderThan === null) {
+					setStatus("error");
+					setMessage(`Invalid duration "${options.olderThan}" (expected e.g. 12h, 30d, 2w)`);
+					return;
 				}
+				criteria.olderThan = olderThan;
+			}
+			const hasCriteria =
+				criteria.noPr ||
+				criteria.linearDone ||
+				criteria.branchGone ||
+				criteria.olderThan !== undefined;
+			if (!hasCriteria) criteria.merged = true;
+
+			// Without gh every branch would look like it has no PR
+			if ((criteria.merged || criteria.noPr) && !ghCliAvailable()) {
+				setStatus("error");
+				setMessage("GitHub CLI (gh) is required to check PR state");
+				return;
 			}
 
-			setStaleWorktrees(stale);
+			const result = await findCleanCandidates(mainRepo, criteria);
+			if (!result.success || !result.candidates) {
+				setStatus("error");
+				setMessage(result.error ?? "Unknown error");
+				return;
+			}
+			const found = result.candidates;
+
+			// Locked worktrees are kept unless --ignore-lock
+			const removable = options.ignoreLock ? found : found.filter((wt) => !wt.lock);
+			setCandidates(removable);
+			setSelected(new Set(removable.map((wt) => wt.path)));
+			setLockedWorktrees(options.ignoreLock ? [] : found.filter((wt) => wt.lock));
+
+			if (removable.length === 0 && found.length > 0) {
+				setStatus("none-found");
+				setMessage("Only locked worktrees match. Use --ignore-lock to remove them.");
+				setTimeout(() => exit(), 100);
+				return;
+			}
 
-			if (stale.length === 0) {
+			if (removable.length === 0) {
 				setStatus("none-found");
-				setMessage("No stale worktrees found. All worktrees have open PRs or no PRs.");
+				setMessage("No worktrees match the clean criteria.");
 				setTimeout(() => exit(), 100);
 				return;
 			}
 
-			setStatus("confirming");
+			setStatus("selecting");
 		}
 
 		run();
 	}, []);
 
+	useEffect(() => {
+		if (status === "error") {
+			process.exitCode = 1;
+			const timer = setTimeout(() => exit(), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
 	const isLoading = status === "checking" || status === "removing";
+	const branchWidth = Math.max(6, ...candidates.map((wt) => candidateName(wt).length));
 
 	return (
 		<Box flexDirection="column" padding={1} width="100%">
@@ -147,52 +231,70 @@ export default function Clean({}: Props) {
 				</Box>
 			)}
 
-			{staleWorktrees.length > 0 && (
+			{candidates.length > 0 && (
 				<Box flexDirection="column" marginBottom={1}>
 					<Text>
 						Found{" "}
 						<Text color="yellow" bold>
-							{staleWorktrees.length}
+							{candidates.length}
 						</Text>{" "}
-						stale worktree(s):
+						worktree(s) to clean:
 					</Text>
 
-					{staleWorktrees.map((wt) => (
-						<Box
-							key={wt.branch}
-							flexDirection="column"
-							borderStyle="round"
-							borderColor={wt.prState === "MERGED" ? "magenta" : "red"}
-							paddingX={1}
-							marginTop={1}
-							width="100%"
-						>
-							<Box gap={1}>
-								<Text dimColor>branch:</Text>
-								<Text color="cyan" bold>
-									{wt.branch}
-								</Text>
-							</Box>
-							<Box gap={1}>
-								<Text dimColor>PR:</Text>
-								<Text>#{wt.prNum}</Text>
-								<Text backgroundColor={wt.prState === "MERGED" ? "magenta" : "red"} color="white">
-									{` ${wt.prState.toLowerCase()} `}
-								</Text>
-							</Box>
-							<Box gap={1}>
-								<Text dimColor>path:</Text>
-								<Text dimColor>{wt.path}</Text>
-							</Box>
-						</Box>
+					<Box
+						flexDirection="column"
+						borderStyle="round"
+						borderColor="yellow"
+						paddingX={1}
+						marginTop={1}
+						width="100%"
+					>
+						<Text dimColor>
+							{"    "}
+							{"branch".padEnd(branchWidth)} reason
+						</Text>
+						{candidates.map((wt, i) => {
+							const isCursor = status === "selecting" && i === cursor;
+							const isSelected = selected.has(wt.path);
+							return (
+								<Box key={wt.path} gap={1}>
+									<Text color="cyan">{isCursor ? "›" : " "}</Text>
+									<Text color={isSelected ? "green" : undefined} dimColor={!isSelected}>
+										{isSelected ? "◉" : "○"}
+									</Text>
+									<Text color="cyan" bold={isCursor} dimColor={!isSelected}>
+										{candidateName(wt).padEnd(branchWidth)}
+									</Text>
+									<Text dimColor={!isSelected}>
+										{wt.reasons.join(", ")}
+										{wt.lock ? ` 🔒 ${wt.lock.reason ?? "locked"}` : ""}
+									</Text>
+								</Box>
+							);
+						})}
+					</Box>
+				</Box>
+			)}
+
+			{lockedWorktrees.length > 0 && (
+				<Box flexDirection="column" marginBottom={1}>
+					<Text dimColor>Skipping {lockedWorktrees.length} locked worktree(s):</Text>
+					{lockedWorktrees.map((wt) => (
+						<Text key={wt.branch} dimColor>
+							{"  "}🔒 {wt.branch} ({wt.reasons.join(", ")})
+							{wt.lock?.reason ? ` — ${wt.lock.reason}` : ""}
+						</Text>
 					))}
 				</Box>
 			)}
 
-			{status === "confirming" && (
-				<Box marginTop={1}>
+			{status === "selecting" && (
+				<Box flexDirection="column">
 					<Text bold color="yellow">
-						Remove these worktrees? [y/N]:{" "}
+						Remove {selected.size} of {candidates.length} selected worktree(s)?
+					</Text>
+					<Text dimColor>
+						↑/↓ or j/k move · space toggle · a toggle all · enter remove · q cancel
 					</Text>
 				</Box>
 			)}
@@ -204,9 +306,19 @@ export default function Clean({}: Props) {
 			)}
 
 			{status === "done" && (
-				<Text color={failed > 0 ? "yellow" : "green"} bold>
-					✓ {message}
-				</Text>
+				<Box flexDirection="column">
+					<Text color={failed > 0 ? "yellow" : "green"} bold>
+						✓ {message}
+					</Text>
+					{problems.map((problem) => (
+						<Text key={problem} color="yellow">
+							⚠ {problem}
+						</Text>
+					))}
+					{candidates.some((c) => selected.has(c.path) && !c.scratch) && (
+						<Text dimColor>Removed worktrees are kept in the trash: santree trash list</Text>
+					)}
+				</Box>
 			)}
 
 			{status === "cancelled" && <Text color="yellow">✗ {message}</Text>}
@@ -2,8 +2,6 @@ import { useEffect, useState } from "react";
 import { Text, Box, useInput, useApp } from "ink";
 import TextInput from "ink-text-input";
 import Spinner from "ink-spinner";
-import { exec } from "child_process";
-import { promisify } from "util";
 import {
 	findRepoRoot,
 	getCurrentBranch,
@@ -12,12 +10,16 @@ import {
 	getStagedDiffStat,
 	hasStagedChanges,
 	hasUnstagedChanges,
+	findMainRepoRoot,
+	getPushRemote,
+	getHookContext,
 } from "../../lib/git.js";
+import { runHook } from "../../lib/hooks.js";
+import { getConfig, formatCommitPrefix } from "../../lib/config.js";
+import { gitAsync, commandError } from "../../lib/exec.js";
 
 export const description = "Stage and commit changes";
 
-const execAsync = promisify(exec);
-
 type Status =
 	| "loading"
 	| "confirm-stage"
@@ -38,6 +40,7 @@ export default function Commit() {
 	const [diffStat, setDiffStat] = useState("");
 	const [repoRoot, setRepoRoot] = useState<string | null>(null);
 	const [commitInput, setCommitInput] = useState("");
+	const [commitPrefix, setCommitPrefix] = useState("");
 
 	// Handle confirmation for staging
 	useInput((input, key) => {
@@ -47,8 +50,7 @@ export default function Commit() {
 			} else if (input === "n" || input === "N" || key.escape) {
 				if (hasStagedChanges()) {
 					setStatus("awaiting-message");
-					const prefix = ticketId ? `[${ticketId}] ` : "";
-					setCommitInput(prefix);
+					setCommitInput(commitPrefix);
 				} else {
 					setStatus("no-changes");
 					setMessage("No staged changes to commit");
@@ -59,17 +61,16 @@ export default function Commit() {
 	});
 
 	async function stageAndContinue() {
-		try {
-			await execAsync("git add -A", { cwd: repoRoot ?? undefined });
-			setGitStatus(getGitStatus());
-			setDiffStat(getStagedDiffStat());
-			setStatus("awaiting-message");
-			const prefix = ticketId ? `[${ticketId}] ` : "";
-			setCommitInput(prefix);
-		} catch (e) {
+		const result = await gitAsync(["add", "-A"], { cwd: repoRoot ?? undefined });
+		if (!result.ok) {
 			setStatus("error");
-			setMessage(`Failed to stage changes: ${e}`);
+			setMessage(`Failed to stage changes: ${commandError(result, "git add")}`);
+			return;
 		}
+		setGitStatus(getGitStatus());
+		setDiffStat(getStagedDiffStat());
+		setStatus("awaiting-message");
+		setCommitInput(commitPrefix);
 	}
 
 	async function handleCommitSubmit(value: string) {
@@ -81,36 +82,47 @@ export default function Commit() {
 			return;
 		}
 
-		// Prepend ticket ID if not already present
+		// Prepend the configured ticket prefix if not already present
 		const commitMessage =
-			ticketId && !trimmed.includes(`[${ticketId}]`) ? `[${ticketId}] ${trimmed}` : trimmed;
+			commitPrefix && !trimmed.includes(commitPrefix.trim())
+				? `${commitPrefix}${trimmed}`
+				: trimmed;
 
 		setStatus("committing");
 		setMessage("Creating commit...");
 
-		try {
-			await execAsync(`git commit -m "${commitMessage.replace(/"/g, '\\"')}"`, {
-				cwd: repoRoot ?? undefined,
-			});
-		} catch (e: unknown) {
+		const commitResult = await gitAsync(["commit", "-m", commitMessage], {
+			cwd: repoRoot ?? undefined,
+		});
+		if (!commitResult.ok) {
 			setStatus("error");
-			const errorMsg = e instanceof Error ? e.message : String(e);
-			setMessage(`Commit failed: ${errorMsg}`);
+			setMessage(`Commit failed: ${commandError(commitResult, "git commit")}`);
 			setTimeout(() => exit(), 100);
 			return;
 		}
 
+		const mainRepo = findMainRepoRoot();
+		if (branch && mainRepo) {
+			setMessage("Running pre-commit-push hook...");
+			const hook = await runHook("pre-commit-push", getHookContext(branch, mainRepo));
+			if (!hook.success) {
+				setStatus("error");
+				setMessage(`Committed but not pushed: ${hook.error}`);
+				setTimeout(() => exit(), 100);
+				return;
+			}
+		}
+
 		setStatus("pushing");
-		setMessage("Pushing to origin...");
+		const remote = getPushRemote(branch);
+		setMessage(`Pushing to ${remote}...`);
 
-		try {
-			await execAsync(`git push -u origin "${branch}"`, {
-				cwd: repoRoot ?? undefined,
-			});
-		} catch (e: unknown) {
+		const pushResult = await gitAsync(["push", "-u", remote, branch ?? "HEAD"], {
+			cwd: repoRoot ?? undefined,
+		});
+		if (!pushResult.ok) {
 			setStatus("error");
-			const errorMsg = e instanceof Error ? e.message : String(e);
-			setMessage(`Push failed: ${errorMsg}`);
+			setMessage(`Push failed: ${commandError(pushResult, "git push")}`);
 			setTimeout(() => exit(), 100);
 			return;
 		}
@@ -142,6 +154,8 @@ export default function Commit() {
 
 			const ticket = extractTicketId(currentBranch);
 			setTicketId(ticket);
+			const prefix = formatCommitPrefix(getConfig(findMainRepoRoot()), ticket);
+			setCommitPrefix(prefix);
 
 			const statusOutput = getGitStatus();
 			if (!statusOutput) {
@@ -160,7 +174,6 @@ export default function Commit() {
 			} else if (staged) {
 				setDiffStat(getStagedDiffStat());
 				setStatus("awaiting-message");
-				const prefix = ticket ? `[${ticket}] ` : "";
 				setCommitInput(prefix);
 			} else {
 				setStatus("no-changes");
@@ -172,6 +185,14 @@ export default function Commit() {
 		init();
 	}, []);
 
+	useEffect(() => {
+		if (status === "error") {
+			process.exitCode = 1;
+			const timer = setTimeout(() => exit(), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
 	const isLoading = status === "loading" || status === "committing" || status === "pushing";
 
 	return (
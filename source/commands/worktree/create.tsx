@@ -2,18 +2,34 @@ import { useEffect, useState } from "react";
 import { Text, Box } from "ink";
 import Spinner from "ink-spinner";
 import { z } from "zod";
-import { execSync } from "child_process";
-import * as fs from "fs";
+import * as path from "path";
 import {
 	createWorktree,
 	findMainRepoRoot,
 	getDefaultBranch,
+	getBaseRemote,
+	getPushRemote,
+	remoteExists,
 	pullLatest,
-	hasInitScript,
-	getInitScriptPath,
+	getWorktreeKey,
+	isWorktreeBranch,
+	getWorktreePath,
 	extractTicketId,
 } from "../../lib/git.js";
-import { spawnAsync } from "../../lib/exec.js";
+import {
+	ghCliAvailable,
+	getPRHeadAsync,
+	getPRLocalBranch,
+	fetchPRBranch,
+} from "../../lib/github.js";
+import { hasProvisioning, provisionWorktree } from "../../lib/provision.js";
+import { tmux } from "../../lib/exec.js";
+import { getTmuxEnvArgs } from "../../lib/ports.js";
+import { chooseSparseCheckout, type SparseCheckout } from "../../lib/sparse.js";
+import { getConfig } from "../../lib/config.js";
+import { parseDuration, formatAge } from "../../lib/clean.js";
+import { createScratchWorktree, type ScratchWorktree } from "../../lib/scratch.js";
+import { resolveRepos, type RegisteredRepo } from "../../lib/repos.js";
 
 export const description = "Create a new worktree from a branch";
 
@@ -24,52 +40,205 @@ export const options = z.object({
 	"no-pull": z.boolean().optional().describe("Skip pulling latest changes"),
 	tmux: z.boolean().optional().describe("Create a new tmux window"),
 	name: z.string().optional().describe("Custom tmux window name"),
+	fromPr: z.string().optional().describe("Check out an existing PR (number or URL)"),
+	review: z.boolean().optional().describe("With --from-pr, launch PR review after creating"),
+	baseRemote: z
+		.string()
+		.optional()
+		.describe("Remote to base this worktree on and open its PR against"),
+	pushRemote: z.string().optional().describe("Remote to push this worktree's branch to"),
+	sparse: z
+		.string()
+		.optional()
+		.describe(
+			'Sparse-checkout profiles (comma-separated), "auto" to pick them from the ticket, or "full"',
+		),
+	scratch: z
+		.union([z.boolean(), z.string()])
+		.optional()
+		.describe(
+			"Create a detached scratch worktree of a branch, tag or commit (default: the default branch)",
+		),
+	expires: z
+		.string()
+		.optional()
+		.describe("With --scratch, how long to keep it (e.g. 12h, 7d; default config scratch_expiry)"),
+	repos: z
+		.string()
+		.optional()
+		.describe(
+			"Create the branch and a worktree in each of these registered repos (comma-separated)",
+		),
 });
 
-export const args = z.tuple([z.string().optional().describe("Branch name")]);
+export const args = z.tuple([
+	z.string().optional().describe("Branch name (defaults to the PR branch with --from-pr)"),
+]);
 
 type Props = {
 	options: z.infer<typeof options>;
 	args: z.infer<typeof args>;
 };
 
-type Status = "idle" | "pulling" | "creating" | "init-script" | "tmux" | "done" | "error";
+type Status =
+	| "idle"
+	| "fetching-pr"
+	| "sparse"
+	| "pulling"
+	| "creating"
+	| "setup"
+	| "tmux"
+	| "done"
+	| "error";
 
 function isInTmux(): boolean {
 	return !!process.env.TMUX;
 }
 
 function createTmuxWindow(name: string, path: string, runCommand?: string): boolean {
-	try {
-		execSync(`tmux new-window -n "${name}" -c "${path}"`, { stdio: "ignore" });
-		// If a command is provided, send it to the new window
-		if (runCommand) {
-			execSync(`tmux send-keys -t "${name}" "${runCommand}" Enter`, { stdio: "ignore" });
-		}
-		return true;
-	} catch {
-		return false;
+	if (!tmux(["new-window", "-n", name, "-c", path, ...getTmuxEnvArgs(path)]).ok) return false;
+	// If a command is provided, send it to the new window
+	if (runCommand) {
+		return tmux(["send-keys", "-t", name, runCommand, "Enter"]).ok;
 	}
+	return true;
 }
 
 function getWindowName(branchName: string, customName?: string): string {
 	if (customName) return customName;
 
-	// Try to extract ticket ID (e.g., "TEAM-123")
-	const ticketId = extractTicketId(branchName);
-	if (ticketId) return ticketId;
-
-	// Fallback to last part of branch name
-	const parts = branchName.split("/");
-	return parts[parts.length - 1] ?? branchName;
+	// Ticket ID (e.g., "TEAM-123"), or a slug of the branch name
+	return getWorktreeKey(branchName);
 }
 
 export default function Create({ options, args }: Props) {
-	const [branchName] = args;
+	if (options.repos !== undefined) {
+		return <MultiRepoCreate options={options} args={args} />;
+	}
+	if (options.scratch !== undefined && options.scratch !== false) {
+		// `create --scratch <ref>` and `create <ref> --scratch` both work
+		const ref = typeof options.scratch === "string" ? options.scratch : args[0];
+		return <ScratchCreate refArg={ref} expires={options.expires} />;
+	}
+	return <BranchCreate options={options} args={args} />;
+}
+
+function ScratchCreate({ refArg, expires }: { refArg?: string; expires?: string }) {
+	const [status, setStatus] = useState<"creating" | "done" | "error">("creating");
+	const [message, setMessage] = useState("Creating scratch worktree...");
+	const [scratch, setScratch] = useState<ScratchWorktree | null>(null);
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const mainRepo = findMainRepoRoot();
+			if (!mainRepo) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			const expiry = expires ?? getConfig(mainRepo).scratch_expiry;
+			const expiresIn = parseDuration(expiry);
+			if (expiresIn === null) {
+				setStatus("error");
+				setMessage(`Invalid duration "${expiry}" (expected e.g. 12h, 7d, 2w)`);
+				return;
+			}
+
+			const result = await createScratchWorktree(mainRepo, refArg, expiresIn);
+			if (!result.success || !result.scratch) {
+				setStatus("error");
+				setMessage(result.error ?? "Unknown error");
+				return;
+			}
+			setScratch(result.scratch);
+			setStatus("done");
+			setMessage(`Scratch worktree created! Expires in ${formatAge(expiresIn)}`);
+			console.log(`SANTREE_CD:${result.scratch.path}`);
+		}
+
+		run();
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					🧪 Create Scratch Worktree
+				</Text>
+			</Box>
+
+			{scratch && (
+				<Box
+					flexDirection="column"
+					borderStyle="round"
+					borderColor="green"
+					paddingX={1}
+					width="100%"
+				>
+					<Box gap={1}>
+						<Text dimColor>name:</Text>
+						<Text color="cyan" bold>
+							{scratch.name}
+						</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>from:</Text>
+						<Text color="blue">{scratch.ref}</Text>
+						<Text dimColor>@ {scratch.commit}</Text>
+					</Box>
+				</Box>
+			)}
+
+			<Box marginTop={1}>
+				{status === "creating" && (
+					<Box>
+						<Text color="cyan">
+							<Spinner type="dots" />
+						</Text>
+						<Text> {message}</Text>
+					</Box>
+				)}
+				{status === "done" && scratch && (
+					<Box flexDirection="column">
+						<Text color="green" bold>
+							✓ {message}
+						</Text>
+						<Text dimColor> {scratch.path}</Text>
+						<Text dimColor>{" Keep it with: santree worktree promote <ticket-or-branch>"}</Text>
+					</Box>
+				)}
+				{status === "error" && (
+					<Text color="red" bold>
+						✗ {message}
+					</Text>
+				)}
+			</Box>
+		</Box>
+	);
+}
+
+function BranchCreate({ options, args }: Props) {
+	const [branchArg] = args;
+	const [branchName, setBranchName] = useState(branchArg);
+	const [prLabel, setPrLabel] = useState<string | null>(null);
 	const [status, setStatus] = useState<Status>("idle");
 	const [message, setMessage] = useState("");
 	const [worktreePath, setWorktreePath] = useState("");
 	const [baseBranch, setBaseBranch] = useState<string | null>(null);
+	const [setupWarning, setSetupWarning] = useState<string | null>(null);
+	const [hookWarning, setHookWarning] = useState<string | null>(null);
+	const [sparseWarning, setSparseWarning] = useState<string | null>(null);
+	const [sparse, setSparse] = useState<SparseCheckout | null>(null);
 	const [tmuxWindowName, setTmuxWindowName] = useState<string | null>(null);
 
 	function finalize(path: string, branch: string) {
@@ -88,9 +257,11 @@ export default function Create({ options, args }: Props) {
 			const windowName = getWindowName(branch, options.name);
 			setTmuxWindowName(windowName);
 
-			// Build command to run in new window (if --work is set)
+			// Build command to run in new window (if --review or --work is set)
 			let runCommand: string | undefined;
-			if (options.work) {
+			if (options.review) {
+				runCommand = "st pr review";
+			} else if (options.work) {
 				runCommand = options.plan ? "st worktree work --plan" : "st worktree work";
 			}
 
@@ -102,7 +273,13 @@ export default function Create({ options, args }: Props) {
 			}
 
 			setStatus("done");
-			const workInfo = options.work ? (options.plan ? " + Claude (plan)" : " + Claude") : "";
+			const workInfo = options.review
+				? " + review"
+				: options.work
+					? options.plan
+						? " + Claude (plan)"
+						: " + Claude"
+					: "";
 			setMessage(`Worktree and tmux window created!${workInfo}`);
 			// Don't output SANTREE_CD when tmux window is created - user is already in new window
 			return;
@@ -112,7 +289,9 @@ export default function Create({ options, args }: Props) {
 		setMessage("Worktree created successfully!");
 		console.log(`SANTREE_CD:${path}`);
 
-		if (options.work) {
+		if (options.review) {
+			console.log("SANTREE_WORK:review");
+		} else if (options.work) {
 			const mode = options.plan ? "plan" : "implement";
 			console.log(`SANTREE_WORK:${mode}`);
 		}
@@ -123,13 +302,19 @@ export default function Create({ options, args }: Props) {
 			// Small delay to allow spinner to render
 			await new Promise((r) => setTimeout(r, 100));
 
-			if (!branchName) {
+			const prRef = options.fromPr;
+
+			if (!branchArg && !prRef) {
 				setStatus("error");
 				setMessage("Branch name is required");
 				return;
 			}
 
-			const branch = branchName; // Capture for closures
+			if (options.review && !prRef) {
+				setStatus("error");
+				setMessage("--review requires --from-pr");
+				return;
+			}
 
 			const mainRepo = findMainRepoRoot();
 			if (!mainRepo) {
@@ -138,15 +323,87 @@ export default function Create({ options, args }: Props) {
 				return;
 			}
 
-			const base = options.base ?? getDefaultBranch();
+			for (const remote of [options.baseRemote, options.pushRemote]) {
+				if (remote && !remoteExists(remote, mainRepo)) {
+					setStatus("error");
+					setMessage(`Remote "${remote}" does not exist`);
+					return;
+				}
+			}
+			const baseRemote = options.baseRemote ?? getBaseRemote(null, mainRepo);
+			const pushRemote = options.pushRemote ?? getPushRemote(null, mainRepo);
+
+			let branch = branchArg ?? "";
+			let base = options.base ?? getDefaultBranch(baseRemote);
+			let prSameRepo = false;
+			let prNumber: number | null = null;
+
+			if (prRef) {
+				if (!ghCliAvailable()) {
+					setStatus("error");
+					setMessage("GitHub CLI (gh) is not installed. Install with: brew install gh");
+					return;
+				}
+
+				setStatus("fetching-pr");
+				setMessage(`Looking up PR ${prRef}...`);
+
+				const pr = await getPRHeadAsync(prRef);
+				if (!pr) {
+					setStatus("error");
+					setMessage(`Could not find PR ${prRef}`);
+					return;
+				}
+
+				prNumber = pr.number;
+				prSameRepo = !pr.isCrossRepository;
+				branch = branchArg ?? getPRLocalBranch(pr);
+				base = options.base ?? pr.baseRefName;
+				setBranchName(branch);
+				setPrLabel(`#${pr.number} ${pr.title}`);
+
+				const existing = getWorktreePath(branch);
+				if (existing) {
+					setStatus("error");
+					setMessage(`Worktree for ${branch} already exists at ${existing}`);
+					return;
+				}
+
+				setMessage(
+					`Fetching ${pr.isCrossRepository ? `${pr.headOwner}:` : ""}${pr.headRefName}...`,
+				);
+				const fetched = await fetchPRBranch(pr, branch, mainRepo, baseRemote);
+				if (!fetched.success) {
+					setStatus("error");
+					setMessage(`Failed to fetch PR #${pr.number}: ${fetched.error}`);
+					return;
+				}
+			}
+
 			setBaseBranch(base);
 
-			// Pull latest unless --no-pull
-			if (!options["no-pull"]) {
+			setStatus("sparse");
+			setMessage("Choosing what to check out...");
+			const sparseChoice = await chooseSparseCheckout(mainRepo, {
+				requested: options.sparse,
+				ticketId: extractTicketId(branch),
+			});
+			if (!sparseChoice.success) {
+				setStatus("error");
+				setMessage(sparseChoice.error ?? "Could not choose a sparse checkout");
+				return;
+			}
+			setSparse(sparseChoice.sparse ?? null);
+			setSparseWarning(sparseChoice.warning ?? null);
+
+			// Pull latest unless --no-pull. A base checked out in a sibling worktree is a
+			// stack parent: it can't be checked out here, and its own sync keeps it current.
+			// PR checkouts keep the PR's own commits, so there's nothing to pull.
+			if (!options["no-pull"] && !prNumber && !isWorktreeBranch(base, mainRepo)) {
 				setStatus("pulling");
 				setMessage(`Fetching latest changes for ${base}...`);
 
-				const pullResult = pullLatest(base, mainRepo);
+				const pullResult = pullLatest(base, mainRepo, baseRemote);
 				if (!pullResult.success) {
 					// Just warn, continue anyway
 					setMessage(`Warning: ${pullResult.message}`);
@@ -156,43 +413,36 @@ export default function Create({ options, args }: Props) {
 			setStatus("creating");
 			setMessage(`Creating worktree from ${base}...`);
 
-			const result = await createWorktree(branch, base, mainRepo);
+			// Same-repo PR branches live on the base remote, so pushes must go there to update the PR
+			const branchPushRemote = prSameRepo ? baseRemote : pushRemote;
+			const result = await createWorktree(branch, base, mainRepo, {
+				pr_number: prNumber ?? undefined,
+				base_remote: options.baseRemote,
+				push_remote:
+					branchPushRemote !== getPushRemote(null, mainRepo) ? branchPushRemote : undefined,
+				sparse: sparseChoice.sparse,
+			});
 
 			if (result.success && result.path) {
 				setWorktreePath(result.path);
-
-				// Run init script if it exists
-				if (hasInitScript(mainRepo)) {
-					setStatus("init-script");
-					setMessage("Running init script...");
-
-					const initScript = getInitScriptPath(mainRepo);
-
-					// Check if executable
-					try {
-						fs.accessSync(initScript, fs.constants.X_OK);
-					} catch {
-						setMessage("Warning: Init script exists but is not executable");
-						finalize(result.path!, branch);
-						return;
-					}
-
-					const initResult = await spawnAsync(initScript, [], {
-						cwd: result.path,
-						env: {
-							...process.env,
-							SANTREE_WORKTREE_PATH: result.path,
-							SANTREE_REPO_ROOT: mainRepo,
+				if (result.warning) setHookWarning(result.warning);
+
+				// Run setup steps (config `setup` section and .santree/init.sh)
+				if (hasProvisioning(mainRepo)) {
+					setStatus("setup");
+					const setup = await provisionWorktree(mainRepo, result.path, branch, {
+						onStep: (step, state) => {
+							if (state === "running") setMessage(`Running setup step ${step.name}...`);
 						},
 					});
 
-					if (initResult.code !== 0) {
-						setMessage(`Warning: Init script exited with code ${initResult.code}`);
+					if (!setup.success) {
+						setSetupWarning(
+							`${setup.error}. Resume with: santree worktree setup --from ${setup.failedStep}`,
+						);
 					}
-					finalize(result.path!, branch);
-				} else {
-					finalize(result.path!, branch);
 				}
+				finalize(result.path!, branch);
 			} else {
 				setStatus("error");
 				setMessage(result.error ?? "Unknown error");
@@ -201,17 +451,30 @@ export default function Create({ options, args }: Props) {
 
 		run();
 	}, [
-		branchName,
+		branchArg,
 		options.base,
 		options.work,
 		options.plan,
 		options["no-pull"],
 		options.tmux,
 		options.name,
+		options.fromPr,
+		options.review,
+		options.baseRemote,
+		options.pushRemote,
 	]);
 
+	useEffect(() => {
+		if (status === "error") process.exitCode = 1;
+	}, [status]);
+
 	const isLoading =
-		status === "pulling" || status === "creating" || status === "init-script" || status === "tmux";
+		status === "fetching-pr" ||
+		status === "sparse" ||
+		status === "pulling" ||
+		status === "creating" ||
+		status === "setup" ||
+		status === "tmux";
 
 	return (
 		<Box flexDirection="column" padding={1} width="100%">
@@ -236,6 +499,13 @@ export default function Create({ options, args }: Props) {
 						</Text>
 					</Box>
 
+					{prLabel && (
+						<Box gap={1}>
+							<Text dimColor>pr:</Text>
+							<Text color="magenta">{prLabel}</Text>
+						</Box>
+					)}
+
 					{baseBranch && (
 						<Box gap={1}>
 							<Text dimColor>base:</Text>
@@ -243,6 +513,15 @@ export default function Create({ options, args }: Props) {
 						</Box>
 					)}
 
+					{sparse && (
+						<Box gap={1}>
+							<Text dimColor>sparse:</Text>
+							<Text color="yellow">
+								{sparse.profiles.join(", ")} ({sparse.paths.join(" ")})
+							</Text>
+						</Box>
+					)}
+
 					{options["no-pull"] && (
 						<Box gap={1}>
 							<Text dimColor>skip pull:</Text>
@@ -250,11 +529,11 @@ export default function Create({ options, args }: Props) {
 						</Box>
 					)}
 
-					{options.work && (
+					{(options.work || options.review) && (
 						<Box gap={1}>
 							<Text dimColor>after:</Text>
 							<Text backgroundColor="magenta" color="white">
-								{options.plan ? " plan " : " work "}
+								{options.review ? " review " : options.plan ? " plan " : " work "}
 							</Text>
 						</Box>
 					)}
@@ -285,6 +564,9 @@ export default function Create({ options, args }: Props) {
 							✓ {message}
 						</Text>
 						<Text dimColor> {worktreePath}</Text>
+						{sparseWarning && <Text color="yellow"> ⚠ {sparseWarning}</Text>}
+						{hookWarning && <Text color="yellow"> ⚠ {hookWarning}</Text>}
+						{setupWarning && <Text color="yellow"> ⚠ {setupWarning}</Text>}
 						{tmuxWindowName && <Text dimColor> tmux window: {tmuxWindowName}</Text>}
 					</Box>
 				)}
@@ -297,3 +579,233 @@ export default function Create({ options, args }: Props) {
 		</Box>
 	);
 }
+
+type RepoStatus = "pending" | "running" | "done" | "error";
+
+interface RepoProgress {
+	repo: RegisteredRepo;
+	status: RepoStatus;
+	message: string;
+	path?: string;
+	warnings: string[];
+}
+
+function MultiRepoCreate({ options, args }: Props) {
+	const [branchName] = args;
+	const [status, setStatus] = useState<"creating" | "done" | "error">("creating");
+	const [message, setMessage] = useState("");
+	const [progress, setProgress] = useState<RepoProgress[]>([]);
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const unsupported = (
+				[
+					["scratch", options.scratch],
+					["from-pr", options.fromPr],
+					["base-remote", options.baseRemote],
+					["push-remote", options.pushRemote],
+				] as const
+			).find(([, value]) => value !== undefined && value !== false);
+			if (unsupported) {
+				setStatus("error");
+				setMessage(`--repos can't be combined with --${unsupported[0]}`);
+				return;
+			}
+			if (!branchName) {
+				setStatus("error");
+				setMessage("Branch name is required");
+				return;
+			}
+
+			const resolved = resolveRepos((options.repos ?? "").split(","));
+			if (!resolved.success || !resolved.repos) {
+				setStatus("error");
+				setMessage(resolved.error ?? "Could not resolve repos");
+				return;
+			}
+
+			const all: RepoProgress[] = resolved.repos.map((repo) => ({
+				repo,
+				status: "pending",
+				message: "",
+				warnings: [],
+			}));
+			const update = (i: number, patch: Partial<RepoProgress>) => {
+				all[i] = { ...all[i]!, ...patch };
+				setProgress([...all]);
+			};
+			setProgress([...all]);
+
+			// One repo at a time: setup steps are heavy, and pulling checks out the base branch
+			for (const [i, repo] of resolved.repos.entries()) {
+				const root = repo.path;
+				update(i, { status: "running", message: "Checking for an existing worktree..." });
+
+				const existing = getWorktreePath(branchName, root);
+				if (existing) {
+					update(i, { status: "done", message: "already exists", path: existing });
+					continue;
+				}
+
+				const base = options.base ?? getDefaultBranch(getBaseRemote(null, root), root);
+				const warnings: string[] = [];
+
+				update(i, { message: "Choosing what to check out..." });
+				const sparseChoice = await chooseSparseCheckout(root, {
+					requested: options.sparse,
+					ticketId: extractTicketId(branchName, root),
+				});
+				if (!sparseChoice.success) {
+					update(i, { status: "error", message: sparseChoice.error ?? "Sparse checkout failed" });
+					continue;
+				}
+				if (sparseChoice.warning) warnings.push(sparseChoice.warning);
+
+				if (!options["no-pull"] && !isWorktreeBranch(base, root)) {
+					update(i, { message: `Fetching latest changes for ${base}...` });
+					const pullResult = pullLatest(base, root);
+					if (!pullResult.success) warnings.push(pullResult.message);
+				}
+
+				update(i, { message: `Creating worktree from ${base}...` });
+				const result = await createWorktree(branchName, base, root, {
+					sparse: sparseChoice.sparse,
+				});
+				if (!result.success || !result.path) {
+					update(i, { status: "error", message: result.error ?? "Unknown error", warnings });
+					continue;
+				}
+				if (result.warning) warnings.push(result.warning);
+
+				if (hasProvisioning(root)) {
+					const setup = await provisionWorktree(root, result.path, branchName, {
+						onStep: (step, state) => {
+							if (state === "running") update(i, { message: `Running setup step ${step.name}...` });
+						},
+					});
+					if (!setup.success) {
+						warnings.push(
+							`${setup.error}. Resume with: santree worktree setup --from ${setup.failedStep}`,
+						);
+					}
+				}
+
+				update(i, { status: "done", message: `created from ${base}`, path: result.path, warnings });
+			}
+
+			const failed = all.filter((p) => p.status === "error").length;
+			if (failed > 0) {
+				setStatus("error");
+				setMessage(`Failed in ${failed} of ${all.length} repos`);
+				return;
+			}
+
+			// Land in the current repo's worktree when it's one of them, else the first one
+			const current = findMainRepoRoot();
+			const primary =
+				all.find((p) => current && path.resolve(p.repo.path) === path.resolve(current)) ?? all[0]!;
+			setStatus("done");
+			setMessage(`Worktrees ready in ${all.length} repo${all.length === 1 ? "" : "s"}`);
+
+			if (options.tmux && isInTmux()) {
+				const runCommand = options.work
+					? options.plan
+						? "st worktree work --plan"
+						: "st worktree work"
+					: undefined;
+				if (createTmuxWindow(getWindowName(branchName, options.name), primary.path!, runCommand)) {
+					return;
+				}
+			}
+			console.log(`SANTREE_CD:${primary.path}`);
+			if (options.work && !options.tmux) {
+				console.log(`SANTREE_WORK:${options.plan ? "plan" : "implement"}`);
+			}
+		}
+
+		run();
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	const nameWidth = Math.max(4, ...progress.map((p) => p.repo.name.length));
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					🌱 Create Worktrees
+				</Text>
+			</Box>
+
+			{progress.length > 0 && (
+				<Box
+					flexDirection="column"
+					borderStyle="round"
+					borderColor={status === "error" ? "red" : status === "done" ? "green" : "blue"}
+					paddingX={1}
+					width="100%"
+				>
+					<Box gap={1}>
+						<Text dimColor>branch:</Text>
+						<Text color="cyan" bold>
+							{branchName}
+						</Text>
+					</Box>
+					{progress.map((p) => (
+						<Box key={p.repo.name} flexDirection="column">
+							<Box gap={1}>
+								{p.status === "running" ? (
+									<Text color="cyan">
+										<Spinner type="dots" />
+									</Text>
+								) : (
+									<Text
+										color={p.status === "done" ? "green" : p.status === "error" ? "red" : "gray"}
+									>
+										{p.status === "done" ? "✓" : p.status === "error" ? "✗" : "○"}
+									</Text>
+								)}
+								<Box width={nameWidth}>
+									<Text bold>{p.repo.name}</Text>
+								</Box>
+								<Text
+									color={p.status === "error" ? "red" : undefined}
+									dimColor={p.status !== "error"}
+								>
+									{p.message}
+								</Text>
+							</Box>
+							{p.path && <Text dimColor> {p.path}</Text>}
+							{p.warnings.map((w) => (
+								<Text key={w} color="yellow">
+									{"  "}⚠ {w}
+								</Text>
+							))}
+						</Box>
+					))}
+				</Box>
+			)}
+
+			<Box marginTop={1}>
+				{status === "done" && (
+					<Text color="green" bold>
+						✓ {message}
+					</Text>
+				)}
+				{status === "error" && (
+					<Text color="red" bold>
+						✗ {message}
+					</Text>
+				)}
+			</Box>
+		</Box>
+	);
+}
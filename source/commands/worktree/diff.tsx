@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import { findMainRepoRoot, findRepoRoot } from "../../lib/git.js";
+import {
+	compareWorktrees,
+	getComparisonDiff,
+	type DiffFormat,
+	type WorktreeComparison,
+} from "../../lib/diff.js";
+
+export const description = "Compare two worktrees";
+
+export const options = z.object({
+	uncommitted: z
+		.boolean()
+		.optional()
+		.describe("Include each side's uncommitted and untracked changes"),
+	stat: z.boolean().optional().describe("Show a diffstat instead of the patch"),
+	nameOnly: z.boolean().optional().describe("Show only the names of changed files"),
+});
+
+export const args = z.tuple([
+	z.string().describe("Ticket ID or branch of the first worktree"),
+	z.string().optional().describe("Ticket ID or branch of the second (defaults to the current one)"),
+]);
+
+type Props = {
+	options: z.infer<typeof options>;
+	args: z.infer<typeof args>;
+};
+
+type Status = "comparing" | "done" | "error";
+
+const MAX_COMMITS = 10;
+
+function CommitList({ title, commits }: { title: string; commits: string[] }) {
+	return (
+		<Box flexDirection="column">
+			<Text dimColor>
+				{title} ({commits.length})
+			</Text>
+			{commits.slice(0, MAX_COMMITS).map((c) => (
+				<Text key={c}>
+					{"  "}
+					{c}
+				</Text>
+			))}
+			{commits.length > MAX_COMMITS && (
+				<Text dimColor>
+					{"  "}+{commits.length - MAX_COMMITS} more
+				</Text>
+			)}
+		</Box>
+	);
+}
+
+export default function Diff({ options, args }: Props) {
+	const [queryA, queryB] = args;
+	const [status, setStatus] = useState<Status>("comparing");
+	const [message, setMessage] = useState("");
+	const [comparison, setComparison] = useState<WorktreeComparison | null>(null);
+	const [diff, setDiff] = useState("");
+
+	const format: DiffFormat = options.nameOnly ? "name-only" : options.stat ? "stat" : "patch";
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const root = findMainRepoRoot();
+			const current = findRepoRoot();
+			if (!root || !current) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			const result = await compareWorktrees(root, queryA, queryB ?? current, {
+				uncommitted: options.uncommitted,
+			});
+			if (!result.comparison) {
+				setStatus("error");
+				setMessage(result.error ?? "Could not compare worktrees");
+				return;
+			}
+			setComparison(result.comparison);
+
+			const diffResult = await getComparisonDiff(root, result.comparison, format, {
+				color: process.stdout.isTTY,
+			});
+			if (!diffResult.success) {
+				setStatus("error");
+				setMessage(diffResult.error ?? "git diff failed");
+				return;
+			}
+			setDiff(diffResult.diff ?? "");
+			setStatus("done");
+		}
+
+		run();
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1} gap={1}>
+				<Text bold color="cyan">
+					⇄ Diff
+				</Text>
+				{options.uncommitted && <Text dimColor>with uncommitted changes</Text>}
+			</Box>
+
+			{comparison && (
+				<Box
+					flexDirection="column"
+					borderStyle="round"
+					borderColor={status === "error" ? "red" : "blue"}
+					paddingX={1}
+					width="100%"
+				>
+					<Box gap={1}>
+						<Text dimColor>a:</Text>
+						<Text color="red" bold>
+							{comparison.a.label}
+						</Text>
+						<Text dimColor>{comparison.a.branch}</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>b:</Text>
+						<Text color="green" bold>
+							{comparison.b.label}
+						</Text>
+						<Text dimColor>{comparison.b.branch}</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>merge base:</Text>
+						<Text>{comparison.mergeBase?.slice(0, 8) ?? "none (unrelated histories)"}</Text>
+					</Box>
+					<CommitList title={`only in ${comparison.a.label}`} commits={comparison.onlyA} />
+					<CommitList title={`only in ${comparison.b.label}`} commits={comparison.onlyB} />
+					<Box flexDirection="column">
+						<Text dimColor>changed in both since the merge base ({comparison.overlap.length})</Text>
+						{comparison.overlap.map((f) => (
+							<Text key={f} color="yellow">
+								{"  "}
+								{f}
+							</Text>
+						))}
+					</Box>
+				</Box>
+			)}
+
+			{status === "comparing" && (
+				<Box gap={1}>
+					<Text color="cyan">
+						<Spinner type="dots" />
+					</Text>
+					<Text>Comparing worktrees...</Text>
+				</Box>
+			)}
+			{status === "done" && (
+				<Box marginTop={1}>{diff ? <Text>{diff}</Text> : <Text dimColor>No differences</Text>}</Box>
+			)}
+			{status === "error" && (
+				<Text color="red" bold>
+					✗ {message}
+				</Text>
+			)}
+		</Box>
+	);
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import { listWorktrees, isWorktreePath, findMainRepoRoot } from "../../lib/git.js";
+import {
+	getWorktreeDiskUsage,
+	getReclaimable,
+	formatBytes,
+	type DiskUsage,
+} from "../../lib/disk.js";
+
+export const description = "Show disk usage per worktree, largest first";
+
+export const options = z.object({
+	refresh: z.boolean().optional().describe("Measure again instead of using cached sizes"),
+});
+
+type Props = {
+	options: z.infer<typeof options>;
+};
+
+interface Row {
+	branch: string;
+	usage: DiskUsage;
+}
+
+const COLUMNS = ["tracked", "ignored", "untracked", "total", "reclaimable"] as const;
+const COL_WIDTH = 12;
+
+function cells(usage: DiskUsage): string[] {
+	return [usage.tracked, usage.ignored, usage.untracked, usage.total, getReclaimable(usage)].map(
+		(n) => formatBytes(n).padStart(COL_WIDTH),
+	);
+}
+
+export default function Du({ options }: Props) {
+	const [rows, setRows] = useState<Row[]>([]);
+	const [error, setError] = useState<string | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [loadingMsg, setLoadingMsg] = useState("Measuring worktrees...");
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const root = findMainRepoRoot();
+			if (!root) {
+				setError("Not inside a git repository");
+				setLoading(false);
+				return;
+			}
+
+			const worktrees = listWorktrees().filter((wt) => isWorktreePath(wt.path) && wt.branch);
+			let measured = 0;
+			setLoadingMsg(`Measuring ${worktrees.length} worktree(s)...`);
+
+			const results = await Promise.all(
+				worktrees.map(async (wt) => {
+					const usage = await getWorktreeDiskUsage(root, wt.branch!, wt.path, {
+						refresh: options.refresh,
+					});
+					measured++;
+					setLoadingMsg(`Measured ${measured}/${worktrees.length}...`);
+					return { branch: wt.branch!, usage };
+				}),
+			);
+
+			setRows(results.sort((a, b) => b.usage.total - a.usage.total));
+			setLoading(false);
+		}
+
+		run();
+	}, []);
+
+	useEffect(() => {
+		if (error) process.exitCode = 1;
+	}, [error]);
+
+	if (error) {
+		return (
+			<Box padding={1}>
+				<Text color="red" bold>
+					✗ {error}
+				</Text>
+			</Box>
+		);
+	}
+
+	if (loading) {
+		return (
+			<Box padding={1} gap={1}>
+				<Text color="cyan">
+					<Spinner type="dots" />
+				</Text>
+				<Text>{loadingMsg}</Text>
+			</Box>
+		);
+	}
+
+	if (rows.length === 0) {
+		return (
+			<Box padding={1}>
+				<Text color="yellow">No worktrees found</Text>
+			</Box>
+		);
+	}
+
+	const branchWidth = Math.max(6, ...rows.map((r) => r.branch.length));
+	const total = rows.reduce((sum, r) => sum + r.usage.total, 0);
+	const reclaimable = rows.reduce((sum, r) => sum + getReclaimable(r.usage), 0);
+	const oldest = rows.reduce(
+		(min, r) => (r.usage.measured_at < min ? r.usage.measured_at : min),
+		rows[0]!.usage.measured_at,
+	);
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					💾 Disk Usage
+				</Text>
+				<Text dimColor> ({rows.length})</Text>
+			</Box>
+
+			<Text dimColor>
+				{"branch".padEnd(branchWidth)}
+				{COLUMNS.map((c) => c.padStart(COL_WIDTH)).join("")}
+			</Text>
+			{rows.map((r) => {
+				const [tracked, ignored, untracked, rowTotal, rowReclaimable] = cells(r.usage);
+				return (
+					<Text key={r.branch}>
+						<Text color="cyan">{r.branch.padEnd(branchWidth)}</Text>
+						<Text dimColor>{tracked}</Text>
+						<Text color="yellow">{ignored}</Text>
+						<Text>{untracked}</Text>
+						<Text bold>{rowTotal}</Text>
+						<Text color="green">{rowReclaimable}</Text>
+					</Text>
+				);
+			})}
+
+			<Box marginTop={1} flexDirection="column">
+				<Text>
+					Total <Text bold>{formatBytes(total)}</Text>, reclaimable{" "}
+					<Text color="green" bold>
+						{formatBytes(reclaimable)}
+					</Text>
+					<Text dimColor> (not counting files hardlinked between checkouts)</Text>
+				</Text>
+				<Text dimColor>
+					Measured {new Date(oldest).toLocaleString()}
+					{options.refresh ? "" : " (use --refresh to measure again)"}
+				</Text>
+			</Box>
+		</Box>
+	);
+}
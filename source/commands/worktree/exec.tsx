@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { Text, Box, Static } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import { findMainRepoRoot } from "../../lib/git.js";
+import {
+	EXEC_CONCURRENCY,
+	parseExecFilters,
+	selectExecTargets,
+	toShellCommand,
+	execInWorktrees,
+	type ExecTarget,
+	type ExecResult,
+} from "../../lib/run.js";
+
+export const description = "Run a command in every worktree";
+
+export const options = z.object({
+	filter: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Only worktrees matching all of: ticket=<id,...>, dirty, clean, pr=<open|draft|merged|closed|none>, linear=<state,...>",
+		),
+	jobs: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe(`How many worktrees to run the command in at once (default ${EXEC_CONCURRENCY})`),
+	main: z.boolean().optional().describe("Also run in the main checkout"),
+});
+
+export const args = z.array(z.string()).describe("command");
+
+type Props = {
+	options: z.infer<typeof options>;
+	args: z.infer<typeof args>;
+};
+
+type Status = "selecting" | "running" | "done" | "error";
+
+interface OutputLine {
+	id: number;
+	label: string;
+	color: string;
+	text: string;
+}
+
+const LABEL_COLORS = ["cyan", "magenta", "yellow", "blue", "green"];
+
+function formatDuration(ms: number): string {
+	return ms < 60_000
+		? `${(ms / 1000).toFixed(1)}s`
+		: `${Math.floor(ms / 60_000)}m${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+export default function Exec({ options, args }: Props) {
+	const [status, setStatus] = useState<Status>("selecting");
+	const [message, setMessage] = useState("");
+	const [targets, setTargets] = useState<ExecTarget[]>([]);
+	const [lines, setLines] = useState<OutputLine[]>([]);
+	const [results, setResults] = useState<ExecResult[]>([]);
+
+	const command = toShellCommand(args);
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const root = findMainRepoRoot();
+			if (!root) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			if (args.length === 0) {
+				setStatus("error");
+				setMessage("No command given. Usage: santree worktree exec [--filter ...] -- <command>");
+				return;
+			}
+
+			const parsed = parseExecFilters(options.filter ?? []);
+			if (!parsed.filters) {
+				setStatus("error");
+				setMessage(parsed.error ?? "Invalid filter");
+				return;
+			}
+
+			const selected = await selectExecTargets(root, parsed.filters, {
+				includeMain: options.main,
+			});
+			if (!selected.success || !selected.targets) {
+				setStatus("error");
+				setMessage(selected.error ?? "Could not list worktrees");
+				return;
+			}
+			if (selected.targets.length === 0) {
+				setStatus("done");
+				setMessage("No worktrees match");
+				return;
+			}
+			setTargets(selected.targets);
+
+			setStatus("running");
+			const width = Math.max(...selected.targets.map((t) => t.label.length));
+			const colors = new Map(
+				selected.targets.map((t, i) => [t.path, LABEL_COLORS[i % LABEL_COLORS.length]!]),
+			);
+			let nextId = 0;
+			const all = await execInWorktrees(root, selected.targets, command, {
+				concurrency: options.jobs,
+				onLine: (target, text) => {
+					const line = {
+						id: nextId++,
+						label: target.label.padEnd(width),
+						color: colors.get(target.path)!,
+						text,
+					};
+					setLines((prev) => [...prev, line]);
+				},
+				onResult: (r) => setResults((prev) => [...prev, r]),
+			});
+
+			// Summary in worktree order rather than finishing order
+			setResults(all);
+			const failed = all.filter((r) => r.code !== 0).length;
+			if (failed > 0) {
+				setStatus("error");
+				setMessage(`Failed in ${failed} of ${all.length} worktree(s)`);
+			} else {
+				setStatus("done");
+				setMessage(`Succeeded in ${all.length} worktree(s)`);
+			}
+		}
+
+		run();
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	const labelWidth = Math.max(8, ...targets.map((t) => t.label.length));
+
+	return (
+		<>
+			<Static items={lines}>
+				{(line) => (
+					<Text key={line.id}>
+						<Text color={line.color}>{line.label} │</Text> {line.text}
+					</Text>
+				)}
+			</Static>
+
+			<Box flexDirection="column" padding={1} width="100%">
+				<Box marginBottom={1} gap={1}>
+					<Text bold color="cyan">
+						▶ Exec
+					</Text>
+					<Text dimColor>{command}</Text>
+				</Box>
+
+				{(status === "done" || status === "error") && results.length > 0 && (
+					<Box flexDirection="column" marginBottom={1}>
+						<Box gap={2}>
+							<Box width={labelWidth}>
+								<Text bold>Worktree</Text>
+							</Box>
+							<Box width={6}>
+								<Text bold>Exit</Text>
+							</Box>
+							<Text bold>Time</Text>
+						</Box>
+						{results.map((r) => (
+							<Box key={r.target.path} gap={2}>
+								<Box width={labelWidth}>
+									<Text>{r.target.label}</Text>
+								</Box>
+								<Box width={6}>
+									<Text color={r.code === 0 ? "green" : "red"}>
+										{r.code === 0 ? "✓" : "✗"} {r.code}
+									</Text>
+								</Box>
+								<Text dimColor>{formatDuration(r.durationMs)}</Text>
+							</Box>
+						))}
+					</Box>
+				)}
+
+				{(status === "selecting" || status === "running") && (
+					<Box gap={1}>
+						<Text color="cyan">
+							<Spinner type="dots" />
+						</Text>
+						<Text>
+							{status === "selecting" && "Selecting worktrees..."}
+							{status === "running" &&
+								`Running in ${targets.length} worktree(s)... (${results.length} done)`}
+						</Text>
+					</Box>
+				)}
+				{status === "done" && (
+					<Text color="green" bold>
+						✓ {message}
+					</Text>
+				)}
+				{status === "error" && (
+					<Text color="red" bold>
+						✗ {message}
+					</Text>
+				)}
+			</Box>
+		</>
+	);
+}
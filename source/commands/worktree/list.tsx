@@ -1,48 +1,96 @@
 import { useEffect, useState } from "react";
 import { Text, Box } from "ink";
 import Spinner from "ink-spinner";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { listWorktrees, getBaseBranch, isWorktreePath } from "../../lib/git.js";
-import { getPRInfoAsync } from "../../lib/github.js";
+import { z } from "zod";
+import { findMainRepoRoot } from "../../lib/git.js";
+import { listArchives, type ArchiveManifest } from "../../lib/archive.js";
+import { formatBytes } from "../../lib/disk.js";
+import { loadWorktreeList, type WorktreeInfo, type ScratchInfo } from "../../lib/list.js";
+import { formatExpiry } from "../../lib/clean.js";
 
 export const description = "List all worktrees with status information";
 
-const execAsync = promisify(exec);
-
-interface WorktreeInfo {
-	branch: string;
-	base: string;
-	ahead: number;
-	pr: string;
-	prState: string;
-	status: string;
-	path: string;
-	isMain: boolean;
-}
+export const options = z.object({
+	archived: z.boolean().optional().describe("List archived worktrees instead"),
+	size: z.boolean().optional().describe("Show disk usage of each worktree"),
+	json: z.boolean().optional().describe("Print the worktrees as JSON"),
+});
+
+type Props = {
+	options: z.infer<typeof options>;
+};
 
-async function getCommitsAhead(worktreePath: string, baseBranch: string): Promise<number> {
-	try {
-		const { stdout } = await execAsync(
-			`git -C "${worktreePath}" rev-list --count ${baseBranch}..HEAD`,
+function ArchivedList() {
+	const root = findMainRepoRoot();
+	if (!root) {
+		return (
+			<Box padding={1}>
+				<Text color="red" bold>
+					✗ Not inside a git repository
+				</Text>
+			</Box>
 		);
-		return parseInt(stdout.trim(), 10) || 0;
-	} catch {
-		return -1;
 	}
-}
 
-async function isDirty(worktreePath: string): Promise<boolean> {
-	try {
-		const { stdout } = await execAsync(`git -C "${worktreePath}" status --porcelain`);
-		return Boolean(stdout.trim());
-	} catch {
-		return false;
+	const archives: ArchiveManifest[] = listArchives(root);
+	if (archives.length === 0) {
+		return (
+			<Box padding={1}>
+				<Text color="yellow">No archived worktrees</Text>
+			</Box>
+		);
 	}
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					📦 Archived Worktrees
+				</Text>
+				<Text dimColor> ({archives.length})</Text>
+			</Box>
+
+			{archives.map((a, i) => (
+				<Box
+					key={a.branch}
+					flexDirection="column"
+					borderStyle="round"
+					borderColor="gray"
+					paddingX={1}
+					marginBottom={i < archives.length - 1 ? 1 : 0}
+				>
+					<Text color="cyan" bold>
+						{a.branch}
+					</Text>
+					<Box gap={1}>
+						<Text dimColor>archived:</Text>
+						<Text>{new Date(a.archived_at).toLocaleString()}</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>changes:</Text>
+						{a.snapshot ? <Text color="yellow">● stashed</Text> : <Text dimColor>none</Text>}
+						{a.metadata.session_id !== undefined && <Text color="magenta">session</Text>}
+					</Box>
+					{a.note && (
+						<Box gap={1}>
+							<Text dimColor>note:</Text>
+							<Text>{a.note}</Text>
+						</Box>
+					)}
+				</Box>
+			))}
+		</Box>
+	);
 }
 
-export default function List() {
+export default function List({ options }: Props) {
+	if (options.archived) return <ArchivedList />;
+	return <WorktreeList size={options.size} />;
+}
+
+function WorktreeList({ size }: { size?: boolean }) {
 	const [wtInfo, setWtInfo] = useState<WorktreeInfo[]>([]);
+	const [scratchInfo, setScratchInfo] = useState<ScratchInfo[]>([]);
 	const [error, setError] = useState<string | null>(null);
 	const [loading, setLoading] = useState(true);
 	const [loadingMsg, setLoadingMsg] = useState("Loading worktrees...");
@@ -52,54 +100,12 @@ export default function List() {
 			await new Promise((r) => setTimeout(r, 100));
 
 			try {
-				const worktrees = listWorktrees();
-				const info: WorktreeInfo[] = [];
-
-				for (let i = 0; i < worktrees.length; i++) {
-					const wt = worktrees[i]!;
-					setLoadingMsg(`Checking ${i + 1}/${worktrees.length}...`);
-
-					const branch = wt.branch || "(detached)";
-					const isMain = !isWorktreePath(wt.path);
-
-					let base = "-";
-					let ahead = -1;
-					let pr = "-";
-					let prState = "";
-					let status = "-";
-
-					if (!isMain) {
-						base = wt.branch ? getBaseBranch(wt.branch) : base;
-
-						// Run async operations in parallel
-						const [aheadResult, dirtyResult, prInfo] = await Promise.all([
-							getCommitsAhead(wt.path, base),
-							isDirty(wt.path),
-							wt.branch ? getPRInfoAsync(wt.branch) : Promise.resolve(null),
-						]);
-
-						ahead = aheadResult;
-						status = dirtyResult ? "dirty" : "clean";
-
-						if (prInfo) {
-							pr = `#${prInfo.number}`;
-							prState = prInfo.state;
-						}
-					}
-
-					info.push({
-						branch,
-						base,
-						ahead,
-						pr,
-						prState,
-						status,
-						path: wt.path,
-						isMain,
-					});
-				}
-
-				setWtInfo(info);
+				const list = await loadWorktreeList({
+					size,
+					onProgress: (done, total) => setLoadingMsg(`Checking ${done + 1}/${total}...`),
+				});
+				setWtInfo(list.worktrees);
+				setScratchInfo(list.scratch);
 				setLoading(false);
 			} catch (e) {
 				setError(e instanceof Error ? e.message : "Unknown error");
@@ -110,6 +116,10 @@ export default function List() {
 		run();
 	}, []);
 
+	useEffect(() => {
+		if (error) process.exitCode = 1;
+	}, [error]);
+
 	if (error) {
 		return (
 			<Box padding={1}>
@@ -156,11 +166,11 @@ export default function List() {
 					borderColor={
 						w.isMain
 							? "white"
-							: w.prState === "MERGED"
+							: w.pr?.state === "MERGED"
 								? "magenta"
-								: w.prState === "CLOSED"
+								: w.pr?.state === "CLOSED"
 									? "red"
-									: w.status === "dirty"
+									: w.dirty
 										? "yellow"
 										: "green"
 					}
@@ -169,17 +179,18 @@ export default function List() {
 				>
 					<Box gap={1}>
 						<Text color={w.isMain ? "white" : "cyan"} bold>
-							{w.branch}
+							{w.branch ?? "(detached)"}
 						</Text>
 						{w.isMain && <Text dimColor>(main repo)</Text>}
+						{w.lock && <Text color="yellow">🔒 locked</Text>}
 					</Box>
 
 					{!w.isMain && (
 						<>
 							<Box gap={1}>
 								<Text dimColor>base:</Text>
-								<Text>{w.base}</Text>
-								{w.ahead > 0 && (
+								<Text>{w.base ?? "-"}</Text>
+								{w.ahead !== null && w.ahead > 0 && (
 									<Text color="green" bold>
 										+{w.ahead} ahead
 									</Text>
@@ -189,7 +200,7 @@ export default function List() {
 
 							<Box gap={1}>
 								<Text dimColor>status:</Text>
-								{w.status === "dirty" ? (
+								{w.dirty ? (
 									<Text color="yellow" bold>
 										● dirty
 									</Text>
@@ -198,16 +209,34 @@ export default function List() {
 								)}
 							</Box>
 
+							{w.lock?.reason && (
+								<Box gap={1}>
+									<Text dimColor>lock:</Text>
+									<Text color="yellow">{w.lock.reason}</Text>
+								</Box>
+							)}
+
+							{w.disk && (
+								<Box gap={1}>
+									<Text dimColor>size:</Text>
+									<Text bold>{formatBytes(w.disk.total)}</Text>
+									<Text dimColor>
+										(tracked {formatBytes(w.disk.tracked)} · ignored {formatBytes(w.disk.ignored)}
+										{w.disk.untracked > 0 ? ` · untracked ${formatBytes(w.disk.untracked)}` : ""})
+									</Text>
+								</Box>
+							)}
+
 							<Box gap={1}>
 								<Text dimColor>PR:</Text>
-								{w.pr === "-" ? (
+								{!w.pr ? (
 									<Text dimColor>none</Text>
-								) : w.prState === "MERGED" ? (
-									<Text color="magenta">{w.pr} merged</Text>
-								) : w.prState === "CLOSED" ? (
-									<Text color="red">{w.pr} closed</Text>
+								) : w.pr.state === "MERGED" ? (
+									<Text color="magenta">#{w.pr.number} merged</Text>
+								) : w.pr.state === "CLOSED" ? (
+									<Text color="red">#{w.pr.number} closed</Text>
 								) : (
-									<Text color="blue">{w.pr} open</Text>
+									<Text color="blue">#{w.pr.number} open</Text>
 								)}
 							</Box>
 						</>
@@ -218,6 +247,51 @@ export default function List() {
 					</Box>
 				</Box>
 			))}
+
+			{scratchInfo.length > 0 && (
+				<Box marginTop={1} marginBottom={1}>
+					<Text bold color="cyan">
+						🧪 Scratch Worktrees
+					</Text>
+					<Text dimColor> ({scratchInfo.length})</Text>
+				</Box>
+			)}
+
+			{scratchInfo.map((s, i) => (
+				<Box
+					key={s.path}
+					flexDirection="column"
+					borderStyle="round"
+					borderColor={s.expired ? "red" : "gray"}
+					paddingX={1}
+					marginBottom={i < scratchInfo.length - 1 ? 1 : 0}
+				>
+					<Text color="cyan" bold>
+						{s.name}
+					</Text>
+					<Box gap={1}>
+						<Text dimColor>from:</Text>
+						<Text>{s.ref ?? "-"}</Text>
+						<Text dimColor>@ {s.commit}</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>status:</Text>
+						{s.dirty ? (
+							<Text color="yellow" bold>
+								● dirty
+							</Text>
+						) : (
+							<Text color="green">✓ clean</Text>
+						)}
+						<Text color={s.expired ? "red" : undefined} dimColor={!s.expired}>
+							{s.expiresAt ? formatExpiry(s.expiresAt) : "no expiry"}
+						</Text>
+					</Box>
+					<Box>
+						<Text dimColor>{s.path}</Text>
+					</Box>
+				</Box>
+			))}
 		</Box>
 	);
 }
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import { z } from "zod";
+import { findMainRepoRoot, getCurrentBranch, isInWorktree, lockWorktree } from "../../lib/git.js";
+
+export const description = "Lock a worktree so clean and remove skip it";
+
+export const options = z.object({
+	reason: z.string().optional().describe("Why the worktree is kept"),
+});
+
+export const args = z.tuple([
+	z.string().optional().describe("Branch name (defaults to the current worktree)"),
+]);
+
+type Props = {
+	options: z.infer<typeof options>;
+	args: z.infer<typeof args>;
+};
+
+type Status = "locking" | "done" | "error";
+
+export default function Lock({ args, options }: Props) {
+	const [status, setStatus] = useState<Status>("locking");
+	const [message, setMessage] = useState("");
+
+	useEffect(() => {
+		const root = findMainRepoRoot();
+		if (!root) {
+			setStatus("error");
+			setMessage("Not inside a git repository");
+			return;
+		}
+
+		const branch = args[0] ?? (isInWorktree() ? getCurrentBranch() : null);
+		if (!branch) {
+			setStatus("error");
+			setMessage("Branch name is required outside a worktree");
+			return;
+		}
+
+		const result = lockWorktree(branch, root, options.reason);
+		if (result.success) {
+			setStatus("done");
+			setMessage(`Locked ${branch}${options.reason ? ` (${options.reason})` : ""}`);
+		} else {
+			setStatus("error");
+			setMessage(result.error ?? "Unknown error");
+		}
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box padding={1}>
+			{status === "done" && (
+				<Text color="green" bold>
+					🔒 {message}
+				</Text>
+			)}
+			{status === "error" && (
+				<Text color="red" bold>
+					✗ {message}
+				</Text>
+			)}
+		</Box>
+	);
+}
@@ -2,7 +2,9 @@ import { useEffect, useState } from "react";
 import { Text, Box } from "ink";
 import { z } from "zod";
 import { findMainRepoRoot } from "../../lib/git.js";
-import { execSync, spawn } from "child_process";
+import { getConfig } from "../../lib/config.js";
+import { commandExists } from "../../lib/exec.js";
+import { spawn } from "child_process";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -52,13 +54,11 @@ export default function Open({ options: opts }: Props) {
 			return;
 		}
 
-		// Resolve editor: --editor flag > SANTREE_EDITOR env > "code" default
-		const editor = opts.editor || process.env.SANTREE_EDITOR || "code";
+		// Resolve editor: --editor flag > SANTREE_EDITOR env > config `editor` (default "code")
+		const editor = opts.editor || process.env.SANTREE_EDITOR || getConfig(repoRoot).editor;
 
 		// Validate editor exists in PATH
-		try {
-			execSync(`which ${editor}`, { stdio: "ignore" });
-		} catch {
+		if (!commandExists(editor)) {
 			setStatus({
 				state: "error",
 				message: `Editor "${editor}" not found in PATH`,
@@ -77,6 +77,10 @@ export default function Open({ options: opts }: Props) {
 		setStatus({ state: "done", repo: repoRoot, file: workspaceFile, editor });
 	}, []);
 
+	useEffect(() => {
+		if (status.state === "error") process.exitCode = 1;
+	}, [status]);
+
 	if (status.state === "loading") {
 		return null;
 	}
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import { findMainRepoRoot, findRepoRoot } from "../../lib/git.js";
+import { findScratchWorktree, promoteScratchWorktree } from "../../lib/scratch.js";
+import { hasProvisioning, provisionWorktree } from "../../lib/provision.js";
+
+export const description = "Turn a scratch worktree into a worktree on a branch";
+
+export const options = z.object({
+	scratch: z
+		.string()
+		.optional()
+		.describe("Name of the scratch worktree (defaults to the current one)"),
+});
+
+export const args = z.tuple([z.string().describe("Branch name, e.g. a ticket ID")]);
+
+type Props = {
+	options: z.infer<typeof options>;
+	args: z.infer<typeof args>;
+};
+
+type Status = "promoting" | "setup" | "done" | "error";
+
+export default function Promote({ options, args }: Props) {
+	const [branchName] = args;
+	const [status, setStatus] = useState<Status>("promoting");
+	const [message, setMessage] = useState("Promoting scratch worktree...");
+	const [scratchName, setScratchName] = useState<string | null>(null);
+	const [worktreePath, setWorktreePath] = useState("");
+	const [hookWarning, setHookWarning] = useState<string | null>(null);
+	const [setupWarning, setSetupWarning] = useState<string | null>(null);
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const mainRepo = findMainRepoRoot();
+			const current = findRepoRoot();
+			if (!mainRepo || !current) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			const scratch = findScratchWorktree(mainRepo, options.scratch ?? current);
+			if (!scratch) {
+				setStatus("error");
+				setMessage(
+					options.scratch
+						? `Scratch worktree not found: ${options.scratch}`
+						: "Not inside a scratch worktree. Pass one with --scratch <name>",
+				);
+				return;
+			}
+			setScratchName(scratch.name);
+
+			// The scratch worktree is about to move, so don't run from inside it
+			process.chdir(mainRepo);
+
+			const result = await promoteScratchWorktree(mainRepo, scratch, branchName);
+			if (!result.success || !result.path) {
+				setStatus("error");
+				setMessage(result.error ?? "Unknown error");
+				return;
+			}
+			setWorktreePath(result.path);
+			if (result.warning) setHookWarning(result.warning);
+
+			// Scratch worktrees skip setup, so a promoted one gets it now
+			if (hasProvisioning(mainRepo)) {
+				setStatus("setup");
+				const setup = await provisionWorktree(mainRepo, result.path, branchName, {
+					onStep: (step, state) => {
+						if (state === "running") setMessage(`Running setup step ${step.name}...`);
+					},
+				});
+				if (!setup.success) {
+					setSetupWarning(
+						`${setup.error}. Resume with: santree worktree setup --from ${setup.failedStep}`,
+					);
+				}
+			}
+
+			setStatus("done");
+			setMessage(`Promoted to ${branchName}`);
+			console.log(`SANTREE_CD:${result.path}`);
+		}
+
+		run();
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	const isLoading = status === "promoting" || status === "setup";
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					⬆ Promote
+				</Text>
+			</Box>
+
+			{scratchName && (
+				<Box
+					flexDirection="column"
+					borderStyle="round"
+					borderColor={status === "error" ? "red" : status === "done" ? "green" : "blue"}
+					paddingX={1}
+					width="100%"
+				>
+					<Box gap={1}>
+						<Text dimColor>scratch:</Text>
+						<Text>{scratchName}</Text>
+					</Box>
+					<Box gap={1}>
+						<Text dimColor>branch:</Text>
+						<Text color="cyan" bold>
+							{branchName}
+						</Text>
+					</Box>
+				</Box>
+			)}
+
+			<Box marginTop={1}>
+				{isLoading && (
+					<Box>
+						<Text color="cyan">
+							<Spinner type="dots" />
+						</Text>
+						<Text> {message}</Text>
+					</Box>
+				)}
+				{status === "done" && (
+					<Box flexDirection="column">
+						<Text color="green" bold>
+							✓ {message}
+						</Text>
+						<Text dimColor> {worktreePath}</Text>
+						{hookWarning && <Text color="yellow"> ⚠ {hookWarning}</Text>}
+						{setupWarning && <Text color="yellow"> ⚠ {setupWarning}</Text>}
+					</Box>
+				)}
+				{status === "error" && (
+					<Text color="red" bold>
+						✗ {message}
+					</Text>
+				)}
+			</Box>
+		</Box>
+	);
+}
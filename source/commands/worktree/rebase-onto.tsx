@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import {
+	findMainRepoRoot,
+	findRepoRoot,
+	getCurrentBranch,
+	getBaseBranch,
+	getBaseRemote,
+	hasUncommittedChanges,
+	isInWorktree,
+} from "../../lib/git.js";
+import { spawnAsync } from "../../lib/exec.js";
+import { getSyncInProgress } from "../../lib/conflicts.js";
+import { rebaseOnto } from "../../lib/stack.js";
+
+export const description = "Move the current worktree onto a different base branch";
+
+export const options = z.object({
+	autostash: z.boolean().optional().describe("Stash and reapply local changes around the rebase"),
+});
+
+export const args = z.tuple([z.string().describe("New base branch")]);
+
+type Props = {
+	options: z.infer<typeof options>;
+	args: z.infer<typeof args>;
+};
+
+type Status = "init" | "fetching" | "rebasing" | "done" | "error";
+
+export default function RebaseOnto({ options, args }: Props) {
+	const [newBase] = args;
+	const [status, setStatus] = useState<Status>("init");
+	const [message, setMessage] = useState("");
+	const [branch, setBranch] = useState<string | null>(null);
+	const [oldBase, setOldBase] = useState<string | null>(null);
+
+	useEffect(() => {
+		async function run() {
+			// Small delay to allow initial render with spinner
+			await new Promise((r) => setTimeout(r, 100));
+
+			const mainRepo = findMainRepoRoot();
+			const currentRepo = findRepoRoot();
+			if (!mainRepo || !currentRepo) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			if (!isInWorktree()) {
+				setStatus("error");
+				setMessage("Not inside a worktree (you are in the main repository)");
+				return;
+			}
+
+			const inProgress = getSyncInProgress(currentRepo);
+			if (inProgress) {
+				setStatus("error");
+				setMessage(
+					`A ${inProgress} is in progress. Finish it (git ${inProgress} --continue) or abort it first`,
+				);
+				return;
+			}
+
+			const branchName = getCurrentBranch();
+			if (!branchName) {
+				setStatus("error");
+				setMessage("Could not determine current branch");
+				return;
+			}
+			setBranch(branchName);
+			setOldBase(getBaseBranch(branchName));
+
+			if (!options.autostash && hasUncommittedChanges()) {
+				setStatus("error");
+				setMessage(
+					"You have uncommitted changes. Commit or stash them, or rebase with --autostash.",
+				);
+				return;
+			}
+
+			setStatus("fetching");
+			const remote = getBaseRemote(branchName);
+			const fetchResult = await spawnAsync("git", ["fetch", remote]);
+			if (fetchResult.code !== 0) {
+				setStatus("error");
+				setMessage("Failed to fetch from remote");
+				return;
+			}
+
+			setStatus("rebasing");
+			const result = await rebaseOnto(mainRepo, branchName, currentRepo, newBase, {
+				autostash: options.autostash,
+			});
+			if (result.success) {
+				setStatus("done");
+				setMessage(result.message ?? `Moved onto ${newBase}`);
+			} else {
+				setStatus("error");
+				setMessage(result.error ?? "Rebase failed");
+			}
+		}
+
+		run();
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	const isLoading = status === "init" || status === "fetching" || status === "rebasing";
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					🔀 Rebase Onto
+				</Text>
+			</Box>
+
+			<Box
+				flexDirection="column"
+				borderStyle="round"
+				borderColor={status === "error" ? "red" : status === "done" ? "green" : "blue"}
+				paddingX={1}
+				width="100%"
+			>
+				{branch && (
+					<Box gap={1}>
+						<Text dimColor>branch:</Text>
+						<Text color="cyan" bold>
+							{branch}
+						</Text>
+					</Box>
+				)}
+				{oldBase && (
+					<Box gap={1}>
+						<Text dimColor>from:</Text>
+						<Text color="blue">{oldBase}</Text>
+					</Box>
+				)}
+				<Box gap={1}>
+					<Text dimColor>onto:</Text>
+					<Text color="blue" bold>
+						{newBase}
+					</Text>
+				</Box>
+			</Box>
+
+			<Box marginTop={1}>
+				{isLoading && (
+					<Box gap={1}>
+						<Text color="cyan">
+							<Spinner type="dots" />
+						</Text>
+						<Text>
+							{status === "init" && "Starting..."}
+							{status === "fetching" && "Fetching from remote..."}
+							{status === "rebasing" && `Rebasing onto ${newBase}...`}
+						</Text>
+					</Box>
+				)}
+				{status === "done" && (
+					<Text color="green" bold>
+						✓ {message}
+					</Text>
+				)}
+				{status === "error" && (
+					<Text color="red" bold>
+						✗ {message}
+					</Text>
+				)}
+			</Box>
+		</Box>
+	);
+}
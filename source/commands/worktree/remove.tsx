@@ -2,15 +2,29 @@ import { useEffect, useState } from "react";
 import { Text, Box, useInput, useApp } from "ink";
 import Spinner from "ink-spinner";
 import { z } from "zod";
-import { removeWorktree, findMainRepoRoot } from "../../lib/git.js";
+import {
+	removeWorktree,
+	findMainRepoRoot,
+	getWorktreeLock,
+	describeLock,
+	getWorktreePath,
+} from "../../lib/git.js";
+import {
+	findScratchWorktree,
+	removeScratchWorktree,
+	type ScratchWorktree,
+} from "../../lib/scratch.js";
 
 export const description = "Remove a worktree and its branch";
 
 export const options = z.object({
 	force: z.boolean().optional().describe("Skip confirmation prompt"),
+	ignoreLock: z.boolean().optional().describe("Remove even if the worktree is locked"),
 });
 
-export const args = z.tuple([z.string().describe("Branch name to remove")]);
+export const args = z.tuple([
+	z.string().describe("Branch name (or scratch worktree name) to remove"),
+]);
 
 type Props = {
 	options: z.infer<typeof options>;
@@ -25,6 +39,8 @@ export default function Remove({ args, options }: Props) {
 	const [status, setStatus] = useState<Status>("checking");
 	const [message, setMessage] = useState("");
 	const [repoRoot, setRepoRoot] = useState<string | null>(null);
+	const [warning, setWarning] = useState<string | null>(null);
+	const [scratch, setScratch] = useState<ScratchWorktree | null>(null);
 
 	useInput((input) => {
 		if (status !== "confirming") return;
@@ -38,17 +54,25 @@ export default function Remove({ args, options }: Props) {
 		}
 	});
 
-	async function doRemove() {
-		if (!repoRoot) return;
+	async function doRemove(root = repoRoot, target = scratch) {
+		if (!root) return;
 
 		setStatus("removing");
 		setMessage(`Removing worktree ${branchName}...`);
 
-		const result = await removeWorktree(branchName, repoRoot, true);
+		// Scratch worktrees skip the trash, so they are only forced away with --force
+		const result: { success: boolean; error?: string; warning?: string } = target
+			? await removeScratchWorktree(root, target, options.force)
+			: await removeWorktree(branchName, root, true, options.ignoreLock);
 
 		if (result.success) {
+			setWarning(result.warning ?? null);
 			setStatus("done");
-			setMessage(`Removed worktree and branch: ${branchName}`);
+			setMessage(
+				target
+					? `Removed scratch worktree: ${target.name}`
+					: `Removed worktree and branch: ${branchName}`,
+			);
 		} else {
 			setStatus("error");
 			setMessage(result.error ?? "Unknown error");
@@ -67,17 +91,22 @@ export default function Remove({ args, options }: Props) {
 			}
 			setRepoRoot(root);
 
+			const scratchTarget = getWorktreePath(branchName)
+				? null
+				: findScratchWorktree(root, branchName);
+			setScratch(scratchTarget);
+
+			const lock = scratchTarget ? null : getWorktreeLock(branchName, root);
+			if (lock && !options.ignoreLock) {
+				setStatus("error");
+				setMessage(
+					`${describeLock(branchName, lock)}. Unlock with: santree worktree unlock ${branchName}, or use --ignore-lock`,
+				);
+				return;
+			}
+
 			if (options.force) {
-				setStatus("removing");
-				setMessage(`Removing worktree ${branchName}...`);
-				const result = await removeWorktree(branchName, root, true);
-				if (result.success) {
-					setStatus("done");
-					setMessage(`Removed worktree and branch: ${branchName}`);
-				} else {
-					setStatus("error");
-					setMessage(result.error ?? "Unknown error");
-				}
+				await doRemove(root, scratchTarget);
 				return;
 			}
 
@@ -112,7 +141,7 @@ export default function Remove({ args, options }: Props) {
 				width="100%"
 			>
 				<Box gap={1}>
-					<Text dimColor>branch:</Text>
+					<Text dimColor>{scratch ? "scratch:" : "branch:"}</Text>
 					<Text color="red" bold>
 						{branchName}
 					</Text>
@@ -131,14 +160,20 @@ export default function Remove({ args, options }: Props) {
 
 				{status === "confirming" && (
 					<Text bold color="yellow">
-						Remove this worktree and delete the branch? [y/N]:{" "}
+						{scratch
+							? "Remove this scratch worktree? It is not kept in the trash. [y/N]: "
+							: "Remove this worktree and delete the branch? [y/N]: "}
 					</Text>
 				)}
 
 				{status === "done" && (
-					<Text color="green" bold>
-						✓ {message}
-					</Text>
+					<Box flexDirection="column">
+						<Text color="green" bold>
+							✓ {message}
+						</Text>
+						{warning && <Text color="yellow">⚠ {warning}</Text>}
+						{!scratch && <Text dimColor>Changed your mind? Bring it back with: santree undo</Text>}
+					</Box>
 				)}
 
 				{status === "cancelled" && <Text color="yellow">✗ {message}</Text>}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import { findMainRepoRoot } from "../../lib/git.js";
+import { restoreWorktree, getArchive } from "../../lib/archive.js";
+import { hasProvisioning, provisionWorktree } from "../../lib/provision.js";
+
+export const description = "Restore an archived worktree";
+
+export const args = z.tuple([z.string().describe("Branch name to restore")]);
+
+type Props = {
+	args: z.infer<typeof args>;
+};
+
+type Status = "restoring" | "setup" | "done" | "error";
+
+export default function Restore({ args }: Props) {
+	const [branchName] = args;
+	const [status, setStatus] = useState<Status>("restoring");
+	const [message, setMessage] = useState("Restoring worktree...");
+	const [worktreePath, setWorktreePath] = useState("");
+	const [note, setNote] = useState<string | null>(null);
+	const [warnings, setWarnings] = useState<string[]>([]);
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			const root = findMainRepoRoot();
+			if (!root) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			setNote(getArchive(root, branchName)?.note ?? null);
+
+			const result = await restoreWorktree(branchName, root);
+			if (!result.success || !result.path || !result.branch) {
+				setStatus("error");
+				setMessage(result.error ?? "Unknown error");
+				return;
+			}
+			setWorktreePath(result.path);
+			const found: string[] = result.warning ? [result.warning] : [];
+
+			// Ignored files (.env, dependencies) weren't archived; setup recreates them
+			if (hasProvisioning(root)) {
+				setStatus("setup");
+				const setup = await provisionWorktree(root, result.path, result.branch, {
+					onStep: (step, state) => {
+						if (state === "running") setMessage(`Running setup step ${step.name}...`);
+					},
+				});
+				if (!setup.success) {
+					found.push(
+						`${setup.error}. Resume with: santree worktree setup --from ${setup.failedStep}`,
+					);
+				}
+			}
+
+			setWarnings(found);
+			setStatus("done");
+			setMessage(`Restored ${result.branch}`);
+			console.log(`SANTREE_CD:${result.path}`);
+		}
+
+		run();
+	}, [branchName]);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	const isLoading = status === "restoring" || status === "setup";
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1}>
+				<Text bold color="cyan">
+					📦 Restore
+				</Text>
+			</Box>
+
+			<Box
+				flexDirection="column"
+				borderStyle="round"
+				borderColor={status === "error" ? "red" : status === "done" ? "green" : "blue"}
+				paddingX={1}
+				width="100%"
+			>
+				<Box gap={1}>
+					<Text dimColor>branch:</Text>
+					<Text color="cyan" bold>
+						{branchName}
+					</Text>
+				</Box>
+				{note && (
+					<Box gap={1}>
+						<Text dimColor>note:</Text>
+						<Text>{note}</Text>
+					</Box>
+				)}
+			</Box>
+
+			<Box marginTop={1}>
+				{isLoading && (
+					<Box>
+						<Text color="cyan">
+							<Spinner type="dots" />
+						</Text>
+						<Text> {message}</Text>
+					</Box>
+				)}
+				{status === "done" && (
+					<Box flexDirection="column">
+						<Text color="green" bold>
+							✓ {message}
+						</Text>
+						<Text dimColor> {worktreePath}</Text>
+						{warnings.map((w) => (
+							<Text key={w} color="yellow">
+								{" "}
+								⚠ {w}
+							</Text>
+						))}
+					</Box>
+				)}
+				{status === "error" && (
+					<Text color="red" bold>
+						✗ {message}
+					</Text>
+				)}
+			</Box>
+		</Box>
+	);
+}
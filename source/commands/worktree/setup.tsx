@@ -1,87 +1,181 @@
 import { useEffect, useState } from "react";
 import { Text, Box } from "ink";
 import Spinner from "ink-spinner";
-import * as path from "path";
-import * as fs from "fs";
-import { findMainRepoRoot, getSantreeDir, isInWorktree } from "../../lib/git.js";
-import { spawnAsync } from "../../lib/exec.js";
-
-export const description = "Run init script in current worktree";
+import { z } from "zod";
+import {
+	findMainRepoRoot,
+	findRepoRoot,
+	getCurrentBranch,
+	getWorktreeKey,
+	isInWorktree,
+} from "../../lib/git.js";
+import {
+	getSetupStatus,
+	getWorktreeEntry,
+	type SetupStepStatus,
+	type SparseCheckout,
+} from "../../lib/metadata.js";
+import {
+	getProvisionSteps,
+	selectProvisionSteps,
+	provisionWorktree,
+	type StepState,
+} from "../../lib/provision.js";
+
+export const description = "Run setup steps in current worktree";
+
+export const options = z.object({
+	step: z.string().optional().describe("Run only this step"),
+	from: z.string().optional().describe("Resume from this step"),
+});
+
+type Props = {
+	options: z.infer<typeof options>;
+};
 
 type Status = "checking" | "running" | "done" | "error";
 
-export default function Setup() {
+type StepRow = {
+	name: string;
+	/** null when the step isn't part of this run */
+	state: StepState | null;
+	previous: SetupStepStatus | null;
+};
+
+function StepLine({ row }: { row: StepRow }) {
+	if (row.state === null) {
+		return (
+			<Text dimColor>
+				{"– "}
+				{row.name}
+				{row.previous ? ` (last: ${row.previous.status})` : ""}
+			</Text>
+		);
+	}
+	if (row.state === "running") {
+		return (
+			<Box gap={1}>
+				<Text color="cyan">
+					<Spinner type="dots" />
+				</Text>
+				<Text>{row.name}</Text>
+			</Box>
+		);
+	}
+	const icon = { pending: "○", done: "✓", failed: "✗" }[row.state];
+	const color = { pending: undefined, done: "green", failed: "red" }[row.state];
+	return (
+		<Text color={color} dimColor={row.state === "pending"}>
+			{icon} {row.name}
+		</Text>
+	);
+}
+
+export default function Setup({ options }: Props) {
 	const [status, setStatus] = useState<Status>("checking");
 	const [message, setMessage] = useState("");
 	const [worktreePath, setWorktreePath] = useState("");
-	const [scriptPath, setScriptPath] = useState("");
+	const [rows, setRows] = useState<StepRow[]>([]);
 	const [output, setOutput] = useState("");
+	const [sparse, setSparse] = useState<SparseCheckout | null>(null);
 
 	useEffect(() => {
 		async function run() {
 			// Small delay to allow initial render with spinner
 			await new Promise((r) => setTimeout(r, 100));
 
+			if (options.step && options.from) {
+				setStatus("error");
+				setMessage("Use either --step or --from, not both");
+				return;
+			}
+
 			const mainRepo = findMainRepoRoot();
-			if (!mainRepo) {
+			const cwd = findRepoRoot();
+			if (!mainRepo || !cwd) {
 				setStatus("error");
 				setMessage("Not inside a git repository");
 				return;
 			}
 
-			const santreeDir = getSantreeDir(mainRepo);
-			const initScript = path.join(santreeDir, "init.sh");
-			setScriptPath(initScript);
+			if (!isInWorktree()) {
+				setStatus("error");
+				setMessage("Not inside a worktree (you are in the main repository)");
+				return;
+			}
 
-			if (!fs.existsSync(initScript)) {
+			const branch = getCurrentBranch();
+			if (!branch) {
 				setStatus("error");
-				setMessage(`No init script found at ${initScript}`);
+				setMessage("Could not determine current branch");
 				return;
 			}
 
-			try {
-				fs.accessSync(initScript, fs.constants.X_OK);
-			} catch {
+			setWorktreePath(cwd);
+			// Steps see the scope as SANTREE_SPARSE_PROFILES / SANTREE_SPARSE_PATHS
+			setSparse(getWorktreeEntry(mainRepo, getWorktreeKey(branch))?.sparse ?? null);
+
+			const steps = getProvisionSteps(mainRepo);
+			if (steps.length === 0) {
 				setStatus("error");
-				setMessage(`Init script is not executable. Run: chmod +x ${initScript}`);
+				setMessage(
+					"No setup steps configured. Add a `setup` section to .santree/config.json or create .santree/init.sh",
+				);
 				return;
 			}
 
-			const cwd = process.cwd();
-			if (!isInWorktree()) {
+			const selected = selectProvisionSteps(steps, { only: options.step, from: options.from });
+			if (!selected.ok) {
 				setStatus("error");
-				setMessage("Not inside a worktree (you are in the main repository)");
+				setMessage(selected.error);
 				return;
 			}
 
-			setWorktreePath(cwd);
+			const previous = getSetupStatus(mainRepo, getWorktreeKey(branch));
+			const selectedNames = new Set(selected.steps.map((s) => s.name));
+			setRows(
+				steps.map((s) => ({
+					name: s.name,
+					state: selectedNames.has(s.name) ? "pending" : null,
+					previous: previous[s.name] ?? null,
+				})),
+			);
 			setStatus("running");
 
-			// Run script and capture output
-			const result = await spawnAsync(initScript, [], {
-				cwd,
-				env: {
-					...process.env,
-					SANTREE_WORKTREE_PATH: cwd,
-					SANTREE_REPO_ROOT: mainRepo,
+			const setStepState = (name: string, state: StepState) =>
+				setRows((current) => current.map((r) => (r.name === name ? { ...r, state } : r)));
+
+			const result = await provisionWorktree(mainRepo, cwd, branch, {
+				only: options.step,
+				from: options.from,
+				onStep: (step, state) => {
+					if (state === "running") setOutput("");
+					setStepState(step.name, state);
 				},
-				onOutput: setOutput,
+				onOutput: (_step, stepOutput) => setOutput(stepOutput),
 			});
-			setOutput(result.output);
 
-			if (result.code === 0) {
+			if (result.success) {
 				setStatus("done");
-				setMessage("Init script completed successfully");
+				setMessage(
+					`${selected.steps.length} setup step${selected.steps.length === 1 ? "" : "s"} completed`,
+				);
 			} else {
 				setStatus("error");
-				setMessage(`Init script failed (exit code ${result.code})`);
+				setMessage(
+					result.failedStep
+						? `${result.error}. Retry with: santree worktree setup --from ${result.failedStep}`
+						: (result.error ?? "Setup failed"),
+				);
 			}
 		}
 
 		run();
-	}, []);
+	}, [options.step, options.from]);
 
-	const isLoading = status === "checking" || status === "running";
+	useEffect(() => {
+		if (status === "error") process.exitCode = 1;
+	}, [status]);
 
 	return (
 		<Box flexDirection="column" padding={1} width="100%">
@@ -104,10 +198,17 @@ export default function Setup() {
 						<Text color="cyan">{worktreePath}</Text>
 					</Box>
 				)}
-				{scriptPath && (
+				{sparse && (
 					<Box gap={1}>
-						<Text dimColor>script:</Text>
-						<Text dimColor>{scriptPath}</Text>
+						<Text dimColor>sparse:</Text>
+						<Text color="yellow">{sparse.paths.join(" ")}</Text>
+					</Box>
+				)}
+				{rows.length > 0 && (
+					<Box flexDirection="column" marginTop={1}>
+						{rows.map((row) => (
+							<StepLine key={row.name} row={row} />
+						))}
 					</Box>
 				)}
 			</Box>
@@ -120,12 +221,12 @@ export default function Setup() {
 			)}
 
 			<Box marginTop={1}>
-				{isLoading && (
+				{status === "checking" && (
 					<Box gap={1}>
 						<Text color="cyan">
 							<Spinner type="dots" />
 						</Text>
-						<Text>{status === "checking" ? "Checking..." : "Running init script..."}</Text>
+						<Text>Checking...</Text>
 					</Box>
 				)}
 				{status === "done" && (
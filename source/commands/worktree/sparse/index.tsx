@@ -0,0 +1 @@
+export const description = "Adjust which directories a sparse worktree checks out";
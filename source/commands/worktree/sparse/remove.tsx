@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import Spinner from "ink-spinner";
+import { z } from "zod";
+import {
+	findMainRepoRoot,
+	findRepoRoot,
+	getCurrentBranch,
+	getWorktreeKey,
+	isInWorktree,
+} from "../../../lib/git.js";
+import { updateSparsePaths } from "../../../lib/sparse.js";
+
+export const description = "Stop checking out a directory in the current sparse worktree";
+
+export const args = z.tuple([
+	z.string().describe("Directory to remove, relative to the repo root"),
+]);
+
+type Props = {
+	args: z.infer<typeof args>;
+};
+
+type Status = "updating" | "done" | "error";
+
+export default function SparseRemove({ args }: Props) {
+	const [status, setStatus] = useState<Status>("updating");
+	const [message, setMessage] = useState("");
+	const [paths, setPaths] = useState<string[]>([]);
+
+	useEffect(() => {
+		async function run() {
+			const root = findMainRepoRoot();
+			const worktreePath = findRepoRoot();
+			if (!root || !worktreePath) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			const branch = getCurrentBranch();
+			if (!isInWorktree() || !branch) {
+				setStatus("error");
+				setMessage("Not inside a worktree (you are in the main repository)");
+				return;
+			}
+
+			const result = await updateSparsePaths(root, getWorktreeKey(branch), worktreePath, {
+				remove: [args[0]],
+			});
+			if (result.success) {
+				setPaths(result.paths ?? []);
+				setStatus("done");
+				setMessage(`Removed ${args[0]}`);
+			} else {
+				setStatus("error");
+				setMessage(result.error ?? "Unknown error");
+			}
+		}
+
+		run();
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box flexDirection="column" padding={1}>
+			{status === "updating" && (
+				<Box gap={1}>
+					<Text color="cyan">
+						<Spinner type="dots" />
+					</Text>
+					<Text>Removing {args[0]}...</Text>
+				</Box>
+			)}
+			{status === "done" && (
+				<>
+					<Text color="green" bold>
+						✓ {message}
+					</Text>
+					<Text dimColor>Checked out: {paths.join(" ")}</Text>
+				</>
+			)}
+			{status === "error" && (
+				<Text color="red" bold>
+					✗ {message}
+				</Text>
+			)}
+		</Box>
+	);
+}
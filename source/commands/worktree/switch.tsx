@@ -24,6 +24,7 @@ export default function Switch({ args }: Props) {
 			hasOutputRef.current = true;
 			process.stdout.write(`SANTREE_CD:${worktreePath}\n`);
 		}
+		if (!worktreePath) process.exitCode = 1;
 	}, [worktreePath]);
 
 	const status = worktreePath ? "done" : "error";
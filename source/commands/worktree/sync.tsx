@@ -10,29 +10,214 @@ import {
 	hasUncommittedChanges,
 	getCommitsBehind,
 	isInWorktree,
+	getBaseRemote,
+	listWorktrees,
+	getHookContext,
 } from "../../lib/git.js";
+import { runHook } from "../../lib/hooks.js";
 import { spawnAsync } from "../../lib/exec.js";
+import { isStacked, syncStack, getStackParent, type RestackResult } from "../../lib/stack.js";
+import { syncAllWorktrees, SYNC_CONCURRENCY, type BatchSyncResult } from "../../lib/sync.js";
+import { getStaleDeps } from "../../lib/deps.js";
+import {
+	resolveAIContext,
+	renderAIPrompt,
+	launchAgent,
+	resolveAgentBinary,
+	cleanupImages,
+} from "../../lib/ai.js";
+import {
+	getSyncInProgress,
+	getRebasingBranch,
+	getConflictedFiles,
+	getConflictSides,
+	findConflictMarkers,
+	renderConflictHunks,
+	continueSync,
+} from "../../lib/conflicts.js";
 
 export const description = "Sync worktree with base branch";
 
 export const options = z.object({
 	rebase: z.boolean().optional().describe("Use rebase instead of merge"),
+	all: z.boolean().optional().describe("Sync every worktree with its base"),
+	autostash: z.boolean().optional().describe("Stash and reapply local changes around the sync"),
+	jobs: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe(`With --all, how many worktrees to sync at once (default ${SYNC_CONCURRENCY})`),
+	resolve: z.boolean().optional().describe("Launch Claude to resolve conflicts, then continue"),
 });
 
 type Props = {
 	options: z.infer<typeof options>;
 };
 
-type Status = "init" | "fetching" | "syncing" | "done" | "up-to-date" | "error";
+type Status = "init" | "fetching" | "syncing" | "resolving" | "done" | "up-to-date" | "error";
+
+// A rebase stops once per conflicting commit
+const MAX_RESOLVE_ROUNDS = 20;
+
+/**
+ * Launch the agent on the conflicts of the merge or rebase in progress in `cwd`, check that no
+ * conflict markers are left, and continue it. Repeats while a rebase stops on later commits.
+ */
+async function resolveWithAgent(
+	cwd: string,
+	branch: string,
+	upstream: string,
+	onRound: (files: string[]) => void,
+): Promise<{ success: boolean; error?: string }> {
+	const resolved = await resolveAIContext({ branch });
+	if (!resolved.ok) return { success: false, error: resolved.error };
+	const ctx = resolved.context;
+
+	try {
+		for (let round = 0; round < MAX_RESOLVE_ROUNDS; round++) {
+			const operation = getSyncInProgress(cwd);
+			if (!operation) return { success: true };
+
+			const files = getConflictedFiles(cwd);
+			if (files.length === 0) {
+				const continued = await continueSync(cwd, operation, []);
+				if (!continued.success) return continued;
+				continue;
+			}
+
+			onRound(files);
+			const sides = await getConflictSides(cwd, operation);
+			const prompt = renderAIPrompt("conflicts", ctx, {
+				operation,
+				upstream,
+				branch_log: sides.branchLog || undefined,
+				upstream_log: sides.upstreamLog || undefined,
+				conflict_hunks: renderConflictHunks(cwd, files),
+			});
+			await new Promise<void>((resolve, reject) => {
+				const child = launchAgent(prompt);
+				child.on("error", reject);
+				child.on("close", () => resolve());
+			});
+
+			const remaining = findConflictMarkers(cwd, files);
+			if (remaining.length > 0) {
+				const next = operation === "merge" ? "git commit" : "git rebase --continue";
+				return {
+					success: false,
+					error: `Conflict markers remain in ${remaining.join(", ")}. Fix them, then run: git add -A && ${next}`,
+				};
+			}
+
+			const continued = await continueSync(cwd, operation, files);
+			if (!continued.success) return continued;
+		}
+		return {
+			success: false,
+			error: `Still conflicting after ${MAX_RESOLVE_ROUNDS} rounds. Continue by hand: git status`,
+		};
+	} catch (err) {
+		return {
+			success: false,
+			error: `Failed to launch agent: ${err instanceof Error ? err.message : String(err)}`,
+		};
+	} finally {
+		if (ctx.ticketId) cleanupImages(ctx.ticketId);
+	}
+}
+
+function stackStatusIcon(status: RestackResult["status"]): string {
+	switch (status) {
+		case "synced":
+		case "retargeted":
+			return "✓";
+		case "up-to-date":
+		case "merged":
+			return "=";
+		case "conflict":
+		case "dirty":
+			return "✗";
+		default:
+			return "-";
+	}
+}
+
+function stackStatusColor(status: RestackResult["status"]): string {
+	switch (status) {
+		case "synced":
+		case "retargeted":
+			return "green";
+		case "conflict":
+		case "dirty":
+			return "red";
+		case "skipped":
+			return "yellow";
+		default:
+			return "gray";
+	}
+}
+
+/**
+ * Describe dependency directories whose lockfile changed since they were provisioned,
+ * e.g. "node_modules in feature/x (package-lock.json changed)".
+ */
+function findStaleDeps(mainRepo: string, branches: string[]): string[] {
+	const worktrees = listWorktrees();
+	return branches.flatMap((b) => {
+		const wt = worktrees.find((w) => w.branch === b);
+		if (!wt) return [];
+		return getStaleDeps(mainRepo, wt.path, b).map(
+			(dep) => `${dep.dir} in ${b} (${dep.lockfile} changed)`,
+		);
+	});
+}
+
+/**
+ * Run the post-sync hook for each synced branch, one at a time.
+ * Returns the failures, prefixed with their branch.
+ */
+async function runPostSyncHooks(mainRepo: string, branches: string[]): Promise<string[]> {
+	const failures: string[] = [];
+	for (const b of branches) {
+		const result = await runHook("post-sync", getHookContext(b, mainRepo));
+		if (!result.success) failures.push(`${b}: ${result.error}`);
+	}
+	return failures;
+}
+
+function HookFailures({ failures }: { failures: string[] }) {
+	if (failures.length === 0) return null;
+	return (
+		<Box flexDirection="column" marginTop={1}>
+			{failures.map((failure) => (
+				<Text key={failure} color="yellow">
+					⚠ {failure}
+				</Text>
+			))}
+		</Box>
+	);
+}
 
 export default function Sync({ options }: Props) {
+	if (options.all) return <SyncAll options={options} />;
+	return <SyncCurrent options={options} />;
+}
+
+function SyncCurrent({ options }: Props) {
 	const [status, setStatus] = useState<Status>("init");
 	const [message, setMessage] = useState("");
 	const [branch, setBranch] = useState<string | null>(null);
 	const [baseBranch, setBaseBranch] = useState<string | null>(null);
 	const [commitsBehind, setCommitsBehind] = useState(0);
+	const [stackResults, setStackResults] = useState<RestackResult[] | null>(null);
+	const [syncingBranch, setSyncingBranch] = useState<string | null>(null);
+	const [staleDeps, setStaleDeps] = useState<string[]>([]);
+	const [conflictFiles, setConflictFiles] = useState<string[]>([]);
+	const [hookFailures, setHookFailures] = useState<string[]>([]);
 
 	const usesRebase = options.rebase ?? false;
+	const autostash = options.autostash ?? false;
 
 	useEffect(() => {
 		async function run() {
@@ -55,7 +240,7 @@ export default function Sync({ options }: Props) {
 				return;
 			}
 
-			const branchName = getCurrentBranch();
+			const branchName = getRebasingBranch(currentRepo) ?? getCurrentBranch();
 			if (!branchName) {
 				setStatus("error");
 				setMessage("Could not determine current branch");
@@ -66,39 +251,138 @@ export default function Sync({ options }: Props) {
 			const base = getBaseBranch(branchName);
 			setBaseBranch(base);
 
-			if (hasUncommittedChanges()) {
+			const remote = getBaseRemote(branchName);
+			// Stacked children sync with their parent branch, everything else with the remote base
+			const upstream = getStackParent(mainRepo, branchName) ? base : `${remote}/${base}`;
+
+			const resolveConflicts = async (): Promise<boolean> => {
+				const result = await resolveWithAgent(currentRepo, branchName, upstream, (files) => {
+					setConflictFiles(files);
+					setStatus("resolving");
+				});
+				if (!result.success) {
+					setStatus("error");
+					setMessage(result.error ?? "Could not resolve conflicts");
+				}
+				return result.success;
+			};
+
+			if (options.resolve && !resolveAgentBinary()) {
 				setStatus("error");
-				setMessage("You have uncommitted changes. Please commit or stash them before syncing.");
+				setMessage("Claude CLI not found. Install: npm install -g @anthropic-ai/claude-code");
+				return;
+			}
+
+			// A previous sync stopped on conflicts
+			const inProgress = getSyncInProgress(currentRepo);
+			if (inProgress) {
+				if (!options.resolve) {
+					setStatus("error");
+					setMessage(
+						`A ${inProgress} is in progress. Resolve it by hand, or run: santree worktree sync --resolve`,
+					);
+					return;
+				}
+				if (await resolveConflicts()) {
+					setStaleDeps(findStaleDeps(mainRepo, [branchName]));
+					setHookFailures(await runPostSyncHooks(mainRepo, [branchName]));
+					setStatus("done");
+					setMessage(`Resolved conflicts and finished syncing with ${upstream}`);
+				}
+				return;
+			}
+
+			if (!autostash && hasUncommittedChanges()) {
+				setStatus("error");
+				setMessage("You have uncommitted changes. Commit or stash them, or sync with --autostash.");
 				return;
 			}
 
 			// Fetch
 			setStatus("fetching");
-			const fetchResult = await spawnAsync("git", ["fetch", "origin"]);
+			const fetchResult = await spawnAsync("git", ["fetch", remote]);
 			if (fetchResult.code !== 0) {
 				setStatus("error");
 				setMessage("Failed to fetch from remote");
 				return;
 			}
 
+			// Stacked worktrees: sync the whole chain, parents first
+			if (isStacked(mainRepo, branchName)) {
+				setStatus("syncing");
+				const results = await syncStack(branchName, {
+					rebase: usesRebase,
+					autostash,
+					onProgress: setSyncingBranch,
+				});
+				setStackResults(results);
+				setStaleDeps(
+					findStaleDeps(
+						mainRepo,
+						results.filter((r) => r.status !== "skipped").map((r) => r.branch),
+					),
+				);
+				setHookFailures(
+					await runPostSyncHooks(
+						mainRepo,
+						results
+							.filter((r) => r.status === "synced" || r.status === "retargeted")
+							.map((r) => r.branch),
+					),
+				);
+				const failed = results.filter((r) => r.status === "conflict" || r.status === "dirty");
+				const ownConflict = failed.some((r) => r.branch === branchName && r.status === "conflict");
+				if (options.resolve && ownConflict) {
+					if (await resolveConflicts()) {
+						setHookFailures(await runPostSyncHooks(mainRepo, [branchName]));
+						setStatus("done");
+						setMessage(
+							`Resolved conflicts in ${branchName}. Run santree worktree sync again to sync the rest of the stack`,
+						);
+					}
+					return;
+				}
+				if (failed.length > 0) {
+					setStatus("error");
+					setMessage(`Stack sync stopped: ${failed.map((r) => r.branch).join(", ")}`);
+				} else {
+					setStatus("done");
+					setMessage(`Synced stack of ${results.length} worktrees`);
+				}
+				return;
+			}
+
 			// Check behind
-			const behind = getCommitsBehind(base);
+			const behind = getCommitsBehind(base, remote);
 			setCommitsBehind(behind);
 
 			if (behind === 0) {
 				setStatus("up-to-date");
-				setMessage(`Already up to date with origin/${base}`);
+				setMessage(`Already up to date with ${remote}/${base}`);
 				return;
 			}
 
 			// Sync
 			setStatus("syncing");
 			const cmd = usesRebase ? "rebase" : "merge";
-			const syncResult = await spawnAsync("git", [cmd, `origin/${base}`]);
+			const syncResult = await spawnAsync("git", [
+				cmd,
+				...(autostash ? ["--autostash"] : []),
+				`${remote}/${base}`,
+			]);
 
 			if (syncResult.code === 0) {
+				setStaleDeps(findStaleDeps(mainRepo, [branchName]));
+				setHookFailures(await runPostSyncHooks(mainRepo, [branchName]));
 				setStatus("done");
-				setMessage(`Successfully synced with origin/${base}`);
+				setMessage(`Successfully synced with ${remote}/${base}`);
+			} else if (options.resolve && getConflictedFiles(currentRepo).length > 0) {
+				if (await resolveConflicts()) {
+					setStaleDeps(findStaleDeps(mainRepo, [branchName]));
+					setHookFailures(await runPostSyncHooks(mainRepo, [branchName]));
+					setStatus("done");
+					setMessage(`Resolved conflicts and synced with ${remote}/${base}`);
+				}
 			} else {
 				setStatus("error");
 				setMessage(
@@ -110,7 +394,14 @@ export default function Sync({ options }: Props) {
 		}
 
 		run();
-	}, [usesRebase]);
+	}, [usesRebase, autostash]);
+
+	useEffect(() => {
+		if (status === "done" || status === "up-to-date" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
 
 	const isLoading = status === "init" || status === "fetching" || status === "syncing";
 
@@ -165,6 +456,18 @@ export default function Sync({ options }: Props) {
 				</Box>
 			</Box>
 
+			{stackResults && (
+				<Box flexDirection="column" marginTop={1}>
+					{stackResults.map((r) => (
+						<Box key={r.branch} gap={1}>
+							<Text color={stackStatusColor(r.status)}>{stackStatusIcon(r.status)}</Text>
+							<Text bold={r.branch === branch}>{r.branch}</Text>
+							<Text dimColor>{r.message}</Text>
+						</Box>
+					))}
+				</Box>
+			)}
+
 			<Box marginTop={1}>
 				{isLoading && (
 					<Box gap={1}>
@@ -174,8 +477,26 @@ export default function Sync({ options }: Props) {
 						<Text>
 							{status === "init" && "Starting..."}
 							{status === "fetching" && "Fetching from remote..."}
-							{status === "syncing" && (usesRebase ? "Rebasing..." : "Merging...")}
+							{status === "syncing" &&
+								(syncingBranch
+									? `Syncing ${syncingBranch}...`
+									: usesRebase
+										? "Rebasing..."
+										: "Merging...")}
+						</Text>
+					</Box>
+				)}
+				{status === "resolving" && (
+					<Box flexDirection="column">
+						<Text color="yellow">
+							Launching Claude to resolve conflicts in {conflictFiles.length} file(s):
 						</Text>
+						{conflictFiles.map((file) => (
+							<Text key={file} dimColor>
+								{"  "}
+								{file}
+							</Text>
+						))}
 					</Box>
 				)}
 				{(status === "done" || status === "up-to-date") && (
@@ -189,6 +510,186 @@ export default function Sync({ options }: Props) {
 					</Text>
 				)}
 			</Box>
+
+			<HookFailures failures={hookFailures} />
+
+			{staleDeps.length > 0 && (
+				<Box flexDirection="column" marginTop={1}>
+					<Text color="yellow" bold>
+						⚠ Dependencies need a reinstall:
+					</Text>
+					{staleDeps.map((line) => (
+						<Text key={line} color="yellow">
+							{"  "}
+							{line}
+						</Text>
+					))}
+					<Text dimColor> Run in each worktree: santree worktree setup --step deps</Text>
+				</Box>
+			)}
+		</Box>
+	);
+}
+
+const REPORT_GROUPS: { title: string; color: string; statuses: RestackResult["status"][] }[] = [
+	{ title: "Synced", color: "green", statuses: ["synced", "retargeted"] },
+	{ title: "Already up to date", color: "gray", statuses: ["up-to-date", "merged"] },
+	{ title: "Skipped: uncommitted changes", color: "yellow", statuses: ["dirty"] },
+	{ title: "Conflicts (aborted)", color: "red", statuses: ["conflict"] },
+	{ title: "Skipped", color: "yellow", statuses: ["skipped"] },
+];
+
+function SyncAll({ options }: Props) {
+	const [status, setStatus] = useState<"init" | "fetching" | "syncing" | "done" | "error">("init");
+	const [message, setMessage] = useState("");
+	const [results, setResults] = useState<BatchSyncResult[]>([]);
+	const [staleDeps, setStaleDeps] = useState<string[]>([]);
+	const [hookFailures, setHookFailures] = useState<string[]>([]);
+
+	const usesRebase = options.rebase ?? false;
+
+	useEffect(() => {
+		async function run() {
+			await new Promise((r) => setTimeout(r, 100));
+
+			// Conflicting syncs are aborted, so there is nothing left to resolve
+			if (options.resolve) {
+				setStatus("error");
+				setMessage(
+					"--resolve can't be combined with --all. Run santree worktree sync --resolve in a worktree that hit conflicts",
+				);
+				return;
+			}
+
+			const mainRepo = findMainRepoRoot();
+			if (!mainRepo) {
+				setStatus("error");
+				setMessage("Not inside a git repository");
+				return;
+			}
+
+			// Fetch once for every worktree, from each base remote in use
+			setStatus("fetching");
+			const remotes = new Set([
+				getBaseRemote(null, mainRepo),
+				...listWorktrees()
+					.filter((wt) => wt.branch)
+					.map((wt) => getBaseRemote(wt.branch, mainRepo)),
+			]);
+			const fetchResult = await spawnAsync("git", ["fetch", "--multiple", ...remotes], {
+				cwd: mainRepo,
+			});
+			if (fetchResult.code !== 0) {
+				setStatus("error");
+				setMessage("Failed to fetch from remote");
+				return;
+			}
+
+			setStatus("syncing");
+			const all = await syncAllWorktrees(mainRepo, {
+				rebase: usesRebase,
+				autostash: options.autostash,
+				concurrency: options.jobs,
+				onResult: (r) => setResults((prev) => [...prev, r]),
+			});
+			setResults(all);
+			const synced = all
+				.filter((r) => r.status === "synced" || r.status === "retargeted")
+				.map((r) => r.branch);
+			setStaleDeps(findStaleDeps(mainRepo, synced));
+			setHookFailures(await runPostSyncHooks(mainRepo, synced));
+
+			const conflicts = all.filter((r) => r.status === "conflict").length;
+			if (conflicts > 0) {
+				setStatus("error");
+				setMessage(`${conflicts} of ${all.length} worktree(s) hit conflicts`);
+			} else {
+				setStatus("done");
+				setMessage(`Checked ${all.length} worktree(s)`);
+			}
+		}
+
+		run();
+	}, [usesRebase]);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box flexDirection="column" padding={1} width="100%">
+			<Box marginBottom={1} gap={1}>
+				<Text bold color="cyan">
+					🔄 Sync all
+				</Text>
+				<Text backgroundColor={usesRebase ? "blue" : "magenta"} color="white">
+					{usesRebase ? " rebase " : " merge "}
+				</Text>
+				{options.autostash && <Text dimColor>autostash</Text>}
+			</Box>
+
+			{(status === "done" || status === "error") &&
+				REPORT_GROUPS.map((group) => {
+					const matching = results.filter((r) => group.statuses.includes(r.status));
+					if (matching.length === 0) return null;
+					return (
+						<Box key={group.title} flexDirection="column" marginBottom={1}>
+							<Text color={group.color} bold>
+								{group.title} ({matching.length})
+							</Text>
+							{matching.map((r) => (
+								<Box key={r.branch} gap={1}>
+									<Text color={stackStatusColor(r.status)}>{stackStatusIcon(r.status)}</Text>
+									<Text>{r.branch}</Text>
+									<Text dimColor>{r.message}</Text>
+								</Box>
+							))}
+						</Box>
+					);
+				})}
+
+			{(status === "init" || status === "fetching" || status === "syncing") && (
+				<Box gap={1}>
+					<Text color="cyan">
+						<Spinner type="dots" />
+					</Text>
+					<Text>
+						{status === "init" && "Starting..."}
+						{status === "fetching" && "Fetching from remote..."}
+						{status === "syncing" && `Syncing worktrees... (${results.length} done)`}
+					</Text>
+				</Box>
+			)}
+			{status === "done" && (
+				<Text color="green" bold>
+					✓ {message}
+				</Text>
+			)}
+			{status === "error" && (
+				<Text color="red" bold>
+					✗ {message}
+				</Text>
+			)}
+
+			<HookFailures failures={hookFailures} />
+
+			{staleDeps.length > 0 && (
+				<Box flexDirection="column" marginTop={1}>
+					<Text color="yellow" bold>
+						⚠ Dependencies need a reinstall:
+					</Text>
+					{staleDeps.map((line) => (
+						<Text key={line} color="yellow">
+							{"  "}
+							{line}
+						</Text>
+					))}
+					<Text dimColor> Run in each worktree: santree worktree setup --step deps</Text>
+				</Box>
+			)}
 		</Box>
 	);
 }
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Text, Box } from "ink";
+import { z } from "zod";
+import { findMainRepoRoot, getCurrentBranch, isInWorktree, unlockWorktree } from "../../lib/git.js";
+
+export const description = "Unlock a locked worktree";
+
+export const args = z.tuple([
+	z.string().optional().describe("Branch name (defaults to the current worktree)"),
+]);
+
+type Props = {
+	args: z.infer<typeof args>;
+};
+
+type Status = "unlocking" | "done" | "error";
+
+export default function Unlock({ args }: Props) {
+	const [status, setStatus] = useState<Status>("unlocking");
+	const [message, setMessage] = useState("");
+
+	useEffect(() => {
+		const root = findMainRepoRoot();
+		if (!root) {
+			setStatus("error");
+			setMessage("Not inside a git repository");
+			return;
+		}
+
+		const branch = args[0] ?? (isInWorktree() ? getCurrentBranch() : null);
+		if (!branch) {
+			setStatus("error");
+			setMessage("Branch name is required outside a worktree");
+			return;
+		}
+
+		const result = unlockWorktree(branch, root);
+		if (result.success) {
+			setStatus("done");
+			setMessage(`Unlocked ${branch}`);
+		} else {
+			setStatus("error");
+			setMessage(result.error ?? "Unknown error");
+		}
+	}, []);
+
+	useEffect(() => {
+		if (status === "done" || status === "error") {
+			const timer = setTimeout(() => process.exit(status === "error" ? 1 : 0), 100);
+			return () => clearTimeout(timer);
+		}
+	}, [status]);
+
+	return (
+		<Box padding={1}>
+			{status === "done" && (
+				<Text color="green" bold>
+					🔓 {message}
+				</Text>
+			)}
+			{status === "error" && (
+				<Text color="red" bold>
+					✗ {message}
+				</Text>
+			)}
+		</Box>
+	);
+}
@@ -4,13 +4,16 @@ import Spinner from "ink-spinner";
 import { z } from "zod";
 import {
 	resolveAIContext,
+	resolveRepoContext,
 	renderAIPrompt,
 	launchAgent,
 	cleanupImages,
 	type AIContext,
+	type RepoContext,
 } from "../../lib/ai.js";
 import { randomUUID } from "crypto";
-import { getSessionId, setSessionId } from "../../lib/git.js";
+import { getWorktreeKey } from "../../lib/git.js";
+import { getSessionId, setSessionId } from "../../lib/metadata.js";
 
 export const description = "Launch Claude to work on current ticket";
 
@@ -41,6 +44,7 @@ export default function Work({ options }: Props) {
 	const [error, setError] = useState<string | null>(null);
 	const [mode] = useState<Mode>(options.plan ? "plan" : "implement");
 	const [aiContext, setAiContext] = useState<AIContext | null>(null);
+	const [repoContext, setRepoContext] = useState<RepoContext | null>(null);
 	useEffect(() => {
 		async function init() {
 			// Small delay to allow spinner to render
@@ -58,6 +62,8 @@ export default function Work({ options }: Props) {
 			const ctx = result.context;
 			setBranch(ctx.branch);
 			setTicketId(ctx.ticketId);
+			// Tickets spanning several registered repos get one agent for all their worktrees
+			setRepoContext(await resolveRepoContext(ctx));
 			setAiContext(ctx);
 			setStatus("ready");
 		}
@@ -70,39 +76,51 @@ export default function Work({ options }: Props) {
 
 		setStatus("launching");
 
-		const prompt = renderAIPrompt("work", aiContext, { mode });
-
-		// Get or create a session ID for this ticket
-		let sessionId: string | undefined;
-		let isResume = false;
-		if (aiContext.ticketId) {
-			const existing = getSessionId(aiContext.mainRoot, aiContext.ticketId);
-			if (existing) {
-				sessionId = existing;
-				isResume = true;
-			} else {
-				sessionId = randomUUID();
-				setSessionId(aiContext.mainRoot, aiContext.ticketId, sessionId);
-			}
+		const prompt = renderAIPrompt("work", aiContext, {
+			mode,
+			repo_worktrees: repoContext?.worktrees
+				.map((wt) => `- ${wt.repo.name}: \`${wt.path}\` (branch \`${wt.branch}\`)`)
+				.join("\n"),
+			repo_diff: repoContext?.diff,
+		});
+
+		// Get or create a session ID for this worktree
+		const key = getWorktreeKey(aiContext.branch);
+		let sessionId = getSessionId(aiContext.mainRoot, key) ?? undefined;
+		const isResume = Boolean(sessionId);
+		if (!sessionId) {
+			sessionId = randomUUID();
+			setSessionId(aiContext.mainRoot, key, sessionId);
 		}
 
 		try {
-			const child = launchAgent(prompt, { planMode: mode === "plan", sessionId, resume: isResume });
+			const child = launchAgent(prompt, {
+				planMode: mode === "plan",
+				sessionId,
+				resume: isResume,
+				addDirs: repoContext?.worktrees.slice(1).map((wt) => wt.path),
+			});
 
 			child.on("error", (err) => {
+				// close follows right away and exits with this code
+				process.exitCode = 1;
 				setStatus("error");
 				setError(`Failed to launch agent: ${err.message}`);
 			});
 
 			child.on("close", () => {
 				if (aiContext.ticketId) cleanupImages(aiContext.ticketId);
-				process.exit(0);
+				process.exit();
 			});
 		} catch (err) {
 			setStatus("error");
 			setError(err instanceof Error ? err.message : "Failed to launch agent");
 		}
-	}, [status, aiContext, mode]);
+	}, [status, aiContext, repoContext, mode]);
+
+	useEffect(() => {
+		if (status === "error") process.exitCode = 1;
+	}, [status]);
 
 	return (
 		<Box flexDirection="column" padding={1} width="100%">
@@ -137,6 +155,15 @@ export default function Work({ options }: Props) {
 					</Box>
 				)}
 
+				{repoContext && (
+					<Box gap={1}>
+						<Text dimColor>repos:</Text>
+						<Text color="magenta">
+							{repoContext.worktrees.map((wt) => wt.repo.name).join(", ")}
+						</Text>
+					</Box>
+				)}
+
 				<Box gap={1}>
 					<Text dimColor>mode:</Text>
 					<Text backgroundColor={getModeColor(mode) as any} color="white" bold>
@@ -170,8 +197,12 @@ export default function Work({ options }: Props) {
 						<Text dimColor>
 							{" "}
 							claude
-							{mode === "plan" ? " --permission-mode plan" : ""}{" "}
-							{`"<${getModeLabel(mode)} prompt for ${ticketId}>"`}
+							{mode === "plan" ? " --permission-mode plan" : ""}
+							{repoContext?.worktrees
+								.slice(1)
+								.map((wt) => ` --add-dir ${wt.path}`)
+								.join("")}{" "}
+							{`"<${getModeLabel(mode)} prompt for ${ticketId ?? branch}>"`}
 						</Text>
 					</Box>
 				)}
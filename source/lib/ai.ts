@@ -1,6 +1,6 @@
-import { execSync, spawn, spawnSync, type ChildProcess } from "child_process";
+import { spawn, spawnSync, type ChildProcess } from "child_process";
 import { writeFileSync } from "fs";
-import { join } from "path";
+import { join, basename } from "path";
 import { tmpdir } from "os";
 import {
 	getCurrentBranch,
@@ -8,7 +8,9 @@ import {
 	findRepoRoot,
 	findMainRepoRoot,
 	getBaseBranch,
+	getWorktreeKey,
 } from "./git.js";
+import { getWorktreeEntry, type SparseCheckout } from "./metadata.js";
 import { renderPrompt, renderTicket, renderDiff, renderPR } from "./prompts.js";
 import { getTicketContent, cleanupImages, type LinearIssue } from "./linear.js";
 import {
@@ -19,7 +21,8 @@ import {
 	getPRConversationCommentsAsync,
 	getFailedCheckDetailsAsync,
 } from "./github.js";
-import { runAsync } from "./exec.js";
+import { findTicketWorktrees, findRegisteredRepo, type RepoWorktree } from "./repos.js";
+import { gitAsync, commandOutput, commandExists } from "./exec.js";
 
 export interface AIContext {
 	repoRoot: string;
@@ -27,40 +30,37 @@ export interface AIContext {
 	branch: string;
 	ticketId: string | null;
 	ticket: LinearIssue | null;
+	/** What a sparse worktree checks out, null for a full checkout */
+	sparse: SparseCheckout | null;
 }
 
 /**
  * Resolves repo, branch, ticket ID, and fetches the Linear ticket.
- * Returns an error string if any required context is missing.
+ * Branches without a ticket ID resolve with `ticketId` and `ticket` set to null.
+ * `branch` overrides the checked-out branch (e.g. while HEAD is detached mid-rebase).
+ * Returns an error string if the repo or branch can't be determined.
  */
-export async function resolveAIContext(): Promise<
-	{ ok: true; context: AIContext } | { ok: false; error: string }
-> {
+export async function resolveAIContext(opts?: {
+	branch?: string;
+}): Promise<{ ok: true; context: AIContext } | { ok: false; error: string }> {
 	const repoRoot = findRepoRoot();
 	if (!repoRoot) {
 		return { ok: false, error: "Not inside a git repository" };
 	}
 
-	const branch = getCurrentBranch();
+	const branch = opts?.branch ?? getCurrentBranch();
 	if (!branch) {
 		return { ok: false, error: "Could not determine current branch" };
 	}
 
 	const ticketId = extractTicketId(branch);
-	if (!ticketId) {
-		return {
-			ok: false,
-			error:
-				"Could not extract ticket ID from branch name. Expected format: user/TEAM-123-description",
-		};
-	}
-
 	const mainRoot = findMainRepoRoot() ?? repoRoot;
-	const ticket = await getTicketContent(ticketId, mainRoot);
+	const ticket = ticketId ? await getTicketContent(ticketId, mainRoot) : null;
+	const sparse = getWorktreeEntry(mainRoot, getWorktreeKey(branch))?.sparse ?? null;
 
 	return {
 		ok: true,
-		context: { repoRoot, mainRoot, branch, ticketId, ticket },
+		context: { repoRoot, mainRoot, branch, ticketId, ticket, sparse },
 	};
 }
 
@@ -73,7 +73,10 @@ export function buildPromptContext(
 ): Record<string, string | undefined> {
 	return {
 		ticket_id: ctx.ticketId ?? undefined,
+		branch_name: ctx.branch,
 		ticket_content: ctx.ticket ? renderTicket(ctx.ticket) : undefined,
+		sparse_profiles: ctx.sparse?.profiles.join(", ") || undefined,
+		sparse_paths: ctx.sparse ? ctx.sparse.paths.map((p) => `- \`${p}\``).join("\n") : undefined,
 		...extra,
 	};
 }
@@ -136,18 +139,21 @@ export async function fetchAndRenderPR(branch: string): Promise<string | null> {
 
 /**
  * Fetch and render diff for a branch against its base branch (async, non-blocking).
+ * Diffs the current worktree, or `worktree` (of any registered repo) when given.
  * Returns rendered markdown.
  */
-export async function fetchAndRenderDiff(branch: string): Promise<string> {
-	const baseBranch = getBaseBranch(branch);
-	const [commitLog, diffStat, diff] = await Promise.all([
-		runAsync(`git log ${baseBranch}..HEAD --format="- %s"`).then((v) => v || null),
-		runAsync(`git diff ${baseBranch}..HEAD --stat`).then((v) => v || null),
-		runAsync(`git diff ${baseBranch}..HEAD`, { maxBuffer: 10 * 1024 * 1024 }).then(
-			(v) => v || null,
-		),
-	]);
+export async function fetchAndRenderDiff(branch: string, worktree?: RepoWorktree): Promise<string> {
+	const baseBranch = getBaseBranch(branch, worktree?.repo.path);
+	const range = `${baseBranch}..HEAD`;
+	const [commitLog, diffStat, diff] = await Promise.all(
+		[
+			["log", range, "--format=- %s"],
+			["diff", range, "--stat"],
+			["diff", range],
+		].map(async (args) => commandOutput(await gitAsync(args, { cwd: worktree?.path })) || null),
+	);
 	return renderDiff({
+		repo: worktree?.repo.name,
 		base_branch: baseBranch,
 		commit_log: commitLog,
 		diff_stat: diffStat,
@@ -155,17 +161,38 @@ export async function fetchAndRenderDiff(branch: string): Promise<string> {
 	});
 }
 
+export interface RepoContext {
+	/** The ticket's worktrees in every registered repo, the current one first */
+	worktrees: RepoWorktree[];
+	/** Rendered diff of each of them against its base branch */
+	diff: string;
+}
+
+/**
+ * For a ticket that also has worktrees in other registered repos (see repos.ts), list all of
+ * its worktrees and render their combined diff. Returns null when it has none elsewhere.
+ */
+export async function resolveRepoContext(ctx: AIContext): Promise<RepoContext | null> {
+	if (!ctx.ticketId) return null;
+	const others = findTicketWorktrees(ctx.ticketId, { exclude: ctx.mainRoot });
+	if (others.length === 0) return null;
+
+	const current: RepoWorktree = {
+		repo: findRegisteredRepo(ctx.mainRoot) ?? { name: basename(ctx.mainRoot), path: ctx.mainRoot },
+		path: ctx.repoRoot,
+		branch: ctx.branch,
+	};
+	const worktrees = [current, ...others];
+	const diffs = await Promise.all(worktrees.map((wt) => fetchAndRenderDiff(wt.branch, wt)));
+	return { worktrees, diff: diffs.join("\n") };
+}
+
 /**
  * Check if claude CLI is available on PATH.
  * Returns "claude" or null if not installed.
  */
 export function resolveAgentBinary(): string | null {
-	try {
-		execSync("which claude", { stdio: "ignore" });
-		return "claude";
-	} catch {
-		return null;
-	}
+	return commandExists("claude") ? "claude" : null;
 }
 
 // Conservative limit: 200KB leaves room for env vars within macOS 256KB ARG_MAX
@@ -188,11 +215,13 @@ function promptArg(prompt: string): string {
 /**
  * Launch an interactive agent session with a prompt.
  * Passes prompt directly or via temp file if too large for OS arg limit.
+ * `addDirs` gives the agent access to directories outside the current one (e.g. worktrees
+ * of other repos).
  * Throws if claude CLI is not found.
  */
 export function launchAgent(
 	prompt: string,
-	opts?: { planMode?: boolean; sessionId?: string; resume?: boolean },
+	opts?: { planMode?: boolean; sessionId?: string; resume?: boolean; addDirs?: string[] },
 ): ChildProcess {
 	const bin = resolveAgentBinary();
 	if (!bin) {
@@ -213,6 +242,10 @@ export function launchAgent(
 		}
 	}
 
+	for (const dir of opts?.addDirs ?? []) {
+		args.push("--add-dir", dir);
+	}
+
 	args.push("--", promptArg(prompt));
 
 	return spawn(bin, args, { stdio: "inherit" });
@@ -0,0 +1,244 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import {
+	getSantreeDir,
+	findWorktree,
+	getWorktreePath,
+	getWorktreeKey,
+	getDefaultBranch,
+	getBranchHead,
+	getWorktreeLock,
+	describeLock,
+	createWorktree,
+	removeWorktreeCheckout,
+} from "./git.js";
+import {
+	getWorktreeEntry,
+	updateMetadata,
+	removeWorktreeEntry,
+	type WorktreeMetadata,
+} from "./metadata.js";
+import { withAvailablePorts } from "./ports.js";
+import { git, gitAsync, commandOutput, commandError } from "./exec.js";
+
+// Archiving parks a worktree without losing anything santree can't recreate:
+// uncommitted and untracked changes are stashed and the stash commit is kept in
+// refs/santree/archive/<key>; the worktree's metadata entry (session ID, base branch, ...)
+// moves into a manifest at .santree/archive/<key>.json; the checkout is removed, the branch kept.
+// Ignored files (.env, node_modules) are not archived — setup recreates them on restore.
+
+const archiveManifestSchema = z.looseObject({
+	branch: z.string(),
+	/** Commit the branch pointed at when archived */
+	head: z.string(),
+	/** Stash commit holding uncommitted and untracked changes, null if the worktree was clean */
+	snapshot: z.string().nullable(),
+	archived_at: z.string(),
+	note: z.string().optional(),
+	/** The worktree's metadata entry at the time it was archived */
+	metadata: z.record(z.string(), z.unknown()),
+});
+
+export type ArchiveManifest = z.infer<typeof archiveManifestSchema>;
+
+/**
+ * Get the directory archive manifests are stored in: .santree/archive in the repo root.
+ */
+export function getArchiveDir(repoRoot: string): string {
+	return path.join(getSantreeDir(repoRoot), "archive");
+}
+
+function getManifestPath(repoRoot: string, key: string): string {
+	return path.join(getArchiveDir(repoRoot), `${key}.json`);
+}
+
+function getArchiveRef(key: string): string {
+	return `refs/santree/archive/${key}`;
+}
+
+function readManifest(filePath: string): ArchiveManifest | null {
+	try {
+		const result = archiveManifestSchema.safeParse(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+		return result.success ? result.data : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Get the archive for a branch, or null if it isn't archived. Archives are stored by worktree
+ * key, so a ticket ID finds the archive of the branch that has it.
+ */
+export function getArchive(repoRoot: string, branch: string): ArchiveManifest | null {
+	return readManifest(getManifestPath(repoRoot, getWorktreeKey(branch, repoRoot)));
+}
+
+/**
+ * List all archived worktrees, most recently archived first.
+ */
+export function listArchives(repoRoot: string): ArchiveManifest[] {
+	const dir = getArchiveDir(repoRoot);
+	if (!fs.existsSync(dir)) return [];
+	return fs
+		.readdirSync(dir)
+		.filter((f) => f.endsWith(".json"))
+		.map((f) => readManifest(path.join(dir, f)))
+		.filter((m): m is ArchiveManifest => m !== null)
+		.sort((a, b) => b.archived_at.localeCompare(a.archived_at));
+}
+
+/**
+ * Archive a worktree: stash its changes (including untracked files), move its metadata into a
+ * manifest, and remove the checkout. The branch is kept.
+ * Runs: `git stash push --include-untracked` + `git update-ref refs/santree/archive/<key>`
+ *   + `git stash drop` + `git worktree remove --force <path>`
+ */
+export async function archiveWorktree(
+	branchName: string,
+	repoRoot: string,
+	note?: string,
+): Promise<{ success: boolean; error?: string; manifest?: ArchiveManifest }> {
+	const worktree = findWorktree(branchName, repoRoot);
+	if (!worktree?.branch) {
+		return { success: false, error: `Worktree not found: ${branchName}` };
+	}
+	// The branch that's checked out, e.g. TEAM-2-bar when given TEAM-2
+	const { branch, path: worktreePath } = worktree;
+
+	const key = getWorktreeKey(branch, repoRoot);
+	if (getArchive(repoRoot, branch)) {
+		return { success: false, error: `${branch} is already archived` };
+	}
+
+	const lock = getWorktreeLock(branch, repoRoot);
+	if (lock) {
+		return { success: false, error: describeLock(branch, lock) };
+	}
+
+	const head = commandOutput(git(["rev-parse", "HEAD"], { cwd: worktreePath }));
+	if (!head) {
+		return { success: false, error: `Could not resolve HEAD in ${worktreePath}` };
+	}
+
+	let snapshot: string | null = null;
+	if (commandOutput(git(["status", "--porcelain"], { cwd: worktreePath }))) {
+		const stash = await gitAsync(
+			["stash", "push", "--include-untracked", "-m", `santree archive: ${branch}`],
+			{ cwd: worktreePath },
+		);
+		if (!stash.ok) {
+			return { success: false, error: commandError(stash, "git stash") };
+		}
+		// The stash list is shared by all worktrees, so move ours to a dedicated ref right away
+		snapshot = commandOutput(git(["rev-parse", "stash@{0}"], { cwd: worktreePath }));
+		if (!snapshot) {
+			return { success: false, error: "Could not read the stash that was just created" };
+		}
+		git(["update-ref", getArchiveRef(key), snapshot], { cwd: worktreePath });
+		git(["stash", "drop", "stash@{0}"], { cwd: worktreePath });
+	}
+
+	const manifest: ArchiveManifest = {
+		branch,
+		head,
+		snapshot,
+		archived_at: new Date().toISOString(),
+		...(note ? { note } : {}),
+		metadata: getWorktreeEntry(repoRoot, key) ?? {},
+	};
+	fs.mkdirSync(getArchiveDir(repoRoot), { recursive: true });
+	fs.writeFileSync(getManifestPath(repoRoot, key), JSON.stringify(manifest, null, 2) + "\n");
+
+	const removed = await removeWorktreeCheckout(worktreePath, repoRoot, true);
+	if (!removed.success) {
+		// Put things back the way they were
+		if (snapshot) {
+			await gitAsync(["stash", "apply", "--index", snapshot], { cwd: worktreePath });
+			git(["update-ref", "-d", getArchiveRef(key)], { cwd: repoRoot });
+		}
+		fs.rmSync(getManifestPath(repoRoot, key), { force: true });
+		return removed;
+	}
+
+	removeWorktreeEntry(repoRoot, key);
+	return { success: true, manifest };
+}
+
+/**
+ * Recreate an archived worktree: check the branch out again (recreating it from the archived
+ * commit if it was deleted), restore its metadata, and re-apply the stashed changes.
+ * Setup steps are left to the caller.
+ * The archived branch is restored, which is the one with the ticket ID when given one.
+ * Returns a warning if the branch moved since archiving or the changes couldn't be re-applied.
+ * Runs: `git worktree add <path> <branch>` + `git stash apply --index <snapshot>`
+ */
+export async function restoreWorktree(
+	branchName: string,
+	repoRoot: string,
+): Promise<{
+	success: boolean;
+	error?: string;
+	branch?: string;
+	path?: string;
+	warning?: string;
+}> {
+	const manifest = getArchive(repoRoot, branchName);
+	if (!manifest) {
+		return { success: false, error: `No archive found for ${branchName}` };
+	}
+	const { branch } = manifest;
+
+	const existing = getWorktreePath(branch, repoRoot);
+	if (existing) {
+		return { success: false, error: `Worktree for ${branch} already exists at ${existing}` };
+	}
+
+	const key = getWorktreeKey(branch, repoRoot);
+	let warning: string | undefined;
+
+	const currentHead = getBranchHead(branch, repoRoot);
+	if (!currentHead) {
+		const recreated = git(["branch", branch, manifest.head], { cwd: repoRoot });
+		if (!recreated.ok) {
+			return { success: false, error: commandError(recreated, "git branch") };
+		}
+	} else if (currentHead !== manifest.head) {
+		warning = `${branch} has moved since it was archived`;
+	}
+
+	const metadata = manifest.metadata as WorktreeMetadata;
+	const created = await createWorktree(
+		branch,
+		metadata.base_branch ?? getDefaultBranch(),
+		repoRoot,
+		{ sparse: metadata.sparse },
+	);
+	if (!created.success || !created.path) {
+		return { success: false, error: created.error ?? "Failed to create worktree" };
+	}
+
+	// Replace whatever createWorktree recorded with the archived entry
+	updateMetadata(repoRoot, (data) => {
+		data.worktrees[key] = withAvailablePorts(data.worktrees, metadata);
+	});
+
+	if (manifest.snapshot) {
+		const applied = await gitAsync(["stash", "apply", "--index", manifest.snapshot], {
+			cwd: created.path,
+		});
+		if (!applied.ok) {
+			fs.rmSync(getManifestPath(repoRoot, key), { force: true });
+			return {
+				success: true,
+				branch,
+				path: created.path,
+				warning: `Could not re-apply archived changes (${commandError(applied, "git stash apply")}). They are kept in ${getArchiveRef(key)}; retry with: git stash apply --index ${manifest.snapshot}`,
+			};
+		}
+		git(["update-ref", "-d", getArchiveRef(key)], { cwd: repoRoot });
+	}
+
+	fs.rmSync(getManifestPath(repoRoot, key), { force: true });
+	return { success: true, branch, path: created.path, warning };
+}
@@ -0,0 +1,212 @@
+import * as fsp from "fs/promises";
+import * as path from "path";
+import {
+	listWorktrees,
+	isWorktreePath,
+	extractTicketId,
+	getWorktreeLock,
+	getPushRemote,
+	type WorktreeLock,
+} from "./git.js";
+import { getPRInfoAsync } from "./github.js";
+import { fetchIssueStates } from "./linear.js";
+import { listScratchWorktrees, type ScratchWorktree } from "./scratch.js";
+import { gitAsync, commandOutput } from "./exec.js";
+
+// `worktree clean` flags worktrees that match ANY of the selected criteria:
+//   merged       - the branch's PR is merged or closed (the default when nothing is selected)
+//   no-pr        - the branch has no PR
+//   older-than   - no commit or file change in the worktree for the given duration
+//   linear-done  - the branch's Linear ticket is completed or canceled
+//   branch-gone  - the branch's upstream was deleted from the remote
+// Scratch worktrees past their expiry are always candidates (see scratch.ts).
+// Each candidate carries the reasons it qualified, shown in the preview before removing.
+
+export interface CleanCriteria {
+	merged?: boolean;
+	noPr?: boolean;
+	/** Minimum idle time in milliseconds */
+	olderThan?: number;
+	linearDone?: boolean;
+	branchGone?: boolean;
+}
+
+export interface CleanCandidate {
+	/** Empty for a scratch worktree */
+	branch: string;
+	path: string;
+	reasons: string[];
+	lock: WorktreeLock | null;
+	scratch?: ScratchWorktree;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration like "12h", "30d" or "2w" into milliseconds.
+ * Returns null if the value isn't a valid duration.
+ */
+export function parseDuration(value: string): number | null {
+	const match = value.trim().match(/^(\d+)([hdw])$/);
+	if (!match) return null;
+	return Number(match[1]) * DURATION_UNITS[match[2]!]!;
+}
+
+/**
+ * Format a duration in milliseconds as a rough age ("5h", "12d").
+ */
+export function formatAge(ms: number): string {
+	const hours = Math.floor(ms / DURATION_UNITS["h"]!);
+	return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * Describe an expiry time relative to now ("expires in 5d", "expired 12h ago").
+ */
+export function formatExpiry(expiresAt: string): string {
+	const left = Date.parse(expiresAt) - Date.now();
+	const age = (ms: number) => (ms < DURATION_UNITS["h"]! ? "<1h" : formatAge(ms));
+	return left > 0 ? `expires in ${age(left)}` : `expired ${age(-left)} ago`;
+}
+
+/**
+ * Get the time of the last activity in a worktree: its last commit, the most recent
+ * modification of an uncommitted or untracked file, or when it was created, whichever is later.
+ * Runs: `git log -1 --format=%ct` + `git status --porcelain -z`
+ * Returns null if none of them can be read.
+ */
+export async function getLastActivity(worktreePath: string): Promise<number | null> {
+	const commitTime = commandOutput(
+		await gitAsync(["log", "-1", "--format=%ct"], { cwd: worktreePath }),
+	);
+	let latest = commitTime ? Number(commitTime) * 1000 : null;
+
+	// The .git file is written when the worktree is added, so a worktree branched off an
+	// old commit isn't idle from the moment it's created
+	const paths = [".git"];
+
+	const status = commandOutput(
+		await gitAsync(["status", "--porcelain", "-z", "--untracked-files=all"], { cwd: worktreePath }),
+	);
+	// Entries are "XY <path>\0", with the original path of a rename in a following \0 field
+	for (const entry of (status ?? "").split("\0")) {
+		if (/^.. /.test(entry)) paths.push(entry.slice(3));
+	}
+	for (const file of paths) {
+		const stat = await fsp.stat(path.join(worktreePath, file)).catch(() => null);
+		if (stat && (latest === null || stat.mtimeMs > latest)) latest = stat.mtimeMs;
+	}
+
+	return latest;
+}
+
+/**
+ * Check whether a branch's upstream no longer exists on the remote.
+ * Only meaningful after `git fetch --prune`; branches that never had an upstream are not "gone".
+ * Runs: `git for-each-ref --format=%(upstream:track) refs/heads/<branch>`
+ */
+async function isBranchGone(branch: string, repoRoot: string): Promise<boolean> {
+	const track = commandOutput(
+		await gitAsync(["for-each-ref", "--format=%(upstream:track)", `refs/heads/${branch}`], {
+			cwd: repoRoot,
+		}),
+	);
+	return track === "[gone]";
+}
+
+/**
+ * Find the worktrees matching any of the given criteria, with the reasons each one qualifies.
+ * The main repo and detached worktrees are never candidates, except expired scratch worktrees.
+ * Runs `git fetch --prune` on the worktrees' push remotes first when checking for deleted
+ * remote branches.
+ * Returns an error if a criterion can't be evaluated (e.g. Linear not authenticated).
+ */
+export async function findCleanCandidates(
+	repoRoot: string,
+	criteria: CleanCriteria,
+): Promise<{ success: boolean; error?: string; candidates?: CleanCandidate[] }> {
+	const worktrees = listWorktrees();
+	const targets = worktrees.filter((wt) => isWorktreePath(wt.path) && wt.branch);
+
+	if (criteria.branchGone) {
+		const remotes = new Set(targets.map((wt) => getPushRemote(wt.branch, repoRoot)));
+		await gitAsync(["fetch", "--prune", "--multiple", ...remotes], { cwd: repoRoot });
+	}
+
+	let ticketStates: Map<string, { name: string; type: string }> | null = null;
+	if (criteria.linearDone) {
+		const ticketIds = targets
+			.map((wt) => extractTicketId(wt.branch!))
+			.filter((id): id is string => id !== null);
+		ticketStates = await fetchIssueStates(ticketIds, repoRoot);
+		if (!ticketStates) {
+			return {
+				success: false,
+				error: "Could not fetch ticket states from Linear. Run: santree linear auth",
+			};
+		}
+	}
+
+	const now = Date.now();
+	const candidates = await Promise.all(
+		targets.map(async (wt): Promise<CleanCandidate> => {
+			const branch = wt.branch!;
+			const reasons: string[] = [];
+
+			if (criteria.merged || criteria.noPr) {
+				const pr = await getPRInfoAsync(branch);
+				if (criteria.merged && pr && (pr.state === "MERGED" || pr.state === "CLOSED")) {
+					reasons.push(`PR #${pr.number} ${pr.state.toLowerCase()}`);
+				}
+				if (criteria.noPr && !pr) reasons.push("no PR");
+			}
+
+			if (criteria.olderThan !== undefined) {
+				const lastActivity = await getLastActivity(wt.path);
+				if (lastActivity !== null && now - lastActivity >= criteria.olderThan) {
+					reasons.push(`idle ${formatAge(now - lastActivity)}`);
+				}
+			}
+
+			if (ticketStates) {
+				const ticketId = extractTicketId(branch);
+				const state = ticketId ? ticketStates.get(ticketId) : undefined;
+				if (state && (state.type === "completed" || state.type === "canceled")) {
+					reasons.push(`${ticketId} ${state.name.toLowerCase()}`);
+				}
+			}
+
+			if (criteria.branchGone && (await isBranchGone(branch, repoRoot))) {
+				reasons.push("remote branch deleted");
+			}
+
+			return {
+				branch,
+				path: wt.path,
+				reasons,
+				lock: getWorktreeLock(branch, repoRoot, worktrees),
+			};
+		}),
+	);
+
+	const expired = listScratchWorktrees(repoRoot)
+		.filter((s) => s.expired)
+		.map(
+			(s): CleanCandidate => ({
+				branch: "",
+				path: s.path,
+				reasons: [`scratch, ${formatExpiry(s.expiresAt!)}`],
+				lock: null,
+				scratch: s,
+			}),
+		);
+
+	return {
+		success: true,
+		candidates: [...candidates.filter((c) => c.reasons.length > 0), ...expired],
+	};
+}
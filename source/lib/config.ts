@@ -0,0 +1,257 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { z } from "zod";
+
+// ── Schema ─────────────────────────────────────────────────────────────
+
+function isValidRegex(pattern: string): boolean {
+	try {
+		new RegExp(pattern);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** Step names santree uses for its own provisioning steps */
+const RESERVED_STEP_NAMES = ["files", "env", "deps", "init.sh"];
+
+const setupStepSchema = z.strictObject({
+	name: z
+		.string()
+		.min(1)
+		.refine((name) => !RESERVED_STEP_NAMES.includes(name), "Step name is reserved"),
+	run: z.string().min(1),
+});
+
+const depsSchema = z.strictObject({
+	/** Dependency directory, e.g. node_modules */
+	dir: z.string().min(1),
+	/** Lockfile whose hash decides whether an existing install can be reused */
+	lockfile: z.string().min(1),
+	/** Command that installs dir from scratch, e.g. `npm ci` */
+	install: z.string().min(1),
+});
+
+const envFileSchema = z.strictObject({
+	/** File written in each new worktree, relative to its root */
+	file: z.string().min(1).default(".env"),
+	/** Variables set in the file; values are nunjucks templates (see provision.ts) */
+	vars: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Invalid variable name"), z.string()),
+});
+
+const portsSchema = z.strictObject({
+	/** First port handed out */
+	start: z.number().int().min(1).max(65535).default(4000),
+	/** Ports per worktree */
+	block: z.number().int().min(1).max(1000).default(10),
+});
+
+const setupSchema = z.strictObject({
+	/** Files or directories copied from the main repo into each new worktree */
+	copy: z.array(z.string().min(1)).default([]),
+	/** Files symlinked from the main repo into each new worktree */
+	symlink: z.array(z.string().min(1)).default([]),
+	/** Directories shared between the main repo and every worktree (created in the main repo if missing) */
+	share: z.array(z.string().min(1)).default([]),
+	/** Env file generated for each new worktree (its own ports, database, compose project) */
+	env: envFileSchema.optional(),
+	/** Dependency directories cloned from a worktree with the same lockfile, or installed */
+	deps: z.array(depsSchema).default([]),
+	/** Ordered shell commands run in the new worktree */
+	steps: z
+		.array(setupStepSchema)
+		.default([])
+		.refine(
+			(steps) => new Set(steps.map((s) => s.name)).size === steps.length,
+			"Step names must be unique",
+		),
+});
+
+const sparseProfileSchema = z.strictObject({
+	/** Directories checked out (cone mode), relative to the repo root */
+	paths: z.array(z.string().min(1)).min(1),
+	/** Linear labels that select this profile when inferring from the ticket */
+	labels: z.array(z.string().min(1)).default([]),
+	/** Linear projects that select this profile when inferring from the ticket */
+	projects: z.array(z.string().min(1)).default([]),
+});
+
+const sparseSchema = z.strictObject({
+	/** Named sets of directories a worktree can check out instead of the whole repo */
+	profiles: z
+		.record(z.string().regex(/^[\w.-]+$/, "Invalid profile name"), sparseProfileSchema)
+		.default({}),
+	/** Pick profiles from the Linear ticket when `worktree create` isn't given `--sparse` */
+	infer: z.boolean().default(false),
+});
+
+/** One shell command or several, run in order */
+const hookCommandsSchema = z.union([z.string().min(1), z.array(z.string().min(1))]);
+
+const hooksSchema = z.strictObject({
+	"pre-create": hookCommandsSchema.optional(),
+	"post-create": hookCommandsSchema.optional(),
+	"pre-remove": hookCommandsSchema.optional(),
+	"post-remove": hookCommandsSchema.optional(),
+	"post-sync": hookCommandsSchema.optional(),
+	"pre-commit-push": hookCommandsSchema.optional(),
+	"post-pr-create": hookCommandsSchema.optional(),
+});
+
+export const configSchema = z.strictObject({
+	remote: z.string().min(1).default("origin"),
+	/** Remote base branches are fetched from and PRs are opened against (default: `remote`) */
+	base_remote: z.string().min(1).optional(),
+	/** Remote branches are pushed to, e.g. your fork (default: `remote`) */
+	push_remote: z.string().min(1).optional(),
+	ticket_pattern: z
+		.string()
+		.refine(isValidRegex, "Invalid regular expression")
+		.default("[a-zA-Z]+-\\d+"),
+	commit_prefix: z.string().default("[{ticket}] "),
+	editor: z.string().min(1).default("code"),
+	worktrees_dir: z.string().min(1).default(".santree/worktrees"),
+	/** How long scratch worktrees are kept before `worktree clean` offers them (e.g. 12h, 7d, 2w) */
+	scratch_expiry: z
+		.string()
+		.regex(/^\d+[hdw]$/, "Expected a duration like 12h, 7d or 2w")
+		.default("7d"),
+	setup: setupSchema.default({ copy: [], symlink: [], share: [], deps: [], steps: [] }),
+	ports: portsSchema.default({ start: 4000, block: 10 }),
+	hooks: hooksSchema.default({}),
+	sparse: sparseSchema.default({ profiles: {}, infer: false }),
+});
+
+export type SantreeConfig = z.infer<typeof configSchema>;
+export type SetupStepConfig = z.infer<typeof setupStepSchema>;
+export type DepsConfig = z.infer<typeof depsSchema>;
+export type EnvFileConfig = z.infer<typeof envFileSchema>;
+export type HookName = keyof z.infer<typeof hooksSchema>;
+export type SparseProfileConfig = z.infer<typeof sparseProfileSchema>;
+
+export interface LoadedConfig {
+	config: SantreeConfig;
+	issues: string[];
+}
+
+// ── Paths ──────────────────────────────────────────────────────────────
+
+const CONFIG_DIR = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+const USER_CONFIG_PATH = path.join(CONFIG_DIR, "santree", "config.json");
+
+/**
+ * Get the path to the user-level config: $XDG_CONFIG_HOME/santree/config.json.
+ */
+export function getUserConfigPath(): string {
+	return USER_CONFIG_PATH;
+}
+
+/**
+ * Get the path to the checked-in repo config: .santree/config.json in the repo root.
+ */
+export function getRepoConfigPath(repoRoot: string): string {
+	return path.join(repoRoot, ".santree", "config.json");
+}
+
+// ── Loading ────────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge two raw config objects. Nested objects are merged key by key,
+ * everything else (including arrays) is replaced by the override.
+ */
+function mergeConfig(
+	base: Record<string, unknown>,
+	override: Record<string, unknown>,
+): Record<string, unknown> {
+	const result: Record<string, unknown> = { ...base };
+	for (const [key, value] of Object.entries(override)) {
+		const existing = result[key];
+		result[key] =
+			isPlainObject(existing) && isPlainObject(value) ? mergeConfig(existing, value) : value;
+	}
+	return result;
+}
+
+/**
+ * Read and validate a single config file.
+ * Returns null if the file doesn't exist. Invalid files yield no data and a list of issues.
+ */
+function readConfigFile(
+	filePath: string,
+): { data: Record<string, unknown>; issues: string[] } | null {
+	if (!fs.existsSync(filePath)) return null;
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+	} catch (e) {
+		const reason = e instanceof Error ? e.message : "could not parse";
+		return { data: {}, issues: [`${filePath}: ${reason}`] };
+	}
+
+	const result = configSchema.safeParse(raw);
+	if (!result.success) {
+		return {
+			data: {},
+			issues: result.error.issues.map((issue) => {
+				const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+				return `${filePath}: ${where}${issue.message}`;
+			}),
+		};
+	}
+
+	return { data: raw as Record<string, unknown>, issues: [] };
+}
+
+/**
+ * Load the effective config for a repo: defaults < user config < repo config.
+ * Files that fail validation are skipped and reported in `issues`.
+ */
+export function loadConfig(repoRoot: string | null): LoadedConfig {
+	const files = [USER_CONFIG_PATH];
+	if (repoRoot) files.push(getRepoConfigPath(repoRoot));
+
+	let merged: Record<string, unknown> = {};
+	const issues: string[] = [];
+	for (const file of files) {
+		const loaded = readConfigFile(file);
+		if (!loaded) continue;
+		issues.push(...loaded.issues);
+		merged = mergeConfig(merged, loaded.data);
+	}
+
+	return { config: configSchema.parse(merged), issues };
+}
+
+const configCache = new Map<string, LoadedConfig>();
+
+/**
+ * Get the effective config for a repo, cached for the lifetime of the process.
+ * Validation issues are ignored here; the CLI entry point reports them before any command runs.
+ */
+export function getConfig(repoRoot: string | null): SantreeConfig {
+	const key = repoRoot ?? "";
+	let loaded = configCache.get(key);
+	if (!loaded) {
+		loaded = loadConfig(repoRoot);
+		configCache.set(key, loaded);
+	}
+	return loaded.config;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+/**
+ * Render the configured commit prefix for a ticket (e.g. "[TEAM-123] ").
+ * Returns an empty string when there is no ticket.
+ */
+export function formatCommitPrefix(config: SantreeConfig, ticketId: string | null): string {
+	if (!ticketId) return "";
+	return config.commit_prefix.replaceAll("{ticket}", ticketId);
+}
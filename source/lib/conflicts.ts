@@ -0,0 +1,182 @@
+import * as fs from "fs";
+import * as path from "path";
+import { git, gitAsync, commandOutput, commandError } from "./exec.js";
+
+// Conflict resolution for `worktree sync --resolve`: find the merge or rebase that stopped
+// on conflicts, describe both sides and the conflict hunks for the agent, then check that
+// no markers are left before continuing it.
+
+export type SyncOperation = "merge" | "rebase";
+
+export interface ConflictSides {
+	/** Commits on the upstream side since the branches diverged */
+	upstreamLog: string;
+	/** The branch's own commits since the branches diverged */
+	branchLog: string;
+}
+
+// `=======` only separates the sides between these two, and on its own underlines a Markdown
+// heading, so it isn't looked for
+const MARKER_RE = /^(<{7}|>{7})(\s|$)/;
+const HUNK_CONTEXT = 3;
+
+function readGitFile(cwd: string, name: string): string | null {
+	const filePath = commandOutput(git(["rev-parse", "--git-path", name], { cwd }));
+	if (!filePath) return null;
+	try {
+		return fs.readFileSync(path.resolve(cwd, filePath), "utf-8").trim();
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Get the merge or rebase in progress in a worktree, or null if there is none.
+ * Runs: `git rev-parse -q --verify MERGE_HEAD` + `git rev-parse --git-path rebase-merge`
+ */
+export function getSyncInProgress(cwd: string): SyncOperation | null {
+	if (git(["rev-parse", "-q", "--verify", "MERGE_HEAD"], { cwd }).ok) return "merge";
+	for (const dir of ["rebase-merge", "rebase-apply"]) {
+		const gitPath = commandOutput(git(["rev-parse", "--git-path", dir], { cwd }));
+		if (gitPath && fs.existsSync(path.resolve(cwd, gitPath))) return "rebase";
+	}
+	return null;
+}
+
+/**
+ * Get the branch being rebased in a worktree (HEAD is detached until the rebase finishes),
+ * or null if no rebase is in progress.
+ */
+export function getRebasingBranch(cwd: string): string | null {
+	const headName =
+		readGitFile(cwd, "rebase-merge/head-name") ?? readGitFile(cwd, "rebase-apply/head-name");
+	return headName?.startsWith("refs/heads/") ? headName.slice("refs/heads/".length) : null;
+}
+
+/**
+ * List the files git still considers unmerged.
+ * Runs: `git diff --name-only --diff-filter=U`
+ */
+export function getConflictedFiles(cwd: string): string[] {
+	const output = commandOutput(git(["diff", "--name-only", "--diff-filter=U"], { cwd }));
+	return output ? output.split("\n").filter(Boolean) : [];
+}
+
+/**
+ * Get the files (of those given) that still contain conflict markers.
+ */
+export function findConflictMarkers(cwd: string, files: string[]): string[] {
+	return files.filter((file) => {
+		try {
+			return fs
+				.readFileSync(path.join(cwd, file), "utf-8")
+				.split("\n")
+				.some((line) => MARKER_RE.test(line));
+		} catch {
+			// Deleted while resolving
+			return false;
+		}
+	});
+}
+
+/**
+ * Describe both sides of the merge or rebase in progress: the upstream's commits and the
+ * branch's own commits since they diverged.
+ * Runs: `git merge-base` + `git log --format=- %h %s <base>..<side>` for each side
+ */
+export async function getConflictSides(
+	cwd: string,
+	operation: SyncOperation,
+): Promise<ConflictSides> {
+	// Merging: HEAD is the branch, MERGE_HEAD the upstream.
+	// Rebasing: HEAD is the upstream plus replayed commits; the branch is the original head.
+	const [branchRef, upstreamRef] =
+		operation === "merge"
+			? ["HEAD", "MERGE_HEAD"]
+			: [
+					readGitFile(cwd, "rebase-merge/orig-head") ??
+						readGitFile(cwd, "rebase-apply/orig-head") ??
+						"ORIG_HEAD",
+					readGitFile(cwd, "rebase-merge/onto") ?? readGitFile(cwd, "rebase-apply/onto") ?? "HEAD",
+				];
+
+	const base = commandOutput(await gitAsync(["merge-base", branchRef, upstreamRef], { cwd }));
+	const log = async (ref: string) =>
+		base
+			? (commandOutput(await gitAsync(["log", "--format=- %h %s", `${base}..${ref}`], { cwd })) ??
+				"")
+			: "";
+
+	const [upstreamLog, branchLog] = await Promise.all([log(upstreamRef), log(branchRef)]);
+	return { upstreamLog, branchLog };
+}
+
+/**
+ * Render the conflict hunks of each file as markdown: every `<<<<<<<`..`>>>>>>>` region with
+ * a few lines of context, prefixed with line numbers.
+ */
+export function renderConflictHunks(cwd: string, files: string[]): string {
+	const sections: string[] = [];
+
+	for (const file of files) {
+		let lines: string[];
+		try {
+			lines = fs.readFileSync(path.join(cwd, file), "utf-8").split("\n");
+		} catch {
+			sections.push(`### ${file}\n\n(deleted on one side)`);
+			continue;
+		}
+
+		const hunks: string[] = [];
+		for (let i = 0; i < lines.length; i++) {
+			if (!lines[i]!.startsWith("<<<<<<<")) continue;
+			let end = i;
+			while (end < lines.length - 1 && !lines[end]!.startsWith(">>>>>>>")) end++;
+			const from = Math.max(0, i - HUNK_CONTEXT);
+			const to = Math.min(lines.length - 1, end + HUNK_CONTEXT);
+			hunks.push(
+				lines
+					.slice(from, to + 1)
+					.map((line, n) => `${String(from + n + 1).padStart(5)}  ${line}`)
+					.join("\n"),
+			);
+			i = end;
+		}
+
+		sections.push(
+			hunks.length > 0
+				? `### ${file}\n\n${hunks.map((h) => "```\n" + h + "\n```").join("\n\n")}`
+				: `### ${file}\n\n(no conflict markers; conflict on the whole file, e.g. modified on one side and deleted on the other)`,
+		);
+	}
+
+	return sections.join("\n\n");
+}
+
+/**
+ * Stage resolved files and continue the merge (commit) or rebase.
+ * Runs: `git add <files>` + `git commit --no-edit` or `git rebase --continue`
+ */
+export async function continueSync(
+	cwd: string,
+	operation: SyncOperation,
+	files: string[],
+): Promise<{ success: boolean; error?: string }> {
+	if (files.length > 0) {
+		// Files removed while resolving are staged as deletions
+		const added = await gitAsync(["add", "-A", "--", ...files], { cwd });
+		if (!added.ok) {
+			return { success: false, error: commandError(added, "git add") };
+		}
+	}
+
+	const result = await gitAsync(
+		operation === "merge" ? ["commit", "--no-edit"] : ["rebase", "--continue"],
+		{ cwd, env: { ...process.env, GIT_EDITOR: "true" } },
+	);
+	if (!result.ok && getConflictedFiles(cwd).length === 0) {
+		return { success: false, error: commandError(result, `git ${operation}`) };
+	}
+	// A rebase may stop again with conflicts in the next commit; the caller checks for that
+	return { success: true };
+}
@@ -1,5 +1,7 @@
 import { Box, Text } from "ink";
 import type { DashboardIssue } from "./types.js";
+import { formatBytes, getReclaimable, type DiskUsage } from "../disk.js";
+import { formatExpiry } from "../clean.js";
 
 interface Props {
 	issue: DashboardIssue | null;
@@ -8,6 +10,7 @@ interface Props {
 	width: number;
 	creatingForTicket: string | null;
 	creationLogs: string;
+	diskUsage?: DiskUsage;
 }
 
 type LineData = { text: string; color?: string; bold?: boolean; dim?: boolean };
@@ -23,6 +26,7 @@ function stateColor(type: string): string {
 		case "backlog":
 			return "gray";
 		case "orphaned":
+		case "scratch":
 			return "gray";
 		default:
 			return "yellow";
@@ -71,6 +75,15 @@ function buildActions(di: DashboardIssue): ActionRow[] {
 	const { worktree, pr, issue } = di;
 	const items: ActionItem[] = [];
 
+	// Scratch worktrees have no branch to work on, commit to or open a PR from
+	if (worktree?.scratch) {
+		items.push({ key: "↵", label: "Switch", color: "cyan" });
+		items.push({ key: "e", label: "Editor", color: "cyan" });
+		items.push({ key: "D", label: "Diff", color: "cyan" });
+		items.push({ key: "d", label: "Remove", color: "red" });
+		return [items];
+	}
+
 	// Work/Resume
 	if (worktree?.sessionId) {
 		items.push({ key: "↵", label: "Resume", color: "cyan" });
@@ -84,6 +97,7 @@ function buildActions(di: DashboardIssue): ActionRow[] {
 	// Editor
 	if (worktree) {
 		items.push({ key: "e", label: "Editor", color: "cyan" });
+		items.push({ key: "D", label: "Diff", color: "cyan" });
 	}
 
 	// Commit
@@ -121,6 +135,7 @@ export default function DetailPanel({
 	width,
 	creatingForTicket,
 	creationLogs,
+	diskUsage,
 }: Props) {
 	// Show creation logs when selected issue is being created
 	if (issue && issue.issue.identifier === creatingForTicket) {
@@ -177,8 +192,21 @@ export default function DetailPanel({
 	lines.push({ text: rule, dim: true });
 	lines.push({ text: "WORKTREE", dim: true });
 	if (worktree) {
-		lines.push({ text: `  ${worktree.branch}` });
-		lines.push({ text: `  ${worktree.path}`, dim: true });
+		if (worktree.scratch) {
+			const { scratch } = worktree;
+			lines.push({ text: `  detached at ${scratch.commit} (from ${scratch.ref ?? "unknown"})` });
+			lines.push({ text: `  ${worktree.path}`, dim: true });
+			if (scratch.expiresAt) {
+				lines.push({
+					text: `  ${formatExpiry(scratch.expiresAt)}`,
+					color: scratch.expired ? "red" : "gray",
+				});
+			}
+			lines.push({ text: "  keep it with: santree worktree promote <branch>", dim: true });
+		} else {
+			lines.push({ text: `  ${worktree.branch}` });
+			lines.push({ text: `  ${worktree.path}`, dim: true });
+		}
 
 		const gs = parseGitStatus(worktree.gitStatus);
 		const statusParts: string[] = [];
@@ -206,6 +234,21 @@ export default function DetailPanel({
 			lines.push({ text: `    +${gs.files.length - maxFiles} more`, dim: true });
 		}
 
+		if (worktree.lock) {
+			lines.push({
+				text: `  🔒 locked${worktree.lock.reason ? `: ${worktree.lock.reason}` : ""}`,
+				color: "yellow",
+			});
+		}
+
+		if (diskUsage) {
+			lines.push({ text: `  disk: ${formatBytes(diskUsage.total)}`, color: "white" });
+			lines.push({
+				text: `    tracked ${formatBytes(diskUsage.tracked)} · ignored ${formatBytes(diskUsage.ignored)} · untracked ${formatBytes(diskUsage.untracked)} · reclaimable ${formatBytes(getReclaimable(diskUsage))}`,
+				dim: true,
+			});
+		}
+
 		if (worktree.sessionId) {
 			lines.push({ text: `  session: ${worktree.sessionId}`, color: "cyan" });
 		} else {
@@ -215,6 +258,23 @@ export default function DetailPanel({
 		lines.push({ text: "  –", dim: true });
 	}
 
+	// ── Other repos ───────────────────────────────────────────────────
+	const { repoWorktrees } = issue;
+	if (repoWorktrees && repoWorktrees.length > 0) {
+		lines.push({ text: rule, dim: true });
+		lines.push({ text: "OTHER REPOS", dim: true });
+		for (const rw of repoWorktrees) {
+			lines.push({ text: `  ${rw.repo}  ${rw.branch}` });
+			lines.push({ text: `    ${rw.path}`, dim: true });
+			const parts = [rw.dirty ? "● dirty" : "✓ clean"];
+			if (rw.commitsAhead > 0) parts.push(`+${rw.commitsAhead} ahead`);
+			parts.push(
+				rw.pr ? `PR #${rw.pr.number} ${rw.pr.state}${rw.pr.isDraft ? " draft" : ""}` : "no PR",
+			);
+			lines.push({ text: `    ${parts.join("  ")}`, color: rw.dirty ? "yellow" : "green" });
+		}
+	}
+
 	// ── Pull Request ──────────────────────────────────────────────────
 	const { checks, reviews } = issue;
 	lines.push({ text: rule, dim: true });
@@ -1,6 +1,7 @@
 import { Box, Text } from "ink";
 import type { PRCheck } from "../github.js";
 import type { ProjectGroup, DashboardIssue } from "./types.js";
+import { formatBytes, type DiskUsage } from "../disk.js";
 
 interface Props {
 	groups: ProjectGroup[];
@@ -11,6 +12,7 @@ interface Props {
 	width: number;
 	creatingForTicket: string | null;
 	deletingForTicket: string | null;
+	diskUsage: Record<string, DiskUsage>;
 }
 
 function stateColor(type: string, name?: string): string {
@@ -26,6 +28,7 @@ function stateColor(type: string, name?: string): string {
 		case "backlog":
 			return "gray";
 		case "orphaned":
+		case "scratch":
 			return "gray";
 		default:
 			return "yellow";
@@ -63,6 +66,16 @@ function prIndicator(pr: DashboardIssue["pr"]): { text: string; color: string }
 	return { text: label, color: "green" };
 }
 
+function sizeIndicator(
+	wt: DashboardIssue["worktree"],
+	diskUsage: Record<string, DiskUsage>,
+): { text: string; color: string } {
+	const usage = wt ? diskUsage[wt.path] : undefined;
+	if (!usage) return { text: "-", color: "gray" };
+	// Highlight worktrees over 1 GB
+	return { text: formatBytes(usage.total), color: usage.total >= 1024 ** 3 ? "yellow" : "white" };
+}
+
 function sessionIndicator(
 	wt: DashboardIssue["worktree"],
 	isCreating: boolean,
@@ -111,17 +124,19 @@ export default function IssueList({
 	width,
 	creatingForTicket,
 	deletingForTicket,
+	diskUsage,
 }: Props) {
 	const rows = buildRows(groups, flatIssues);
 	const listHeight = height - FOOTER_HEIGHT;
 	const visible = rows.slice(scrollOffset, scrollOffset + listHeight);
-	// 2 cursor + 2 dot + 4 priority + 11 id + title + 9 session + 1 space + 6 pr + 1 space + 2 checks
+	// 2 cursor + 2 dot + 4 priority + 11 id + title + 7 size + 9 session + 1 space + 6 pr + 1 space + 2 checks
+	const sizeColWidth = 7;
 	const prColWidth = 6;
 	const checksColWidth = 2;
 	const sessionColWidth = 9;
 	const priorityColWidth = 4;
-	const fixedWidth =
-		2 + 2 + priorityColWidth + 11 + sessionColWidth + 1 + prColWidth + 1 + checksColWidth;
+	const rightColsWidth = sizeColWidth + sessionColWidth + 1 + prColWidth + 1 + checksColWidth;
+	const fixedWidth = 2 + 2 + priorityColWidth + 11 + rightColsWidth;
 	const titleMaxWidth = Math.max(width - fixedWidth, 10);
 	const footerRule = "─".repeat(width);
 
@@ -135,6 +150,7 @@ export default function IssueList({
 						return (
 							<Box key="col-header">
 								<Text dimColor>{"".padEnd(labelPad)}</Text>
+								<Text dimColor>{"size".padStart(sizeColWidth)}</Text>
 								<Text dimColor>{"session".padStart(sessionColWidth)}</Text>
 								<Text dimColor> </Text>
 								<Text dimColor>{"pr".padStart(prColWidth)}</Text>
@@ -173,6 +189,7 @@ export default function IssueList({
 					const isCreating = di.issue.identifier === creatingForTicket;
 					const isDeleting = di.issue.identifier === deletingForTicket;
 					const sess = sessionIndicator(di.worktree, isCreating, isDeleting);
+					const size = sizeIndicator(di.worktree, diskUsage);
 					const ci = checksIndicator(di.checks);
 					const pr = prIndicator(di.pr);
 					const prio = priorityIndicator(di.issue.priority);
@@ -202,6 +219,9 @@ export default function IssueList({
 							<Text backgroundColor={bg} color={selected ? "white" : undefined} bold={selected}>
 								{title.padEnd(titleMaxWidth)}
 							</Text>
+							<Text backgroundColor={bg} color={size.color}>
+								{size.text.padStart(sizeColWidth)}
+							</Text>
 							<Text
 								backgroundColor={bg}
 								color={selected ? (sess.color === "gray" ? "gray" : sess.color) : sess.color}
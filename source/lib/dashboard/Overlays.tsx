@@ -1,7 +1,14 @@
 import { Box, Text } from "ink";
 import Spinner from "ink-spinner";
 import TextInput from "ink-text-input";
-import type { CommitPhase, PrCreatePhase, DashboardAction } from "./types.js";
+import type { WorktreeComparison } from "../diff.js";
+import type {
+	CommitPhase,
+	PrCreatePhase,
+	DiffPhase,
+	DiffTarget,
+	DashboardAction,
+} from "./types.js";
 
 // ── Commit Overlay ───────────────────────────────────────────────────
 
@@ -40,10 +47,12 @@ export function CommitOverlay({
 				<Text dimColor>branch: </Text>
 				<Text>{branch}</Text>
 			</Text>
-			<Text>
-				<Text dimColor>ticket: </Text>
-				<Text>{ticketId}</Text>
-			</Text>
+			{ticketId && (
+				<Text>
+					<Text dimColor>ticket: </Text>
+					<Text>{ticketId}</Text>
+				</Text>
+			)}
 			<Text> </Text>
 			{gitStatus ? (
 				<>
@@ -268,3 +277,128 @@ export function PrCreateOverlay({
 		</Box>
 	);
 }
+
+// ── Diff Overlay ─────────────────────────────────────────────────────
+
+interface DiffOverlayProps {
+	width: number;
+	height: number;
+	branch: string | null;
+	phase: DiffPhase;
+	targets: DiffTarget[];
+	pickIndex: number;
+	uncommitted: boolean;
+	comparison: WorktreeComparison | null;
+	stat: string | null;
+	error: string | null;
+	scrollOffset: number;
+}
+
+export function DiffOverlay({
+	width,
+	height,
+	branch,
+	phase,
+	targets,
+	pickIndex,
+	uncommitted,
+	comparison,
+	stat,
+	error,
+	scrollOffset,
+}: DiffOverlayProps) {
+	// Everything below the header scrolls as one list of lines
+	const body: { text: string; color?: string; dim?: boolean }[] = [];
+	if (phase === "show" && comparison) {
+		body.push({ text: `vs ${comparison.b.branch || comparison.b.label}`, color: "green" });
+		body.push({ text: " " });
+		body.push({ text: `Only in ${comparison.a.label} (${comparison.onlyA.length})`, dim: true });
+		for (const c of comparison.onlyA) body.push({ text: `  ${c}` });
+		body.push({ text: `Only in ${comparison.b.label} (${comparison.onlyB.length})`, dim: true });
+		for (const c of comparison.onlyB) body.push({ text: `  ${c}` });
+		body.push({ text: " " });
+		body.push({ text: `Changed in both (${comparison.overlap.length})`, dim: true });
+		for (const f of comparison.overlap) body.push({ text: `  ${f}`, color: "yellow" });
+		body.push({ text: " " });
+		body.push({ text: "Diff", dim: true });
+		for (const line of (stat || "No differences").split("\n")) body.push({ text: line });
+	}
+
+	return (
+		<Box flexDirection="column" width={width} height={height}>
+			<Text bold color="cyan">
+				Compare Worktrees
+			</Text>
+			<Text dimColor>{"─".repeat(Math.min(width, 50))}</Text>
+			<Text>
+				<Text dimColor>branch: </Text>
+				<Text>{branch}</Text>
+				{uncommitted && <Text dimColor> (with uncommitted changes)</Text>}
+			</Text>
+			<Text> </Text>
+			{phase === "pick" && (
+				<>
+					<Text bold>Compare with:</Text>
+					{targets.length === 0 && <Text dimColor>No other worktrees</Text>}
+					{targets.map((t, i) => (
+						<Text key={t.path} color={i === pickIndex ? "cyan" : undefined} wrap="truncate">
+							{i === pickIndex ? "▸ " : "  "}
+							{t.branch || t.path}
+						</Text>
+					))}
+					<Text> </Text>
+					<Text dimColor>
+						<Text color="cyan" bold>
+							↵
+						</Text>{" "}
+						compare{" "}
+						<Text color="cyan" bold>
+							u
+						</Text>{" "}
+						{uncommitted ? "committed only" : "include uncommitted"} ESC cancel
+					</Text>
+				</>
+			)}
+			{phase === "loading" && (
+				<Text>
+					<Text color="cyan">
+						<Spinner type="dots" />
+					</Text>{" "}
+					Comparing...
+				</Text>
+			)}
+			{phase === "show" && (
+				<>
+					{body.slice(scrollOffset, scrollOffset + height - 6).map((line, i) => (
+						<Text key={i} color={line.color as any} dimColor={line.dim} wrap="truncate">
+							{line.text}
+						</Text>
+					))}
+					<Box flexGrow={1} />
+					<Text dimColor>
+						<Text color="cyan" bold>
+							u
+						</Text>{" "}
+						{uncommitted ? "committed only" : "include uncommitted"}{" "}
+						<Text color="cyan" bold>
+							b
+						</Text>{" "}
+						back ESC close Shift+arrows scroll
+					</Text>
+				</>
+			)}
+			{phase === "error" && (
+				<>
+					<Text color="red">{error}</Text>
+					<Text> </Text>
+					<Text dimColor>
+						<Text color="cyan" bold>
+							b
+						</Text>{" "}
+						back ESC close
+					</Text>
+				</>
+			)}
+		</Box>
+	);
+}
@@ -1,11 +1,15 @@
+import * as fs from "fs";
+import * as path from "path";
 import {
 	listWorktrees,
 	extractTicketId,
+	getWorktreeKey,
 	getBaseBranch,
-	readAllMetadata,
 	getGitStatusAsync,
 	getCommitsAheadAsync,
+	getWorktreeLock,
 } from "../git.js";
+import { readMetadata, getRepoLinearOrg } from "../metadata.js";
 import {
 	getPRInfoAsync,
 	getPRChecksAsync,
@@ -14,30 +18,133 @@ import {
 	type PRReview,
 } from "../github.js";
 import { fetchAssignedIssues } from "../linear.js";
-import type { DashboardIssue, ProjectGroup, StatusGroup } from "./types.js";
+import { getWorktreeDiskUsage, type DiskUsage } from "../disk.js";
+import { listScratchWorktrees, getScratchKey } from "../scratch.js";
+import { listRegisteredRepos, type RegisteredRepo } from "../repos.js";
+import type { DashboardIssue, ProjectGroup, RepoWorktreeInfo, StatusGroup } from "./types.js";
+
+/**
+ * Measure the disk usage of every worktree shown on the dashboard, keyed by worktree path.
+ * Slow on first run, so it's loaded separately from the rest of the dashboard data.
+ */
+export async function loadDiskUsage(
+	repoRoot: string,
+	flatIssues: DashboardIssue[],
+): Promise<Record<string, DiskUsage>> {
+	// Usage is cached per branch, which scratch worktrees don't have
+	const worktrees = flatIssues.flatMap((di) =>
+		di.worktree && !di.worktree.scratch ? [di.worktree] : [],
+	);
+	const usage = await Promise.all(
+		worktrees.map((wt) => getWorktreeDiskUsage(repoRoot, wt.branch, wt.path)),
+	);
+	return Object.fromEntries(worktrees.map((wt, i) => [wt.path, usage[i]!]));
+}
+
+interface OtherRepo {
+	repo: RegisteredRepo;
+	/** Ticket ID -> the repo's worktree for it */
+	worktrees: Map<string, { path: string; branch: string }>;
+}
+
+/**
+ * List the ticket worktrees of the registered repos other than the dashboard's own.
+ * Repos whose checkout has gone missing are skipped.
+ */
+function listOtherRepos(repoRoot: string): OtherRepo[] {
+	const mainRoot = path.resolve(repoRoot);
+	return listRegisteredRepos()
+		.filter((repo) => path.resolve(repo.path) !== mainRoot && fs.existsSync(repo.path))
+		.map((repo) => {
+			const root = path.resolve(repo.path);
+			const worktrees = new Map<string, { path: string; branch: string }>();
+			for (const wt of listWorktrees(root)) {
+				if (!wt.branch || path.resolve(wt.path) === root) continue;
+				const ticketId = extractTicketId(wt.branch, root);
+				if (ticketId) worktrees.set(ticketId, { path: wt.path, branch: wt.branch });
+			}
+			return { repo, worktrees };
+		});
+}
+
+/**
+ * Load the status and PR of a ticket's worktrees in other registered repos.
+ */
+async function loadRepoWorktrees(
+	otherRepos: OtherRepo[],
+	ticketId: string | null,
+): Promise<RepoWorktreeInfo[]> {
+	if (!ticketId) return [];
+	return Promise.all(
+		otherRepos.flatMap(({ repo, worktrees }) => {
+			const wt = worktrees.get(ticketId);
+			if (!wt) return [];
+			return [
+				(async () => {
+					const base = getBaseBranch(wt.branch, repo.path);
+					const [gitStatusOutput, ahead, pr] = await Promise.all([
+						getGitStatusAsync(wt.path),
+						getCommitsAheadAsync(wt.path, base),
+						getPRInfoAsync(wt.branch, repo.path),
+					]);
+					return {
+						repo: repo.name,
+						path: wt.path,
+						branch: wt.branch,
+						dirty: Boolean(gitStatusOutput),
+						commitsAhead: ahead,
+						pr,
+					};
+				})(),
+			];
+		}),
+	);
+}
 
 export async function loadDashboardData(repoRoot: string): Promise<{
 	groups: ProjectGroup[];
 	flatIssues: DashboardIssue[];
 }> {
+	// Registered repos linked to another Linear workspace contribute their issues too
+	const otherRepos = listOtherRepos(repoRoot);
+	const orgs = new Set([getRepoLinearOrg(repoRoot)]);
+	const otherOrgRoots: string[] = [];
+	for (const { repo } of otherRepos) {
+		const org = getRepoLinearOrg(repo.path);
+		if (org && !orgs.has(org)) {
+			orgs.add(org);
+			otherOrgRoots.push(repo.path);
+		}
+	}
+
 	// Fetch issues and worktrees in parallel
-	const [issues, worktrees] = await Promise.all([
+	const [issues, worktrees, otherIssues] = await Promise.all([
 		fetchAssignedIssues(repoRoot),
 		Promise.resolve(listWorktrees()),
+		Promise.all(otherOrgRoots.map((root) => fetchAssignedIssues(root))),
 	]);
 
 	if (!issues) throw new Error("Failed to fetch Linear issues. Check authentication.");
+	const seen = new Set(issues.map((issue) => issue.identifier));
+	for (const issue of otherIssues.flatMap((list) => list ?? [])) {
+		if (seen.has(issue.identifier)) continue;
+		seen.add(issue.identifier);
+		issues.push(issue);
+	}
 
-	// Build worktree map: ticketId -> worktree info
+	// Build worktree map: worktree key (ticket ID or branch slug) -> worktree info
+	const mainRoot = path.resolve(repoRoot);
+	const scratchWorktrees = listScratchWorktrees(repoRoot);
+	const scratchPaths = new Set(scratchWorktrees.map((s) => s.path));
 	const wtMap = new Map<string, { path: string; branch: string }>();
 	for (const wt of worktrees) {
-		if (!wt.branch) continue;
-		const tid = extractTicketId(wt.branch);
-		if (tid) wtMap.set(tid, { path: wt.path, branch: wt.branch });
+		if (!wt.branch || wt.isBare || path.resolve(wt.path) === mainRoot) continue;
+		if (scratchPaths.has(wt.path)) continue;
+		wtMap.set(getWorktreeKey(wt.branch), { path: wt.path, branch: wt.branch });
 	}
 
 	// Read metadata once for session IDs
-	const metadata = readAllMetadata(repoRoot);
+	const metadata = readMetadata(repoRoot).worktrees;
 
 	// Track which ticket IDs are consumed by fetched issues
 	const consumedTicketIds = new Set<string>();
@@ -52,6 +159,7 @@ export async function loadDashboardData(repoRoot: string): Promise<{
 
 			let checksInfo: PRCheck[] | null = null;
 			let reviewsInfo: PRReview[] | null = null;
+			const repoWorktreesLoad = loadRepoWorktrees(otherRepos, issue.identifier);
 
 			if (wt) {
 				const base = getBaseBranch(wt.branch);
@@ -67,6 +175,7 @@ export async function loadDashboardData(repoRoot: string): Promise<{
 					commitsAhead: ahead,
 					sessionId: metadata[issue.identifier]?.session_id ?? null,
 					gitStatus: gitStatusOutput,
+					lock: getWorktreeLock(wt.branch, repoRoot, worktrees),
 				};
 				prInfo = pr;
 
@@ -84,6 +193,7 @@ export async function loadDashboardData(repoRoot: string): Promise<{
 				pr: prInfo,
 				checks: checksInfo,
 				reviews: reviewsInfo,
+				repoWorktrees: await repoWorktreesLoad,
 			};
 		}),
 	);
@@ -92,12 +202,14 @@ export async function loadDashboardData(repoRoot: string): Promise<{
 	const orphans: DashboardIssue[] = await Promise.all(
 		[...wtMap.entries()]
 			.filter(([tid]) => !consumedTicketIds.has(tid))
-			.map(async ([tid, wt]) => {
+			.map(async ([key, wt]) => {
+				const ticketId = extractTicketId(wt.branch);
 				const base = getBaseBranch(wt.branch);
-				const [gitStatusOutput, ahead, pr] = await Promise.all([
+				const [gitStatusOutput, ahead, pr, repoWorktrees] = await Promise.all([
 					getGitStatusAsync(wt.path),
 					getCommitsAheadAsync(wt.path, base),
 					getPRInfoAsync(wt.branch),
+					loadRepoWorktrees(otherRepos, ticketId),
 				]);
 
 				let checksInfo: PRCheck[] | null = null;
@@ -115,17 +227,19 @@ export async function loadDashboardData(repoRoot: string): Promise<{
 						.replace(/^[^/]+\//, "") // strip prefix (e.g. "feature/")
 						.replace(/^[A-Z]+-\d+-?/, "") // strip ticket ID
 						.replace(/-/g, " ")
-						.trim() || tid;
+						.trim() || key;
 
 				return {
 					issue: {
-						identifier: tid,
+						identifier: key,
 						title: titleFromBranch,
 						description: null,
 						url: "",
 						priority: 0,
 						priorityLabel: "None",
-						state: { name: "Orphaned", type: "orphaned" },
+						state: ticketId
+							? { name: "Orphaned", type: "orphaned" }
+							: { name: "No Ticket", type: "orphaned" },
 						labels: [],
 						projectId: null,
 						projectName: null,
@@ -135,12 +249,14 @@ export async function loadDashboardData(repoRoot: string): Promise<{
 						branch: wt.branch,
 						dirty: Boolean(gitStatusOutput),
 						commitsAhead: ahead,
-						sessionId: metadata[tid]?.session_id ?? null,
+						sessionId: metadata[key]?.session_id ?? null,
 						gitStatus: gitStatusOutput,
+						lock: getWorktreeLock(wt.branch, repoRoot, worktrees),
 					},
 					pr,
 					checks: checksInfo,
 					reviews: reviewsInfo,
+					repoWorktrees,
 				};
 			}),
 	);
@@ -191,18 +307,75 @@ export async function loadDashboardData(repoRoot: string): Promise<{
 		};
 	});
 
-	// Append orphaned worktrees as a separate group at the bottom
+	// Append orphaned and ticketless worktrees as a separate group at the bottom
 	if (orphans.length > 0) {
+		const orphanStatusMap = new Map<string, StatusGroup>();
+		for (const di of orphans) {
+			const statusName = di.issue.state.name;
+			const existing = orphanStatusMap.get(statusName);
+			if (existing) {
+				existing.issues.push(di);
+			} else {
+				orphanStatusMap.set(statusName, { name: statusName, type: "orphaned", issues: [di] });
+			}
+		}
 		groups.push({
 			name: "Orphaned Worktrees",
 			id: null,
-			statusGroups: [
-				{
-					name: "Orphaned",
-					type: "orphaned",
-					issues: orphans,
+			statusGroups: [...orphanStatusMap.values()],
+		});
+	}
+
+	// Scratch worktrees last, in a group of their own
+	const scratches = await Promise.all(
+		scratchWorktrees.map(async (s): Promise<DashboardIssue> => {
+			const gitStatusOutput = await getGitStatusAsync(s.path);
+			return {
+				issue: {
+					identifier: s.name,
+					title: `Scratch of ${s.ref ?? s.commit}`,
+					description: null,
+					url: "",
+					priority: 0,
+					priorityLabel: "None",
+					state: s.expired
+						? { name: "Expired", type: "scratch" }
+						: { name: "Scratch", type: "scratch" },
+					labels: [],
+					projectId: null,
+					projectName: null,
+				},
+				worktree: {
+					path: s.path,
+					branch: "",
+					dirty: Boolean(gitStatusOutput),
+					commitsAhead: 0,
+					sessionId: metadata[getScratchKey(s.name)]?.session_id ?? null,
+					gitStatus: gitStatusOutput,
+					lock: null,
+					scratch: s,
 				},
-			],
+				pr: null,
+				checks: null,
+				reviews: null,
+			};
+		}),
+	);
+	if (scratches.length > 0) {
+		const scratchStatusMap = new Map<string, StatusGroup>();
+		for (const di of scratches) {
+			const statusName = di.issue.state.name;
+			const existing = scratchStatusMap.get(statusName);
+			if (existing) {
+				existing.issues.push(di);
+			} else {
+				scratchStatusMap.set(statusName, { name: statusName, type: "scratch", issues: [di] });
+			}
+		}
+		groups.push({
+			name: "Scratch Worktrees",
+			id: null,
+			statusGroups: [...scratchStatusMap.values()],
 		});
 	}
 
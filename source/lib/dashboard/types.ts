@@ -1,4 +1,8 @@
 import type { PRInfo, PRCheck, PRReview } from "../github.js";
+import type { WorktreeLock } from "../git.js";
+import type { DiskUsage } from "../disk.js";
+import type { WorktreeComparison } from "../diff.js";
+import type { ScratchWorktree } from "../scratch.js";
 
 export interface LinearAssignedIssue {
 	identifier: string;
@@ -20,6 +24,19 @@ export interface WorktreeInfo {
 	commitsAhead: number;
 	sessionId: string | null;
 	gitStatus: string;
+	lock: WorktreeLock | null;
+	/** Set for scratch worktrees, which have no branch */
+	scratch?: ScratchWorktree;
+}
+
+/** The issue's worktree in another registered repo (see repos.ts) */
+export interface RepoWorktreeInfo {
+	repo: string;
+	path: string;
+	branch: string;
+	dirty: boolean;
+	commitsAhead: number;
+	pr: PRInfo | null;
 }
 
 export interface DashboardIssue {
@@ -28,6 +45,8 @@ export interface DashboardIssue {
 	pr: PRInfo | null;
 	checks: PRCheck[] | null;
 	reviews: PRReview[] | null;
+	/** Worktrees of the same ticket in other registered repos */
+	repoWorktrees?: RepoWorktreeInfo[];
 }
 
 export interface StatusGroup {
@@ -48,6 +67,7 @@ export type ActionOverlay =
 	| "confirm-setup"
 	| "commit"
 	| "pr-create"
+	| "diff"
 	| null;
 
 export type CommitPhase =
@@ -69,6 +89,14 @@ export type PrCreatePhase =
 	| "done"
 	| "error";
 
+export type DiffPhase = "idle" | "pick" | "loading" | "show" | "error";
+
+/** A worktree the selected one can be compared with */
+export interface DiffTarget {
+	branch: string;
+	path: string;
+}
+
 export interface DashboardState {
 	groups: ProjectGroup[];
 	flatIssues: DashboardIssue[];
@@ -100,6 +128,17 @@ export interface DashboardState {
 	prCreateBody: string | null;
 	prCreateTitle: string | null;
 	setupMode: "plan" | "implement" | null;
+	diffPhase: DiffPhase;
+	diffBranch: string | null;
+	diffPath: string | null;
+	diffTargets: DiffTarget[];
+	diffPickIndex: number;
+	diffUncommitted: boolean;
+	diffComparison: WorktreeComparison | null;
+	diffStat: string | null;
+	diffError: string | null;
+	/** Disk usage by worktree path, filled in after the rest of the data */
+	diskUsage: Record<string, DiskUsage>;
 }
 
 export type DashboardAction =
@@ -121,7 +160,7 @@ export type DashboardAction =
 	| { type: "DELETE_DONE" }
 	| {
 			type: "COMMIT_START";
-			ticketId: string;
+			ticketId: string | null;
 			worktreePath: string;
 			branch: string;
 			gitStatus: string;
@@ -138,7 +177,16 @@ export type DashboardAction =
 	| { type: "PR_CREATE_DONE"; url: string }
 	| { type: "PR_CREATE_CANCEL" }
 	| { type: "SETUP_CONFIRM_SHOW"; mode: "plan" | "implement" }
-	| { type: "SETUP_CONFIRM_DONE" };
+	| { type: "SETUP_CONFIRM_DONE" }
+	| { type: "DIFF_START"; branch: string; path: string; targets: DiffTarget[] }
+	| { type: "DIFF_PICK"; index: number }
+	| { type: "DIFF_TOGGLE_UNCOMMITTED" }
+	| { type: "DIFF_LOADING" }
+	| { type: "DIFF_RESULT"; comparison: WorktreeComparison; stat: string }
+	| { type: "DIFF_ERROR"; error: string }
+	| { type: "DIFF_BACK" }
+	| { type: "DIFF_CANCEL" }
+	| { type: "SET_DISK_USAGE"; usage: Record<string, DiskUsage> };
 
 // ── State management ──────────────────────────────────────────────────
 
@@ -173,6 +221,16 @@ export const initialState: DashboardState = {
 	prCreateBody: null,
 	prCreateTitle: null,
 	setupMode: null,
+	diffPhase: "idle",
+	diffBranch: null,
+	diffPath: null,
+	diffTargets: [],
+	diffPickIndex: 0,
+	diffUncommitted: false,
+	diffComparison: null,
+	diffStat: null,
+	diffError: null,
+	diskUsage: {},
 };
 
 export function reducer(state: DashboardState, action: DashboardAction): DashboardState {
@@ -319,6 +377,52 @@ export function reducer(state: DashboardState, action: DashboardAction): Dashboa
 				overlay: null,
 				setupMode: null,
 			};
+		case "DIFF_START":
+			return {
+				...state,
+				overlay: "diff",
+				diffPhase: "pick",
+				diffBranch: action.branch,
+				diffPath: action.path,
+				diffTargets: action.targets,
+				diffPickIndex: 0,
+				diffComparison: null,
+				diffStat: null,
+				diffError: null,
+			};
+		case "DIFF_PICK":
+			return { ...state, diffPickIndex: action.index };
+		case "DIFF_TOGGLE_UNCOMMITTED":
+			return { ...state, diffUncommitted: !state.diffUncommitted };
+		case "DIFF_LOADING":
+			return { ...state, diffPhase: "loading", diffError: null };
+		case "DIFF_RESULT":
+			return {
+				...state,
+				diffPhase: "show",
+				diffComparison: action.comparison,
+				diffStat: action.stat,
+				detailScrollOffset: 0,
+			};
+		case "DIFF_ERROR":
+			return { ...state, diffPhase: "error", diffError: action.error };
+		case "DIFF_BACK":
+			return { ...state, diffPhase: "pick", diffComparison: null, diffStat: null, diffError: null };
+		case "DIFF_CANCEL":
+			return {
+				...state,
+				overlay: null,
+				diffPhase: "idle",
+				diffBranch: null,
+				diffPath: null,
+				diffTargets: [],
+				diffPickIndex: 0,
+				diffComparison: null,
+				diffStat: null,
+				diffError: null,
+			};
+		case "SET_DISK_USAGE":
+			return { ...state, diskUsage: action.usage };
 		default:
 			return state;
 	}
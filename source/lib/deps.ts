@@ -0,0 +1,166 @@
+import * as fs from "fs";
+import * as fsp from "fs/promises";
+import * as path from "path";
+import { createHash } from "crypto";
+import { getConfig, type DepsConfig } from "./config.js";
+import { listWorktrees, getWorktreeKey } from "./git.js";
+import { getDepsStatus, setDepsStatus } from "./metadata.js";
+import { spawnAsync } from "./exec.js";
+import { getWorktreeEnv } from "./ports.js";
+
+// Dependency directories (node_modules and friends) are expensive to install and large on disk.
+// When another checkout of the repo has the same lockfile, its directory is cloned instead:
+// copy-on-write reflinks where the filesystem supports them (APFS, Btrfs, XFS), hardlinks otherwise.
+// The lockfile hash each directory was provisioned from is recorded in the worktree's metadata.
+
+export type CloneMethod = "reflink" | "hardlink";
+
+/**
+ * Get the sha256 of a lockfile relative to a checkout root, or null if it doesn't exist.
+ */
+export function hashLockfile(root: string, lockfile: string): string | null {
+	try {
+		return createHash("sha256")
+			.update(fs.readFileSync(path.join(root, lockfile)))
+			.digest("hex");
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Recreate a directory tree, cloning or hardlinking each file. Symlinks are copied as-is.
+ * Throws on the first file that can't be cloned with the given method.
+ */
+async function cloneTree(source: string, target: string, method: CloneMethod): Promise<void> {
+	await fsp.mkdir(target, { recursive: true });
+	for (const entry of await fsp.readdir(source, { withFileTypes: true })) {
+		const from = path.join(source, entry.name);
+		const to = path.join(target, entry.name);
+		if (entry.isDirectory()) {
+			await cloneTree(from, to, method);
+		} else if (entry.isSymbolicLink()) {
+			await fsp.symlink(await fsp.readlink(from), to);
+		} else if (method === "reflink") {
+			await fsp.copyFile(from, to, fs.constants.COPYFILE_FICLONE_FORCE);
+		} else {
+			await fsp.link(from, to);
+		}
+	}
+}
+
+/**
+ * Clone a dependency directory, preferring reflinks over hardlinks.
+ * Returns the method used, or null if neither works (e.g. across filesystems).
+ */
+async function cloneDeps(source: string, target: string): Promise<CloneMethod | null> {
+	for (const method of ["reflink", "hardlink"] as const) {
+		try {
+			await cloneTree(source, target, method);
+			return method;
+		} catch {
+			await fsp.rm(target, { recursive: true, force: true });
+		}
+	}
+	return null;
+}
+
+/**
+ * Find a checkout (the main repo first, then sibling worktrees) whose dependency directory
+ * was installed from a lockfile with the given hash.
+ */
+function findDepsSource(
+	repoRoot: string,
+	dep: DepsConfig,
+	hash: string,
+	worktreePath: string,
+): string | null {
+	for (const wt of listWorktrees(repoRoot)) {
+		const root = path.resolve(wt.path);
+		if (root === path.resolve(worktreePath)) continue;
+		if (!fs.existsSync(path.join(root, dep.dir))) continue;
+		if (hashLockfile(root, dep.lockfile) !== hash) continue;
+
+		// A worktree's lockfile may have changed since its deps were provisioned
+		if (wt.branch && root !== path.resolve(repoRoot)) {
+			const recorded = getDepsStatus(repoRoot, getWorktreeKey(wt.branch, repoRoot))[dep.dir];
+			if (recorded && recorded.lockfile_hash !== hash) continue;
+		}
+		return root;
+	}
+	return null;
+}
+
+/**
+ * Provision every configured dependency directory in a worktree.
+ * Directories already provisioned from the current lockfile are left alone; anything else is
+ * replaced by a clone from a checkout with a matching lockfile, or a fresh install.
+ * `log` receives output chunks as they arrive.
+ */
+export async function provisionDeps(
+	repoRoot: string,
+	worktreePath: string,
+	branch: string,
+	log: (text: string) => void,
+): Promise<{ success: boolean; error?: string }> {
+	const key = getWorktreeKey(branch, repoRoot);
+
+	for (const dep of getConfig(repoRoot).setup.deps) {
+		const hash = hashLockfile(worktreePath, dep.lockfile);
+		if (!hash) {
+			log(`${dep.dir}: skipped (${dep.lockfile} not found)\n`);
+			continue;
+		}
+
+		const target = path.join(worktreePath, dep.dir);
+		const recorded = getDepsStatus(repoRoot, key)[dep.dir];
+		if (recorded?.lockfile_hash === hash && fs.existsSync(target)) {
+			log(`${dep.dir}: up to date with ${dep.lockfile}\n`);
+			continue;
+		}
+
+		await fsp.rm(target, { recursive: true, force: true });
+
+		const source = findDepsSource(repoRoot, dep, hash, worktreePath);
+		if (source) {
+			const method = await cloneDeps(path.join(source, dep.dir), target);
+			if (method) {
+				setDepsStatus(repoRoot, key, dep.dir, { lockfile_hash: hash, method, source });
+				log(`${dep.dir}: ${method === "reflink" ? "cloned" : "hardlinked"} from ${source}\n`);
+				continue;
+			}
+			log(`${dep.dir}: could not link from ${source}, running ${dep.install}\n`);
+		} else {
+			log(`${dep.dir}: no checkout with a matching ${dep.lockfile}, running ${dep.install}\n`);
+		}
+
+		let lastLen = 0;
+		const result = await spawnAsync("sh", ["-c", dep.install], {
+			cwd: path.dirname(path.join(worktreePath, dep.lockfile)),
+			env: { ...process.env, ...getWorktreeEnv(repoRoot, worktreePath, branch) },
+			onOutput: (output) => {
+				log(output.slice(lastLen));
+				lastLen = output.length;
+			},
+		});
+		if (result.code !== 0) {
+			return { success: false, error: `${dep.install} exited with code ${result.code}` };
+		}
+		setDepsStatus(repoRoot, key, dep.dir, { lockfile_hash: hash, method: "install" });
+	}
+
+	return { success: true };
+}
+
+/**
+ * Get the dependency directories whose lockfile has changed since they were provisioned,
+ * e.g. after a sync pulled in a dependency bump.
+ */
+export function getStaleDeps(repoRoot: string, worktreePath: string, branch: string): DepsConfig[] {
+	const recorded = getDepsStatus(repoRoot, getWorktreeKey(branch, repoRoot));
+	return getConfig(repoRoot).setup.deps.filter((dep) => {
+		const status = recorded[dep.dir];
+		const hash = hashLockfile(worktreePath, dep.lockfile);
+		return status && hash && status.lockfile_hash !== hash;
+	});
+}
@@ -0,0 +1,191 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { listWorktrees, getWorktreePath, getWorktreeKey } from "./git.js";
+import { git, gitAsync, commandOutput, commandError } from "./exec.js";
+
+// `worktree diff` compares two worktrees without switching to either: the commits only one
+// side has, the files each branch changed since they diverged (and which of those both
+// changed, a hint of conflicts to come), and the diff from one to the other.
+// With uncommitted changes included, each side is its working tree (tracked and untracked,
+// non-ignored files), snapshotted into a tree through a throwaway index so neither the
+// worktree nor its real index is touched.
+
+export type DiffFormat = "patch" | "stat" | "name-only";
+
+export interface DiffSide {
+	branch: string;
+	path: string;
+	/** Short name: worktree key, or the branch for the main checkout */
+	label: string;
+	/** HEAD commit */
+	head: string;
+	/** What is compared: HEAD, or a tree of the working files with uncommitted changes */
+	ref: string;
+}
+
+export interface WorktreeComparison {
+	a: DiffSide;
+	b: DiffSide;
+	mergeBase: string | null;
+	/** `%h %s` of commits only on a / only on b */
+	onlyA: string[];
+	onlyB: string[];
+	/** Files each side changed since the merge base */
+	filesA: string[];
+	filesB: string[];
+	/** Files both sides changed */
+	overlap: string[];
+}
+
+function lines(output: string | null): string[] {
+	return output ? output.split("\n").filter(Boolean) : [];
+}
+
+/**
+ * Find a worktree by ticket ID or branch name (see getWorktreePath), or by path.
+ * Returns { success: false, error } if no worktree matches.
+ */
+export function resolveDiffSide(
+	query: string,
+	repoRoot: string,
+): { success: boolean; side?: Omit<DiffSide, "ref">; error?: string } {
+	const worktreePath = getWorktreePath(query) ?? path.resolve(query);
+	const wt = listWorktrees().find((w) => path.resolve(w.path) === path.resolve(worktreePath));
+	if (!wt) return { success: false, error: `Worktree not found: ${query}` };
+
+	const head = commandOutput(git(["rev-parse", "HEAD"], { cwd: wt.path }));
+	if (!head) return { success: false, error: `Could not resolve HEAD in ${wt.path}` };
+
+	const isMain = path.resolve(wt.path) === path.resolve(repoRoot);
+	const label = !wt.branch
+		? path.basename(wt.path)
+		: isMain
+			? wt.branch
+			: getWorktreeKey(wt.branch);
+	return { success: true, side: { branch: wt.branch, path: wt.path, label, head } };
+}
+
+/**
+ * Snapshot a worktree's files, including uncommitted and untracked (non-ignored) ones, as a
+ * tree. Uses a copy of the worktree's index, so its real index is left alone.
+ * Runs: `git add -A` + `git write-tree` with GIT_INDEX_FILE set to the copy
+ */
+async function snapshotWorkingTree(
+	worktreePath: string,
+): Promise<{ success: boolean; tree?: string; error?: string }> {
+	const indexPath = commandOutput(git(["rev-parse", "--git-path", "index"], { cwd: worktreePath }));
+	const tmpIndex = path.join(
+		os.tmpdir(),
+		`santree-index-${process.pid}-${Math.random().toString(36).slice(2)}`,
+	);
+	try {
+		if (indexPath) {
+			// Starting from the real index makes `git add` only re-hash files that changed
+			fs.copyFileSync(path.resolve(worktreePath, indexPath), tmpIndex);
+		}
+		const env = { ...process.env, GIT_INDEX_FILE: tmpIndex };
+		const added = await gitAsync(["add", "-A"], { cwd: worktreePath, env });
+		if (!added.ok) return { success: false, error: commandError(added, "git add") };
+		const tree = commandOutput(await gitAsync(["write-tree"], { cwd: worktreePath, env }));
+		if (!tree) return { success: false, error: "git write-tree failed" };
+		return { success: true, tree };
+	} catch (e) {
+		return { success: false, error: e instanceof Error ? e.message : String(e) };
+	} finally {
+		fs.rmSync(tmpIndex, { force: true });
+	}
+}
+
+/**
+ * Compare two worktrees: commits only on each side, the files each changed since they
+ * diverged and the ones both changed. With `uncommitted`, each side's working files count too.
+ * Runs: `git merge-base` + `git log <b>..<a>` / `<a>..<b>` + `git diff --name-only <base> <side>`
+ */
+export async function compareWorktrees(
+	repoRoot: string,
+	queryA: string,
+	queryB: string,
+	opts: { uncommitted?: boolean } = {},
+): Promise<{ success: boolean; comparison?: WorktreeComparison; error?: string }> {
+	const resolvedA = resolveDiffSide(queryA, repoRoot);
+	if (!resolvedA.side) return { success: false, error: resolvedA.error };
+	const resolvedB = resolveDiffSide(queryB, repoRoot);
+	if (!resolvedB.side) return { success: false, error: resolvedB.error };
+	if (resolvedA.side.path === resolvedB.side.path) {
+		return { success: false, error: `Both sides are the same worktree (${resolvedA.side.path})` };
+	}
+
+	const sides: DiffSide[] = [];
+	for (const side of [resolvedA.side, resolvedB.side]) {
+		if (!opts.uncommitted) {
+			sides.push({ ...side, ref: side.head });
+			continue;
+		}
+		const snapshot = await snapshotWorkingTree(side.path);
+		if (!snapshot.tree) {
+			return {
+				success: false,
+				error: `Could not read uncommitted changes in ${side.label}: ${snapshot.error}`,
+			};
+		}
+		sides.push({ ...side, ref: snapshot.tree });
+	}
+	const [a, b] = sides as [DiffSide, DiffSide];
+
+	const mergeBase = commandOutput(
+		await gitAsync(["merge-base", a.head, b.head], { cwd: repoRoot }),
+	);
+	const log = async (range: string) =>
+		lines(commandOutput(await gitAsync(["log", "--format=%h %s", range], { cwd: repoRoot })));
+	const changed = async (ref: string) =>
+		mergeBase
+			? lines(
+					commandOutput(await gitAsync(["diff", "--name-only", mergeBase, ref], { cwd: repoRoot })),
+				)
+			: [];
+
+	const [onlyA, onlyB, filesA, filesB] = await Promise.all([
+		log(`${b.head}..${a.head}`),
+		log(`${a.head}..${b.head}`),
+		changed(a.ref),
+		changed(b.ref),
+	]);
+	const inB = new Set(filesB);
+
+	return {
+		success: true,
+		comparison: {
+			a,
+			b,
+			mergeBase,
+			onlyA,
+			onlyB,
+			filesA,
+			filesB,
+			overlap: filesA.filter((f) => inB.has(f)),
+		},
+	};
+}
+
+/**
+ * Get the diff from side a to side b of a comparison, as a patch, a diffstat or file names.
+ * Runs: `git diff [--stat|--name-only] <a> <b>`
+ */
+export async function getComparisonDiff(
+	repoRoot: string,
+	comparison: WorktreeComparison,
+	format: DiffFormat,
+	opts: { color?: boolean } = {},
+): Promise<{ success: boolean; diff?: string; error?: string }> {
+	const args = [
+		"diff",
+		...(opts.color ? ["--color=always"] : []),
+		...(format === "stat" ? ["--stat"] : format === "name-only" ? ["--name-only"] : []),
+		comparison.a.ref,
+		comparison.b.ref,
+	];
+	const result = await gitAsync(args, { cwd: repoRoot, maxBuffer: 100 * 1024 * 1024 });
+	if (!result.ok) return { success: false, error: commandError(result, "git diff") };
+	return { success: true, diff: result.stdout.trimEnd() };
+}
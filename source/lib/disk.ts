@@ -0,0 +1,142 @@
+import * as fsp from "fs/promises";
+import * as path from "path";
+import { getWorktreeKey } from "./git.js";
+import { getDiskUsage, setDiskUsage, type DiskUsage } from "./metadata.js";
+import { gitAsync, commandOutput } from "./exec.js";
+
+// A worktree's disk usage is split by what git thinks of each file:
+//   tracked   - files in the index
+//   ignored   - ignored files: dependencies, build outputs, caches
+//   untracked - new files that aren't ignored
+// Sizes are allocated blocks (like `du`), each inode counted once; .git is left out.
+// Files hardlinked from another checkout (see deps.ts) are also counted as `shared`,
+// since removing the worktree won't free them.
+// Walking dependency directories is slow, so measurements are cached in the
+// worktree's metadata entry.
+
+export type { DiskUsage };
+
+/** How long a cached measurement is used before the worktree is walked again */
+export const DISK_USAGE_TTL_MS = 15 * 60 * 1000;
+
+type Category = "tracked" | "ignored" | "untracked";
+
+interface WalkContext {
+	tracked: Set<string>;
+	ignored: Set<string>;
+	seen: Set<number>;
+	usage: Record<Category | "shared" | "total", number>;
+}
+
+/**
+ * List paths with `git ls-files -z`, relative to the worktree root.
+ * Ignored directories are listed whole, with a trailing slash.
+ */
+async function lsFiles(worktreePath: string, args: string[]): Promise<Set<string>> {
+	const output = commandOutput(await gitAsync(["ls-files", "-z", ...args], { cwd: worktreePath }));
+	return new Set((output ?? "").split("\0").filter(Boolean));
+}
+
+async function walk(dir: string, rel: string, category: Category | null, ctx: WalkContext) {
+	const entries = await fsp.readdir(dir, { withFileTypes: true }).catch(() => []);
+	const files: { full: string; rel: string }[] = [];
+
+	for (const entry of entries) {
+		if (!rel && entry.name === ".git") continue;
+		const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+		const full = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			const dirCategory = category ?? (ctx.ignored.has(`${entryRel}/`) ? "ignored" : null);
+			await walk(full, entryRel, dirCategory, ctx);
+		} else {
+			files.push({ full, rel: entryRel });
+		}
+	}
+
+	const stats = await Promise.all(files.map((f) => fsp.lstat(f.full).catch(() => null)));
+	stats.forEach((stat, i) => {
+		if (!stat || ctx.seen.has(stat.ino)) return;
+		ctx.seen.add(stat.ino);
+
+		const fileRel = files[i]!.rel;
+		const size = stat.blocks * 512;
+		const fileCategory =
+			category ??
+			(ctx.tracked.has(fileRel) ? "tracked" : ctx.ignored.has(fileRel) ? "ignored" : "untracked");
+		ctx.usage[fileCategory] += size;
+		ctx.usage.total += size;
+		if (stat.isFile() && stat.nlink > 1) ctx.usage.shared += size;
+	});
+}
+
+/**
+ * Walk a worktree and measure its disk usage by category.
+ * Runs: `git ls-files -z` + `git ls-files -z --others --ignored --exclude-standard --directory`
+ */
+export async function measureDiskUsage(worktreePath: string): Promise<DiskUsage> {
+	const [tracked, ignored] = await Promise.all([
+		lsFiles(worktreePath, []),
+		lsFiles(worktreePath, ["--others", "--ignored", "--exclude-standard", "--directory"]),
+	]);
+	const ctx: WalkContext = {
+		tracked,
+		ignored,
+		seen: new Set(),
+		usage: { tracked: 0, ignored: 0, untracked: 0, shared: 0, total: 0 },
+	};
+	await walk(worktreePath, "", null, ctx);
+	return { ...ctx.usage, measured_at: new Date().toISOString() };
+}
+
+/**
+ * Get the last recorded disk usage of a worktree, however old. Returns null if never measured.
+ */
+export function getCachedDiskUsage(repoRoot: string, branch: string): DiskUsage | null {
+	return getDiskUsage(repoRoot, getWorktreeKey(branch, repoRoot));
+}
+
+/**
+ * Get the disk usage of a worktree, measuring it if the cached value is missing,
+ * older than DISK_USAGE_TTL_MS, or `refresh` is set. New measurements are cached.
+ */
+export async function getWorktreeDiskUsage(
+	repoRoot: string,
+	branch: string,
+	worktreePath: string,
+	opts: { refresh?: boolean } = {},
+): Promise<DiskUsage> {
+	const cached = getCachedDiskUsage(repoRoot, branch);
+	if (
+		cached &&
+		!opts.refresh &&
+		Date.now() - new Date(cached.measured_at).getTime() < DISK_USAGE_TTL_MS
+	) {
+		return cached;
+	}
+
+	const usage = await measureDiskUsage(worktreePath);
+	setDiskUsage(repoRoot, getWorktreeKey(branch, repoRoot), usage);
+	return usage;
+}
+
+/**
+ * Bytes freed by removing a worktree: everything except files shared with another checkout.
+ */
+export function getReclaimable(usage: DiskUsage): number {
+	return usage.total - usage.shared;
+}
+
+/**
+ * Format a byte count for display ("512 B", "3.4 MB", "1.2 GB").
+ */
+export function formatBytes(bytes: number): string {
+	const units = ["B", "KB", "MB", "GB", "TB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	const digits = unit === 0 || value >= 10 ? 0 : 1;
+	return `${value.toFixed(digits)} ${units[unit]}`;
+}
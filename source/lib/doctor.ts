@@ -0,0 +1,449 @@
+import { exec, execSync } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import { findMainRepoRoot, getSantreeDir, getInitScriptPath, getWorktreesDir } from "./git.js";
+import { getConfig } from "./config.js";
+import { getAuthStatus, getValidTokens } from "./linear.js";
+
+// `santree doctor` checks the tools and integrations santree relies on. The checks live here
+// so `doctor --json` can report them without rendering anything.
+
+const execAsync = promisify(exec);
+
+export type ToolStatus = {
+	name: string;
+	description: string;
+	required: boolean;
+	installed: boolean;
+	version?: string;
+	path?: string;
+	authStatus?: string;
+	hint?: string;
+};
+
+export type LinearAuthCheckStatus = {
+	authenticated: boolean;
+	orgSlug?: string;
+	orgName?: string;
+	tokenValid?: boolean;
+	repoLinked?: boolean;
+	hint?: string;
+};
+
+export type RemoteControlStatus = {
+	enabled: boolean;
+	hint?: string;
+};
+
+export type StatuslineStatus = {
+	claudeSettingsConfigured: boolean;
+	currentCommand?: string;
+	hint?: string;
+};
+
+export type ShellIntegrationStatus = {
+	configured: boolean;
+	shell: string | null;
+};
+
+export type SantreeSetupStatus = {
+	isGitRepo: boolean;
+	mainRepoRoot?: string;
+	santreeFolderExists: boolean;
+	initShExists: boolean;
+	initShExecutable: boolean;
+	/** Config `worktrees_dir`, relative to the repo root */
+	worktreesDir: string;
+	worktreesIgnored: boolean;
+	metadataIgnored: boolean;
+	hints: string[];
+};
+
+/**
+ * Executes a command asynchronously and returns the output, or null if it fails.
+ */
+async function tryExec(command: string): Promise<string | null> {
+	try {
+		const { stdout } = await execAsync(command);
+		return stdout.trim();
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Gets the path of a command using `which`.
+ */
+async function getPath(command: string): Promise<string | null> {
+	return tryExec(`which ${command}`);
+}
+
+/**
+ * Checks if a tool is installed and gets its version.
+ */
+async function checkTool(
+	name: string,
+	description: string,
+	required: boolean,
+	versionCommand: string,
+	hint: string,
+): Promise<ToolStatus> {
+	const path = await getPath(name);
+
+	if (!path) {
+		return {
+			name,
+			description,
+			required,
+			installed: false,
+			hint,
+		};
+	}
+
+	const version = await tryExec(versionCommand);
+
+	return {
+		name,
+		description,
+		required,
+		installed: true,
+		version: version || "unknown",
+		path,
+	};
+}
+
+/**
+ * Checks GitHub CLI auth status using JSON output.
+ */
+async function checkGhAuth(): Promise<ToolStatus> {
+	const path = await getPath("gh");
+
+	if (!path) {
+		return {
+			name: "gh",
+			description: "GitHub CLI for PR operations",
+			required: true,
+			installed: false,
+			hint: "Install: brew install gh && gh auth login",
+		};
+	}
+
+	const version = await tryExec("gh --version | head -1");
+	const authJson = await tryExec("gh auth status --json hosts 2>/dev/null");
+
+	let authStatus: string | undefined;
+
+	if (authJson) {
+		try {
+			const auth = JSON.parse(authJson);
+			const githubHosts = auth.hosts?.["github.com"];
+			const activeAccount = githubHosts?.find((h: { active: boolean }) => h.active);
+
+			if (activeAccount?.login) {
+				authStatus = `Authenticated as ${activeAccount.login}`;
+			}
+		} catch {
+			// JSON parse failed, auth might not be configured
+		}
+	}
+
+	if (!authStatus) {
+		return {
+			name: "gh",
+			description: "GitHub CLI for PR operations",
+			required: true,
+			installed: true,
+			version: version || "unknown",
+			path,
+			hint: "Run: gh auth login",
+		};
+	}
+
+	return {
+		name: "gh",
+		description: "GitHub CLI for PR operations",
+		required: true,
+		installed: true,
+		version: version || "unknown",
+		path,
+		authStatus,
+	};
+}
+
+/**
+ * Checks Linear API authentication status.
+ */
+async function checkLinearAuth(): Promise<LinearAuthCheckStatus> {
+	const repoRoot = findMainRepoRoot();
+	const status = getAuthStatus(repoRoot);
+
+	if (!status.authenticated || !status.orgSlug) {
+		return {
+			authenticated: false,
+			hint: "Run: santree linear auth",
+		};
+	}
+
+	// Try to validate/refresh tokens
+	const valid = await getValidTokens(status.orgSlug);
+
+	return {
+		authenticated: true,
+		orgSlug: status.orgSlug,
+		orgName: status.orgName,
+		tokenValid: valid !== null,
+		repoLinked: status.repoLinked,
+		hint: !valid
+			? "Token expired. Run: santree linear auth"
+			: !status.repoLinked
+				? "Repo not linked. Run: santree linear auth"
+				: undefined,
+	};
+}
+
+/**
+ * Checks if the shell integration is set up by looking for the
+ * SANTREE_SHELL_INTEGRATION environment variable exported by the shell scripts.
+ */
+function checkShellIntegration(): ShellIntegrationStatus {
+	const shell = process.env.SHELL || "";
+	const shellName = shell.includes("zsh") ? "zsh" : shell.includes("bash") ? "bash" : null;
+
+	const configured = process.env.SANTREE_SHELL_INTEGRATION === "1";
+
+	return { configured, shell: shellName };
+}
+
+/**
+ * Checks if Claude Code Remote Control is enabled for all sessions.
+ * Remote Control lets you continue local sessions from any device.
+ *
+ * This reads from ~/.claude.json (the "global config" / application state file),
+ * which is separate from ~/.claude/settings.json (the declarative settings file).
+ * See: https://code.claude.com/docs/en/settings#settings-files
+ */
+function checkRemoteControl(): RemoteControlStatus {
+	const home = process.env.HOME || "";
+	const configPath = path.join(home, ".claude.json");
+
+	try {
+		if (fs.existsSync(configPath)) {
+			const content = fs.readFileSync(configPath, "utf-8");
+			const config = JSON.parse(content);
+
+			if (config.remoteControlAtStartup === true) {
+				return { enabled: true };
+			}
+		}
+	} catch {
+		// JSON parse error or file read error
+	}
+
+	return {
+		enabled: false,
+		hint: 'Run /config in Claude Code and enable "Enable Remote Control for all sessions"',
+	};
+}
+
+/**
+ * Checks statusline configuration:
+ * If ~/.claude/settings.json has statusLine pointing to santree
+ */
+async function checkStatusline(): Promise<StatuslineStatus> {
+	const home = process.env.HOME || "";
+	const claudeSettingsPath = path.join(home, ".claude", "settings.json");
+
+	let claudeSettingsConfigured = false;
+	let currentCommand: string | undefined;
+
+	try {
+		if (fs.existsSync(claudeSettingsPath)) {
+			const content = fs.readFileSync(claudeSettingsPath, "utf-8");
+			const settings = JSON.parse(content);
+
+			if (settings.statusLine?.command) {
+				currentCommand = String(settings.statusLine.command);
+				// Check if it points to santree statusline
+				claudeSettingsConfigured =
+					currentCommand.includes("santree statusline") ||
+					currentCommand.includes("santree helpers statusline");
+			}
+		}
+	} catch {
+		// JSON parse error or file read error
+	}
+
+	let hint: string | undefined;
+	if (!claudeSettingsConfigured) {
+		hint =
+			'Add to ~/.claude/settings.json: "statusLine": { "type": "command", "command": "santree helpers statusline" }';
+	}
+
+	return {
+		claudeSettingsConfigured,
+		currentCommand,
+		hint,
+	};
+}
+
+/**
+ * Checks if a path is gitignored (via .gitignore or .git/info/exclude).
+ */
+function isGitIgnored(filePath: string, cwd: string): boolean {
+	try {
+		execSync(`git check-ignore -q "${filePath}"`, { cwd, stdio: "ignore" });
+		return true; // exit 0 = ignored
+	} catch {
+		return false; // exit 1 = not ignored
+	}
+}
+
+/**
+ * Checks if the current directory is a git repo and if .santree/init.sh exists and is executable.
+ */
+function checkSantreeSetup(): SantreeSetupStatus {
+	const mainRepoRoot = findMainRepoRoot();
+
+	if (!mainRepoRoot) {
+		return {
+			isGitRepo: false,
+			santreeFolderExists: false,
+			initShExists: false,
+			initShExecutable: false,
+			worktreesDir: getConfig(null).worktrees_dir,
+			worktreesIgnored: false,
+			metadataIgnored: false,
+			hints: ["Not in a git repository"],
+		};
+	}
+
+	const santreeDir = getSantreeDir(mainRepoRoot);
+	const initShPath = getInitScriptPath(mainRepoRoot);
+
+	const santreeFolderExists = fs.existsSync(santreeDir);
+	const initShExists = fs.existsSync(initShPath);
+
+	let initShExecutable = false;
+	if (initShExists) {
+		try {
+			fs.accessSync(initShPath, fs.constants.X_OK);
+			initShExecutable = true;
+		} catch {
+			initShExecutable = false;
+		}
+	}
+
+	// Check gitignore status (use relative paths for git check-ignore). A worktrees dir
+	// outside the repo can't be committed by accident, so it needs no ignore rule.
+	const worktreesDir = path.relative(mainRepoRoot, getWorktreesDir(mainRepoRoot));
+	const worktreesIgnored =
+		worktreesDir.startsWith("..") || isGitIgnored(worktreesDir, mainRepoRoot);
+	const metadataIgnored = isGitIgnored(".santree/metadata.json", mainRepoRoot);
+
+	const hints: string[] = [];
+	if (!santreeFolderExists) {
+		hints.push(`Create .santree folder: mkdir ${santreeDir}`);
+	} else if (!initShExists) {
+		hints.push(`Create init.sh: touch ${initShPath} && chmod +x ${initShPath}`);
+	} else if (!initShExecutable) {
+		hints.push(`Make init.sh executable: chmod +x ${initShPath}`);
+	}
+
+	if (!worktreesIgnored) {
+		hints.push(`Add ${worktreesDir} to .gitignore`);
+	}
+	if (!metadataIgnored) {
+		hints.push("Add .santree/metadata.json to .gitignore");
+	}
+
+	return {
+		isGitRepo: true,
+		mainRepoRoot,
+		santreeFolderExists,
+		initShExists,
+		initShExecutable,
+		worktreesDir,
+		worktreesIgnored,
+		metadataIgnored,
+		hints,
+	};
+}
+
+export type DoctorReport = {
+	tools: ToolStatus[];
+	linear: LinearAuthCheckStatus;
+	shell: ShellIntegrationStatus;
+	santreeSetup: SantreeSetupStatus;
+	remoteControl: RemoteControlStatus;
+	statusline: StatuslineStatus;
+	/** Required tools and integrations that need attention */
+	requiredIssues: number;
+	/** Optional tools that aren't installed */
+	optionalMissing: number;
+};
+
+/**
+ * Runs every doctor check. Repository setup, Remote Control and the statusline are optional
+ * and don't count towards `requiredIssues`.
+ */
+export async function runDoctorChecks(): Promise<DoctorReport> {
+	const tools = await Promise.all([
+		checkTool(
+			"git",
+			"Version control",
+			true,
+			"git --version | head -1",
+			"Install: brew install git",
+		),
+		checkGhAuth(),
+		checkTool("tmux", "Terminal multiplexer", false, "tmux -V", "Install: brew install tmux"),
+		checkTool(
+			"claude",
+			"Claude Code CLI",
+			true,
+			"claude --version 2>/dev/null | head -1",
+			"Install: npm install -g @anthropic-ai/claude-code",
+		),
+	]);
+
+	// Check for either code or cursor (only need one)
+	const [codeCheck, cursorCheck] = await Promise.all([
+		checkTool("code", "VSCode editor", false, "code --version | head -1", ""),
+		checkTool("cursor", "Cursor editor", false, "cursor --version | head -1", ""),
+	]);
+	if (codeCheck.installed) {
+		tools.push({ ...codeCheck, description: "Editor (VSCode)" });
+	} else if (cursorCheck.installed) {
+		tools.push({ ...cursorCheck, description: "Editor (Cursor)" });
+	} else {
+		tools.push({
+			name: "code/cursor",
+			description: "Editor (VSCode or Cursor)",
+			required: false,
+			installed: false,
+			hint: "Install VSCode (https://code.visualstudio.com) or Cursor (https://cursor.sh)",
+		});
+	}
+
+	const linear = await checkLinearAuth();
+	const statusline = await checkStatusline();
+	const shell = checkShellIntegration();
+
+	const linearOk = linear.authenticated && linear.tokenValid && linear.repoLinked;
+	const requiredIssues =
+		tools.filter((t) => t.required && (!t.installed || t.hint)).length +
+		(linearOk ? 0 : 1) +
+		(shell.configured ? 0 : 1);
+
+	return {
+		tools,
+		linear,
+		shell,
+		santreeSetup: checkSantreeSetup(),
+		remoteControl: checkRemoteControl(),
+		statusline,
+		requiredIssues,
+		optionalMissing: tools.filter((t) => !t.required && !t.installed).length,
+	};
+}
@@ -1,37 +1,157 @@
-import { execSync, exec, spawn } from "child_process";
-import { promisify } from "util";
+import { execFile, spawn, spawnSync } from "child_process";
 
-const execPromise = promisify(exec);
+// ── Argument-vector runner ─────────────────────────────────────────────
+
+export interface CommandOptions {
+	cwd?: string;
+	env?: NodeJS.ProcessEnv;
+	/** Data written to the child's stdin */
+	input?: string;
+	/** Kill the child after this many milliseconds */
+	timeout?: number;
+	maxBuffer?: number;
+	/** "inherit" shows the child's output to the user instead of capturing it (sync only) */
+	stdio?: "pipe" | "inherit";
+}
+
+export interface CommandResult {
+	ok: boolean;
+	/** Exit code, or null if the process was killed or could not be started */
+	code: number | null;
+	stdout: string;
+	stderr: string;
+	timedOut: boolean;
+}
+
+const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024;
+
+/**
+ * Run a command with an argument array (no shell) and capture stdout/stderr.
+ * Never throws; check `ok` and use commandError() for a readable failure message.
+ */
+export function runCommand(cmd: string, args: string[], options?: CommandOptions): CommandResult {
+	const result = spawnSync(cmd, args, {
+		cwd: options?.cwd,
+		env: options?.env,
+		input: options?.input,
+		timeout: options?.timeout,
+		maxBuffer: options?.maxBuffer ?? DEFAULT_MAX_BUFFER,
+		stdio: options?.stdio === "inherit" ? "inherit" : "pipe",
+		encoding: "utf-8",
+	});
+	const timedOut = (result.error as NodeJS.ErrnoException | undefined)?.code === "ETIMEDOUT";
+	return {
+		ok: result.status === 0 && !result.error,
+		code: result.status,
+		stdout: result.stdout ?? "",
+		stderr: result.stderr || (result.error && !timedOut ? result.error.message : ""),
+		timedOut,
+	};
+}
+
+/**
+ * Async variant of runCommand(). Never rejects.
+ */
+export function runCommandAsync(
+	cmd: string,
+	args: string[],
+	options?: CommandOptions,
+): Promise<CommandResult> {
+	return new Promise((resolve) => {
+		const child = execFile(
+			cmd,
+			args,
+			{
+				cwd: options?.cwd,
+				env: options?.env,
+				timeout: options?.timeout,
+				maxBuffer: options?.maxBuffer ?? DEFAULT_MAX_BUFFER,
+				encoding: "utf-8",
+			},
+			(error, stdout, stderr) => {
+				if (!error) {
+					resolve({ ok: true, code: 0, stdout, stderr, timedOut: false });
+					return;
+				}
+				const timedOut = Boolean(options?.timeout && error.killed);
+				resolve({
+					ok: false,
+					code: typeof error.code === "number" ? error.code : null,
+					stdout: stdout ?? "",
+					stderr: stderr || (timedOut ? "" : error.message),
+					timedOut,
+				});
+			},
+		);
+		if (options?.input !== undefined) {
+			child.stdin?.end(options.input);
+		}
+	});
+}
+
+/**
+ * Trimmed stdout of a successful command, or null if it failed.
+ */
+export function commandOutput(result: CommandResult): string | null {
+	return result.ok ? result.stdout.trim() : null;
+}
+
+/**
+ * A readable message for a failed command: stderr, else stdout, else the exit status.
+ */
+export function commandError(result: CommandResult, cmd = "Command"): string {
+	if (result.timedOut) return `${cmd} timed out`;
+	return (
+		result.stderr.trim() ||
+		result.stdout.trim() ||
+		`${cmd} failed${result.code !== null ? ` with exit code ${result.code}` : ""}`
+	);
+}
+
+/**
+ * Run git with the given arguments.
+ */
+export function git(args: string[], options?: CommandOptions): CommandResult {
+	return runCommand("git", args, options);
+}
+
+/**
+ * Run git with the given arguments (async).
+ */
+export function gitAsync(args: string[], options?: CommandOptions): Promise<CommandResult> {
+	return runCommandAsync("git", args, options);
+}
+
+/**
+ * Run the GitHub CLI with the given arguments.
+ */
+export function gh(args: string[], options?: CommandOptions): CommandResult {
+	return runCommand("gh", args, options);
+}
 
 /**
- * Run a shell command and return trimmed stdout, or null on failure.
+ * Run the GitHub CLI with the given arguments (async).
  */
-export function run(
-	command: string,
-	options?: { cwd?: string; maxBuffer?: number },
-): string | null {
-	try {
-		return execSync(command, { encoding: "utf-8", ...options }).trim();
-	} catch {
-		return null;
-	}
+export function ghAsync(args: string[], options?: CommandOptions): Promise<CommandResult> {
+	return runCommandAsync("gh", args, options);
 }
 
 /**
- * Run a shell command asynchronously and return trimmed stdout, or null on failure.
+ * Run tmux with the given arguments.
  */
-export async function runAsync(
-	command: string,
-	options?: { cwd?: string; maxBuffer?: number },
-): Promise<string | null> {
-	try {
-		const { stdout } = await execPromise(command, { encoding: "utf-8", ...options });
-		return stdout.trim();
-	} catch {
-		return null;
-	}
+export function tmux(args: string[], options?: CommandOptions): CommandResult {
+	return runCommand("tmux", args, options);
 }
 
+/**
+ * Check whether an executable is on PATH.
+ */
+export function commandExists(cmd: string): boolean {
+	return runCommand("which", [cmd]).ok;
+}
+
+// ── Streaming ──────────────────────────────────────────────────────────
+
 /**
  * Spawn a command asynchronously and capture its output.
  * Returns the exit code and combined stdout/stderr.
@@ -1,16 +1,78 @@
-import { execSync, exec } from "child_process";
-import { promisify } from "util";
 import * as path from "path";
 import * as fs from "fs";
-import { run, runAsync } from "./exec.js";
-
-const execAsync = promisify(exec);
+import { git, gitAsync, runCommand, commandOutput, commandError } from "./exec.js";
+import { getConfig, type SantreeConfig } from "./config.js";
+import {
+	getWorktreeEntry,
+	updateWorktreeEntry,
+	removeWorktreeEntry,
+	type WorktreeMetadata,
+} from "./metadata.js";
+import { runHook, type HookContext } from "./hooks.js";
+import { initSparseCheckout } from "./sparse.js";
+import { trashWorktree, purgeTrash } from "./trash.js";
 
 export interface Worktree {
 	path: string;
 	branch: string;
 	commit: string;
 	isBare: boolean;
+	/** Set when `git worktree lock` was used; the reason may be empty */
+	lockReason?: string;
+}
+
+export interface WorktreeLock {
+	reason: string | null;
+}
+
+let currentRepoConfig: SantreeConfig | null = null;
+
+/**
+ * Get the config for the repo containing the current working directory.
+ * Resolved once per process since santree never changes directory.
+ */
+function repoConfig(): SantreeConfig {
+	currentRepoConfig ??= getConfig(findMainRepoRoot());
+	return currentRepoConfig;
+}
+
+/**
+ * Resolve the remote for a role: the worktree's own setting (when a branch is given), then
+ * config `base_remote` / `push_remote`, then config `remote` (default "origin").
+ */
+function resolveRemote(
+	field: "base_remote" | "push_remote",
+	branch?: string | null,
+	repoRoot?: string | null,
+): string {
+	const config = repoRoot ? getConfig(repoRoot) : repoConfig();
+	const root = branch ? (repoRoot ?? findMainRepoRoot()) : null;
+	const entry = root && branch ? getWorktreeEntry(root, getWorktreeKey(branch)) : null;
+	return entry?.[field] ?? config[field] ?? config.remote;
+}
+
+/**
+ * Get the remote base branches are fetched and synced from, and PRs are opened against.
+ * Pass a branch to honour that worktree's `base_remote`.
+ */
+export function getBaseRemote(branch?: string | null, repoRoot?: string | null): string {
+	return resolveRemote("base_remote", branch, repoRoot);
+}
+
+/**
+ * Get the remote a branch is pushed to (a fork, when working from one).
+ * Pass a branch to honour that worktree's `push_remote`.
+ */
+export function getPushRemote(branch?: string | null, repoRoot?: string | null): string {
+	return resolveRemote("push_remote", branch, repoRoot);
+}
+
+/**
+ * Check that a remote is configured in the repo.
+ * Runs: `git remote get-url <remote>`
+ */
+export function remoteExists(remote: string, repoRoot?: string): boolean {
+	return git(["remote", "get-url", remote], { cwd: repoRoot }).ok;
 }
 
 /**
@@ -19,7 +81,7 @@ export interface Worktree {
  * Returns null if not inside a git repo.
  */
 export function findRepoRoot(): string | null {
-	return run("git rev-parse --show-toplevel");
+	return commandOutput(git(["rev-parse", "--show-toplevel"]));
 }
 
 /**
@@ -28,7 +90,7 @@ export function findRepoRoot(): string | null {
  * Returns null if not inside a git repo.
  */
 export function findMainRepoRoot(): string | null {
-	const gitCommonDir = run("git rev-parse --git-common-dir");
+	const gitCommonDir = commandOutput(git(["rev-parse", "--git-common-dir"]));
 	if (!gitCommonDir) return null;
 	return path.dirname(path.resolve(gitCommonDir));
 }
@@ -39,8 +101,8 @@ export function findMainRepoRoot(): string | null {
  * Returns false if not in a git repo or if in the main repo.
  */
 export function isInWorktree(): boolean {
-	const gitDir = run("git rev-parse --git-dir");
-	const gitCommonDir = run("git rev-parse --git-common-dir");
+	const gitDir = commandOutput(git(["rev-parse", "--git-dir"]));
+	const gitCommonDir = commandOutput(git(["rev-parse", "--git-common-dir"]));
 	if (!gitDir || !gitCommonDir) return false;
 	return path.resolve(gitDir) !== path.resolve(gitCommonDir);
 }
@@ -51,8 +113,8 @@ export function isInWorktree(): boolean {
  * Returns false if the path is not a git repo or is the main repo.
  */
 export function isWorktreePath(wtPath: string): boolean {
-	const gitDir = run("git rev-parse --git-dir", { cwd: wtPath });
-	const gitCommonDir = run("git rev-parse --git-common-dir", { cwd: wtPath });
+	const gitDir = commandOutput(git(["rev-parse", "--git-dir"], { cwd: wtPath }));
+	const gitCommonDir = commandOutput(git(["rev-parse", "--git-common-dir"], { cwd: wtPath }));
 	if (!gitDir || !gitCommonDir) return false;
 	return path.resolve(wtPath, gitDir) !== path.resolve(wtPath, gitCommonDir);
 }
@@ -63,40 +125,39 @@ export function isWorktreePath(wtPath: string): boolean {
  * Returns null if in detached HEAD state or not in a git repo.
  */
 export function getCurrentBranch(): string | null {
-	return run("git rev-parse --abbrev-ref HEAD");
+	return commandOutput(git(["rev-parse", "--abbrev-ref", "HEAD"]));
 }
 
 /**
- * Determine the default branch (e.g. main or master) for the origin remote.
- * Runs: `git symbolic-ref refs/remotes/origin/HEAD`
+ * Determine the default branch (e.g. main or master) of a remote (default: the base remote)
+ * in the current repo, or in `repoRoot` when given.
+ * Runs: `git symbolic-ref refs/remotes/<remote>/HEAD`
  * Falls back to checking if "main" or "master" branches exist locally.
  * Returns "main" as a last resort.
  */
-export function getDefaultBranch(): string {
-	const ref = run("git symbolic-ref refs/remotes/origin/HEAD");
-	if (ref) return ref.replace("refs/remotes/origin/", "");
+export function getDefaultBranch(remote = getBaseRemote(), repoRoot?: string | null): string {
+	const cwd = repoRoot ?? undefined;
+	const ref = commandOutput(git(["symbolic-ref", `refs/remotes/${remote}/HEAD`], { cwd }));
+	if (ref) return ref.replace(`refs/remotes/${remote}/`, "");
 
 	// Fall back to checking if main/master exists
 	for (const branch of ["main", "master"]) {
-		try {
-			execSync(`git rev-parse --verify refs/heads/${branch}`, {
-				stdio: "ignore",
-			});
+		if (git(["rev-parse", "--verify", `refs/heads/${branch}`], { cwd }).ok) {
 			return branch;
-		} catch {
-			continue;
 		}
 	}
 	return "main";
 }
 
 /**
- * List all git worktrees in the current repository.
+ * List all git worktrees in the current repository, or in `repoRoot` when given.
  * Runs: `git worktree list --porcelain`
  * Returns an empty array on failure.
  */
-export function listWorktrees(): Worktree[] {
-	const output = run("git worktree list --porcelain");
+export function listWorktrees(repoRoot?: string | null): Worktree[] {
+	const output = commandOutput(
+		git(["worktree", "list", "--porcelain"], { cwd: repoRoot ?? undefined }),
+	);
 	if (!output) return [];
 
 	const worktrees: Worktree[] = [];
@@ -111,6 +172,8 @@ export function listWorktrees(): Worktree[] {
 			current.branch = line.replace("branch refs/heads/", "");
 		} else if (line === "bare") {
 			current.isBare = true;
+		} else if (line === "locked" || line.startsWith("locked ")) {
+			current.lockReason = line.replace(/^locked ?/, "");
 		} else if (line === "" && current.path) {
 			worktrees.push(current as Worktree);
 			current = {};
@@ -132,33 +195,30 @@ export function getSantreeDir(repoRoot: string): string {
 }
 
 /**
- * Get the path to the .santree/worktrees directory inside a repo root.
+ * Get the directory worktrees are created in (config `worktrees_dir`, default .santree/worktrees).
+ * Relative paths are resolved against the repo root.
  */
 export function getWorktreesDir(repoRoot: string): string {
-	return path.join(getSantreeDir(repoRoot), "worktrees");
+	return path.resolve(repoRoot, getConfig(repoRoot).worktrees_dir);
 }
 
 /**
  * Create a new git worktree for a branch, optionally creating the branch from a base.
- * The worktree directory is named after the ticket ID extracted from the branch name.
+ * The worktree directory is named after the worktree key (ticket ID, or a slug of the branch).
+ * `entry` is saved to the worktree's metadata entry before the post-create hook runs;
+ * an `entry.sparse` checks out only its paths (see sparse.ts).
  * Runs: `git worktree add [-b branchName] <path> <branch|baseBranch>`
- * Returns { success: false, error } if no ticket ID found, path already exists, or git fails.
+ * Returns { success: false, error } if path already exists, pre-create vetoes, or git fails.
  */
 export async function createWorktree(
 	branchName: string,
 	baseBranch: string,
 	repoRoot: string,
-): Promise<{ success: boolean; path?: string; error?: string }> {
-	const ticketId = extractTicketId(branchName);
-	if (!ticketId) {
-		return {
-			success: false,
-			error: "No ticket ID found in branch name (expected pattern like TEAM-123)",
-		};
-	}
-	const dirName = ticketId;
+	entry: Partial<WorktreeMetadata> = {},
+): Promise<{ success: boolean; path?: string; error?: string; warning?: string }> {
+	const key = getWorktreeKey(branchName, repoRoot);
 	const worktreesDir = getWorktreesDir(repoRoot);
-	const worktreePath = path.join(worktreesDir, dirName);
+	const worktreePath = path.join(worktreesDir, key);
 
 	if (fs.existsSync(worktreePath)) {
 		return {
@@ -167,248 +227,364 @@ export async function createWorktree(
 		};
 	}
 
+	const preCreate = await runHook(
+		"pre-create",
+		getHookContext(branchName, repoRoot, {
+			worktreePath,
+			baseBranch,
+			prNumber: entry.pr_number ? String(entry.pr_number) : null,
+		}),
+	);
+	if (!preCreate.success) return { success: false, error: preCreate.error };
+
 	// Ensure worktrees directory exists
 	fs.mkdirSync(worktreesDir, { recursive: true });
 
 	// Check if branch exists
-	let branchExists = false;
-	try {
-		execSync(`git rev-parse --verify refs/heads/${branchName}`, {
-			cwd: repoRoot,
-			stdio: "ignore",
-		});
-		branchExists = true;
-	} catch {
-		branchExists = false;
+	const branchExists = git(["rev-parse", "--verify", `refs/heads/${branchName}`], {
+		cwd: repoRoot,
+	}).ok;
+
+	// Sparse worktrees are populated once their paths are set
+	const noCheckout = entry.sparse ? ["--no-checkout"] : [];
+	const result = await gitAsync(
+		branchExists
+			? ["worktree", "add", ...noCheckout, worktreePath, branchName]
+			: ["worktree", "add", ...noCheckout, "-b", branchName, worktreePath, baseBranch],
+		{ cwd: repoRoot },
+	);
+	if (!result.ok) {
+		return { success: false, error: commandError(result, "git worktree add") };
 	}
 
-	try {
-		if (branchExists) {
-			await execAsync(`git worktree add "${worktreePath}" "${branchName}"`, {
-				cwd: repoRoot,
-			});
-		} else {
-			await execAsync(`git worktree add -b "${branchName}" "${worktreePath}" "${baseBranch}"`, {
-				cwd: repoRoot,
-			});
+	if (entry.sparse) {
+		const sparse = await initSparseCheckout(worktreePath, entry.sparse.paths);
+		if (!sparse.success) {
+			// Don't leave an empty checkout behind
+			await removeWorktreeCheckout(worktreePath, repoRoot, true);
+			if (!branchExists) await gitAsync(["branch", "-D", branchName], { cwd: repoRoot });
+			return { success: false, error: `Sparse checkout failed: ${sparse.error}` };
 		}
+	}
 
-		// Save metadata (only when base branch differs from default)
-		if (baseBranch !== getDefaultBranch() && ticketId) {
-			const all = readAllMetadata(repoRoot);
-			all[ticketId] = { base_branch: baseBranch };
-			writeAllMetadata(repoRoot, all);
-		}
+	// Save metadata (base branch only when it differs from default).
+	// Basing on a sibling worktree's branch stacks this worktree on top of it.
+	const patch = { ...entry };
+	if (baseBranch !== getDefaultBranch(getBaseRemote(null, repoRoot), repoRoot)) {
+		const stacked = isWorktreeBranch(baseBranch, repoRoot);
+		Object.assign(patch, {
+			base_branch: baseBranch,
+			parent: stacked ? baseBranch : undefined,
+			parent_head: stacked ? (getBranchHead(baseBranch, repoRoot) ?? undefined) : undefined,
+		});
+	}
+	if (Object.values(patch).some((value) => value !== undefined)) {
+		updateWorktreeEntry(repoRoot, key, patch);
+	}
 
-		return { success: true, path: worktreePath };
-	} catch (e) {
-		return {
-			success: false,
-			error: e instanceof Error ? e.message : "Unknown error",
-		};
+	const postCreate = await runHook(
+		"post-create",
+		getHookContext(branchName, repoRoot, { worktreePath, baseBranch }),
+	);
+	return { success: true, path: worktreePath, warning: postCreate.error };
+}
+
+/**
+ * Check whether a branch is checked out in one of the repo's worktrees (not the main checkout).
+ */
+export function isWorktreeBranch(branch: string, repoRoot: string): boolean {
+	const mainRoot = path.resolve(repoRoot);
+	return listWorktrees(repoRoot).some(
+		(w) => w.branch === branch && path.resolve(w.path) !== mainRoot,
+	);
+}
+
+/**
+ * Get the commit a local branch points at.
+ * Runs: `git rev-parse --verify refs/heads/<branch>`
+ * Returns null if the branch doesn't exist.
+ */
+export function getBranchHead(branch: string, cwd?: string): string | null {
+	return commandOutput(git(["rev-parse", "--verify", `refs/heads/${branch}`], { cwd }));
+}
+
+/**
+ * Get the lock on a worktree, from `git worktree lock` or santree metadata. Returns null if unlocked.
+ */
+export function getWorktreeLock(
+	branchName: string,
+	repoRoot: string,
+	worktrees: Worktree[] = listWorktrees(),
+): WorktreeLock | null {
+	const gitReason = worktrees.find((w) => w.branch === branchName)?.lockReason;
+	const entry = getWorktreeEntry(repoRoot, getWorktreeKey(branchName))?.locked;
+	if (gitReason === undefined && !entry) return null;
+	return { reason: entry?.reason || gitReason || null };
+}
+
+/**
+ * Describe a lock for error messages, e.g. "feature/x is locked (re-landing after revert)".
+ */
+export function describeLock(branchName: string, lock: WorktreeLock): string {
+	return `${branchName} is locked${lock.reason ? ` (${lock.reason})` : ""}`;
+}
+
+/**
+ * Lock a worktree so `clean`, `remove` and the dashboard won't delete it, and git won't prune it.
+ * Runs: `git worktree lock [--reason <reason>] <path>`
+ */
+export function lockWorktree(
+	branchName: string,
+	repoRoot: string,
+	reason?: string,
+): { success: boolean; error?: string } {
+	const worktreePath = getWorktreePath(branchName);
+	if (!worktreePath) {
+		return { success: false, error: `Worktree not found: ${branchName}` };
+	}
+	const existing = getWorktreeLock(branchName, repoRoot);
+	if (existing) {
+		return { success: false, error: `${describeLock(branchName, existing)} already` };
 	}
+
+	const args = ["worktree", "lock", ...(reason ? ["--reason", reason] : []), worktreePath];
+	const result = git(args, { cwd: repoRoot });
+	if (!result.ok) {
+		return { success: false, error: commandError(result, "git worktree lock") };
+	}
+
+	updateWorktreeEntry(repoRoot, getWorktreeKey(branchName), {
+		locked: { ...(reason ? { reason } : {}), locked_at: new Date().toISOString() },
+	});
+	return { success: true };
+}
+
+/**
+ * Remove a worktree's lock.
+ * Runs: `git worktree unlock <path>`
+ */
+export function unlockWorktree(
+	branchName: string,
+	repoRoot: string,
+): { success: boolean; error?: string } {
+	const worktreePath = getWorktreePath(branchName);
+	if (!worktreePath) {
+		return { success: false, error: `Worktree not found: ${branchName}` };
+	}
+	if (!getWorktreeLock(branchName, repoRoot)) {
+		return { success: false, error: `${branchName} is not locked` };
+	}
+
+	// Fails harmlessly when only the metadata lock is set (e.g. after a restore)
+	git(["worktree", "unlock", worktreePath], { cwd: repoRoot });
+	updateWorktreeEntry(repoRoot, getWorktreeKey(branchName), { locked: undefined });
+	return { success: true };
 }
 
 /**
  * Remove a git worktree by branch name, cleaning up the directory and optionally deleting the branch.
- * Runs: `git worktree remove [--force] <path>` then `git branch -d|-D <branchName>`
- * Returns { success: false, error } if worktree not found or git fails.
+ * A ticket ID removes the worktree whose branch has it, along with that branch (see findWorktree).
+ * Runs: `git worktree remove [--force] <path>` then `git branch -d|-D <branch>`
+ * Locked worktrees are refused unless ignoreLock is set, in which case they are unlocked first.
+ * The pre-remove hook can veto the removal; a failing post-remove hook is returned as a warning.
+ * The worktree is backed up to the trash first (see trash.ts); if that fails nothing is removed.
+ * Returns { success: false, error } if worktree not found, locked, vetoed, or git fails.
  */
 export async function removeWorktree(
 	branchName: string,
 	repoRoot: string,
 	force = false,
-): Promise<{ success: boolean; error?: string }> {
+	ignoreLock = false,
+): Promise<{ success: boolean; error?: string; warning?: string }> {
 	// Find the worktree by branch name using git's worktree tracking
-	const worktreePath = getWorktreePath(branchName);
-
-	if (!worktreePath) {
+	const worktree = findWorktree(branchName, repoRoot);
+	if (!worktree?.branch) {
 		return { success: false, error: `Worktree not found: ${branchName}` };
 	}
+	// The branch that's checked out, e.g. TEAM-2-bar when given TEAM-2
+	const { branch, path: worktreePath } = worktree;
+	const key = getWorktreeKey(branch, repoRoot);
 
-	try {
-		const forceFlag = force ? "--force" : "";
-		await execAsync(`git worktree remove ${forceFlag} "${worktreePath}"`, {
-			cwd: repoRoot,
-		});
+	const lock = getWorktreeLock(branch, repoRoot);
+	if (lock && !ignoreLock) {
+		return { success: false, error: describeLock(branch, lock) };
+	}
 
-		// Clean up any remaining files (untracked files, node_modules, etc.)
-		// git worktree remove doesn't delete untracked files
-		if (fs.existsSync(worktreePath)) {
-			// Fix permissions first (node_modules often has restricted perms)
-			try {
-				execSync(`chmod -R u+w "${worktreePath}"`, { stdio: "ignore" });
-			} catch {
-				// Ignore chmod errors
-			}
-			fs.rmSync(worktreePath, { recursive: true, force: true });
+	// Metadata and trash steps can throw (e.g. a metadata lock timeout)
+	try {
+		// Gathered up front: post-remove runs after the worktree and its metadata are gone
+		const hookContext = getHookContext(branch, repoRoot, { worktreePath });
+		const preRemove = await runHook("pre-remove", hookContext);
+		if (!preRemove.success) return { success: false, error: preRemove.error };
+
+		// Back up commits and changes first, so `santree undo` can bring the worktree back
+		const trashed = await trashWorktree(repoRoot, branch, key, worktreePath);
+		if (!trashed.success) {
+			return { success: false, error: `${trashed.error}. Nothing was removed.` };
 		}
 
-		// Clean up centralized metadata entry
-		const ticketId = extractTicketId(branchName);
-		if (ticketId) {
-			const all = readAllMetadata(repoRoot);
-			if (all[ticketId]) {
-				delete all[ticketId];
-				writeAllMetadata(repoRoot, all);
-			}
-		}
+		if (lock) unlockWorktree(branch, repoRoot);
 
-		// Also delete the branch
-		const deleteFlag = force ? "-D" : "-d";
-		try {
-			await execAsync(`git branch ${deleteFlag} "${branchName}"`, {
-				cwd: repoRoot,
-			});
-		} catch {
-			// Branch deletion failed, but worktree was removed
+		const removed = await removeWorktreeCheckout(worktreePath, repoRoot, force);
+		if (!removed.success) {
+			purgeTrash(repoRoot, trashed.entry!);
+			return removed;
 		}
 
-		return { success: true };
+		// Clean up centralized metadata entry, which also releases its port block
+		removeWorktreeEntry(repoRoot, key);
+
+		// Also delete the branch (failure is fine — the worktree was removed)
+		await gitAsync(["branch", force ? "-D" : "-d", branch], { cwd: repoRoot });
+
+		const postRemove = await runHook("post-remove", hookContext);
+		return { success: true, warning: postRemove.error };
 	} catch (e) {
-		return {
-			success: false,
-			error: e instanceof Error ? e.message : "Unknown error",
-		};
+		return { success: false, error: e instanceof Error ? e.message : "Unknown error" };
 	}
 }
 
 /**
- * Extract a ticket ID (e.g. "TEAM-123") from a branch name.
- * Matches the first occurrence of LETTERS-DIGITS in the string.
- * Returns null if no ticket ID pattern is found.
+ * Remove a worktree checkout from disk, keeping its branch and metadata.
+ * Runs: `git worktree remove [--force] <worktreePath>`
  */
-export function extractTicketId(branch: string): string | null {
-	const match = branch.match(/([a-zA-Z]+)-(\d+)/);
-	if (match) {
-		return `${match[1]!.toUpperCase()}-${match[2]}`;
+export async function removeWorktreeCheckout(
+	worktreePath: string,
+	repoRoot: string,
+	force = false,
+): Promise<{ success: boolean; error?: string }> {
+	const removeArgs = ["worktree", "remove", ...(force ? ["--force"] : []), worktreePath];
+	const result = await gitAsync(removeArgs, { cwd: repoRoot });
+	if (!result.ok) {
+		return { success: false, error: commandError(result, "git worktree remove") };
 	}
-	return null;
-}
 
-/**
- * Get the filesystem path for a worktree by its branch name.
- * Uses `git worktree list --porcelain` under the hood.
- * Returns null if no worktree is checked out on that branch.
- */
-export function getWorktreePath(branchName: string): string | null {
-	const worktrees = listWorktrees();
-	// Try exact match first
-	const wt = worktrees.find((w) => w.branch === branchName);
-	if (wt) return wt.path;
-
-	// Fall back to matching by ticket ID
-	const inputTicketId = extractTicketId(branchName);
-	if (inputTicketId) {
-		const byTicket = worktrees.find((w) => w.branch && extractTicketId(w.branch) === inputTicketId);
-		if (byTicket) return byTicket.path;
+	// Clean up any remaining files (untracked files, node_modules, etc.)
+	// git worktree remove doesn't delete untracked files
+	if (fs.existsSync(worktreePath)) {
+		// Fix permissions first (node_modules often has restricted perms)
+		runCommand("chmod", ["-R", "u+w", worktreePath]);
+		fs.rmSync(worktreePath, { recursive: true, force: true });
 	}
 
-	return null;
-}
-
-/**
- * Get path to centralized metadata file: .santree/metadata.json in the repo root.
- */
-function getMetadataFilePath(repoRoot: string): string {
-	return path.join(getSantreeDir(repoRoot), "metadata.json");
+	return { success: true };
 }
 
 /**
- * Read all entries from .santree/metadata.json.
- * Returns an empty object if the file doesn't exist or can't be parsed.
+ * Extract a ticket ID (e.g. "TEAM-123") from a branch name.
+ * Matches the first occurrence of config `ticket_pattern` (default LETTERS-DIGITS) of the
+ * current repo, or of `repoRoot` when given;
+ * the first capture group is used if the pattern has one, otherwise the whole match.
+ * Returns null if no ticket ID pattern is found.
  */
-export function readAllMetadata(repoRoot: string): Record<string, any> {
-	const filePath = getMetadataFilePath(repoRoot);
-	if (!fs.existsSync(filePath)) return {};
-	try {
-		return JSON.parse(fs.readFileSync(filePath, "utf-8"));
-	} catch {
-		return {};
+export function extractTicketId(branch: string, repoRoot?: string | null): string | null {
+	const config = repoRoot ? getConfig(repoRoot) : repoConfig();
+	const match = branch.match(new RegExp(config.ticket_pattern));
+	if (match) {
+		return (match[1] ?? match[0]).toUpperCase();
 	}
+	return null;
 }
 
 /**
- * Write all entries to .santree/metadata.json.
+ * Turn a branch name into a filesystem-safe slug (e.g. "chore/bump-deps" → "chore-bump-deps").
  */
-export function writeAllMetadata(repoRoot: string, data: Record<string, any>): void {
-	const filePath = getMetadataFilePath(repoRoot);
-	const dir = path.dirname(filePath);
-	if (!fs.existsSync(dir)) {
-		fs.mkdirSync(dir, { recursive: true });
-	}
-	fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + "\n");
+function slugifyBranch(branch: string): string {
+	const slug = branch
+		.toLowerCase()
+		.replace(/[^a-z0-9._-]+/g, "-")
+		.replace(/-{2,}/g, "-")
+		.replace(/^[-._]+|[-.]+$/g, "");
+	return slug || "worktree";
 }
 
 /**
- * Get the Linear org slug associated with this repo.
- * Stored as `_linear.org` in .santree/metadata.json.
+ * Get the key that identifies a branch's worktree: its directory name under the worktrees dir
+ * and its entry in .santree/metadata.json.
+ * This is the ticket ID when the branch has one, otherwise a slug of the branch name.
  */
-export function getRepoLinearOrg(repoRoot: string): string | null {
-	const all = readAllMetadata(repoRoot);
-	return all._linear?.org ?? null;
+export function getWorktreeKey(branch: string, repoRoot?: string | null): string {
+	return extractTicketId(branch, repoRoot) ?? slugifyBranch(branch);
 }
 
 /**
- * Associate a Linear org slug with this repo.
- * Stored as `_linear.org` in .santree/metadata.json.
+ * Describe a branch's worktree for a lifecycle hook (see hooks.ts). Collected before the
+ * operation so post-remove still sees the removed worktree's path and ports.
  */
-export function setRepoLinearOrg(repoRoot: string, orgSlug: string): void {
-	const all = readAllMetadata(repoRoot);
-	all._linear = { org: orgSlug };
-	writeAllMetadata(repoRoot, all);
-}
-
-/**
- * Remove the Linear org association from this repo.
- * Deletes the `_linear` key from .santree/metadata.json.
+export function getHookContext(
+	branchName: string,
+	repoRoot: string,
+	extra: Partial<HookContext> = {},
+): HookContext {
+	const key = getWorktreeKey(branchName, repoRoot);
+	const entry = getWorktreeEntry(repoRoot, key);
+	return {
+		repoRoot,
+		branch: branchName,
+		key,
+		ticketId: extractTicketId(branchName, repoRoot),
+		worktreePath: getWorktreePath(branchName, repoRoot),
+		baseBranch: entry?.base_branch ?? getDefaultBranch(getBaseRemote(null, repoRoot), repoRoot),
+		prNumber: entry?.pr_number ? String(entry.pr_number) : null,
+		ports: entry?.ports ?? null,
+		...extra,
+	};
+}
+
+/**
+ * Find the worktree for a branch name, in the current repo or in `repoRoot` when given.
+ * A ticket ID matches the worktree whose branch has it, so `TEAM-2` finds `TEAM-2-bar`:
+ * use the returned worktree's branch rather than the name that was passed in.
+ * Uses `git worktree list --porcelain` under the hood.
+ * Returns null if no worktree is checked out on that branch.
  */
-export function removeRepoLinearOrg(repoRoot: string): void {
-	const all = readAllMetadata(repoRoot);
-	delete all._linear;
-	writeAllMetadata(repoRoot, all);
-}
+export function findWorktree(branchName: string, repoRoot?: string | null): Worktree | null {
+	const worktrees = listWorktrees(repoRoot);
+	// Try exact match first
+	const wt = worktrees.find((w) => w.branch === branchName);
+	if (wt) return wt;
 
-/**
- * Get the stored session ID for a given ticket from .santree/metadata.json.
- * Returns null if no session ID is stored.
- */
-export function getSessionId(repoRoot: string, ticketId: string): string | null {
-	const all = readAllMetadata(repoRoot);
-	return all[ticketId]?.session_id ?? null;
+	// Fall back to matching by ticket ID
+	const inputTicketId = extractTicketId(branchName, repoRoot);
+	if (inputTicketId) {
+		const byTicket = worktrees.find(
+			(w) => w.branch && extractTicketId(w.branch, repoRoot) === inputTicketId,
+		);
+		if (byTicket) return byTicket;
+	}
+
+	return null;
 }
 
 /**
- * Store a session ID for a given ticket in .santree/metadata.json.
+ * Get the filesystem path for a worktree by its branch name (see findWorktree).
+ * Returns null if no worktree is checked out on that branch.
  */
-export function setSessionId(repoRoot: string, ticketId: string, sessionId: string): void {
-	const all = readAllMetadata(repoRoot);
-	all[ticketId] = { ...all[ticketId], session_id: sessionId };
-	writeAllMetadata(repoRoot, all);
+export function getWorktreePath(branchName: string, repoRoot?: string | null): string | null {
+	return findWorktree(branchName, repoRoot)?.path ?? null;
 }
 
 /**
- * Get the base branch for a given branch name.
+ * Get the base branch for a given branch name, in the current repo or in `repoRoot` when given.
  * Looks up metadata first, falls back to the default branch.
  */
-export function getBaseBranch(branchName: string): string {
-	const metadata = getWorktreeMetadata(branchName);
-	return metadata?.base_branch ?? getDefaultBranch();
+export function getBaseBranch(branchName: string, repoRoot?: string | null): string {
+	const metadata = getWorktreeMetadata(branchName, repoRoot);
+	return metadata?.base_branch ?? getDefaultBranch(getBaseRemote(null, repoRoot), repoRoot);
 }
 
 /**
- * Look up worktree metadata by branch name from centralized .santree/metadata.json.
+ * Look up worktree metadata by branch name from centralized .santree/metadata.json
+ * of the current repo, or of `repoRoot` when given.
  * Returns null if no metadata found (caller should fall back to default branch).
  */
-export function getWorktreeMetadata(branchName: string): { base_branch: string } | null {
-	const repoRoot = findMainRepoRoot();
+export function getWorktreeMetadata(
+	branchName: string,
+	repoRoot: string | null = findMainRepoRoot(),
+): WorktreeMetadata | null {
 	if (!repoRoot) return null;
 
-	const ticketId = extractTicketId(branchName);
-	if (!ticketId) return null;
-
-	const all = readAllMetadata(repoRoot);
-	return all[ticketId] ?? null;
+	return getWorktreeEntry(repoRoot, getWorktreeKey(branchName, repoRoot));
 }
 
 /**
@@ -417,7 +593,7 @@ export function getWorktreeMetadata(branchName: string): { base_branch: string }
  * Returns false if not in a git repo.
  */
 export function hasUncommittedChanges(): boolean {
-	const output = run("git status --porcelain");
+	const output = commandOutput(git(["status", "--porcelain"]));
 	return output !== null && output !== "";
 }
 
@@ -427,12 +603,7 @@ export function hasUncommittedChanges(): boolean {
  * Returns false if not in a git repo.
  */
 export function hasStagedChanges(): boolean {
-	try {
-		execSync("git diff --cached --quiet", { stdio: "ignore" });
-		return false;
-	} catch {
-		return true;
-	}
+	return !git(["diff", "--cached", "--quiet"]).ok;
 }
 
 /**
@@ -441,19 +612,11 @@ export function hasStagedChanges(): boolean {
  * Returns false if not in a git repo.
  */
 export function hasUnstagedChanges(): boolean {
-	try {
-		// Check for modified files
-		try {
-			execSync("git diff --quiet", { stdio: "ignore" });
-		} catch {
-			return true;
-		}
-		// Check for untracked files
-		const output = run("git ls-files --others --exclude-standard");
-		return output !== null && output !== "";
-	} catch {
-		return false;
-	}
+	// Check for modified files
+	if (!git(["diff", "--quiet"]).ok) return true;
+	// Check for untracked files
+	const output = commandOutput(git(["ls-files", "--others", "--exclude-standard"]));
+	return output !== null && output !== "";
 }
 
 /**
@@ -462,7 +625,7 @@ export function hasUnstagedChanges(): boolean {
  * Returns empty string on failure.
  */
 export function getGitStatus(): string {
-	return run("git status --short") ?? "";
+	return commandOutput(git(["status", "--short"])) ?? "";
 }
 
 /**
@@ -470,7 +633,7 @@ export function getGitStatus(): string {
  * Returns empty string on failure.
  */
 export async function getGitStatusAsync(cwd: string): Promise<string> {
-	return (await runAsync(`git -C "${cwd}" status --short`)) ?? "";
+	return commandOutput(await gitAsync(["status", "--short"], { cwd })) ?? "";
 }
 
 /**
@@ -479,16 +642,16 @@ export async function getGitStatusAsync(cwd: string): Promise<string> {
  * Returns empty string on failure.
  */
 export function getStagedDiffStat(): string {
-	return run("git diff --cached --stat") ?? "";
+	return commandOutput(git(["diff", "--cached", "--stat"])) ?? "";
 }
 
 /**
- * Count how many commits the current branch is behind origin/baseBranch.
- * Runs: `git rev-list --count HEAD..origin/<baseBranch>`
+ * Count how many commits the current branch is behind <remote>/baseBranch.
+ * Runs: `git rev-list --count HEAD..<remote>/<baseBranch>`
  * Returns 0 on failure.
  */
-export function getCommitsBehind(baseBranch: string): number {
-	const output = run(`git rev-list --count HEAD..origin/${baseBranch}`);
+export function getCommitsBehind(baseBranch: string, remote = getBaseRemote()): number {
+	const output = commandOutput(git(["rev-list", "--count", `HEAD..${remote}/${baseBranch}`]));
 	return output ? parseInt(output, 10) || 0 : 0;
 }
 
@@ -498,7 +661,7 @@ export function getCommitsBehind(baseBranch: string): number {
  * Returns 0 on failure.
  */
 export function getCommitsAhead(baseBranch: string): number {
-	const output = run(`git rev-list --count ${baseBranch}..HEAD`);
+	const output = commandOutput(git(["rev-list", "--count", `${baseBranch}..HEAD`]));
 	return output ? parseInt(output, 10) || 0 : 0;
 }
 
@@ -507,74 +670,69 @@ export function getCommitsAhead(baseBranch: string): number {
  * Returns 0 on failure.
  */
 export async function getCommitsAheadAsync(cwd: string, baseBranch: string): Promise<number> {
-	const output = await runAsync(`git -C "${cwd}" rev-list --count ${baseBranch}..HEAD`);
+	const output = commandOutput(
+		await gitAsync(["rev-list", "--count", `${baseBranch}..HEAD`], { cwd }),
+	);
 	return output ? parseInt(output, 10) || 0 : 0;
 }
 
 /**
- * Check if a branch exists on the remote (origin).
- * Runs: `git ls-remote --heads origin <branchName>`
+ * Check if a branch exists on its push remote.
+ * Runs: `git ls-remote --heads <remote> <branchName>`
  * Returns false on failure.
  */
 export function remoteBranchExists(branchName: string): boolean {
-	const output = run(`git ls-remote --heads origin ${branchName}`);
+	const output = commandOutput(
+		git(["ls-remote", "--heads", getPushRemote(branchName), branchName]),
+	);
 	return output !== null && output.includes(branchName);
 }
 
 /**
- * Count how many local commits haven't been pushed to origin.
- * Runs: `git rev-list --count origin/<branchName>..HEAD`
+ * Count how many local commits haven't been pushed to the branch's push remote.
+ * Runs: `git rev-list --count <remote>/<branchName>..HEAD`
  * If no remote tracking branch exists, counts all commits on HEAD.
  * Returns 0 on failure.
  */
 export function getUnpushedCommits(branchName: string): number {
-	try {
-		// Check if remote tracking branch exists
-		try {
-			execSync(`git rev-parse --verify origin/${branchName}`, {
-				stdio: "ignore",
-			});
-		} catch {
-			// No remote branch, count all local commits
-			const output = run("git rev-list --count HEAD");
-			return output ? parseInt(output, 10) || 0 : 0;
-		}
-
-		// Count commits ahead of remote
-		const output = run(`git rev-list --count origin/${branchName}..HEAD`);
+	const remote = getPushRemote(branchName);
+	// Check if remote tracking branch exists
+	if (!git(["rev-parse", "--verify", `${remote}/${branchName}`]).ok) {
+		// No remote branch, count all local commits
+		const output = commandOutput(git(["rev-list", "--count", "HEAD"]));
 		return output ? parseInt(output, 10) || 0 : 0;
-	} catch {
-		return 0;
 	}
+
+	// Count commits ahead of remote
+	const output = commandOutput(git(["rev-list", "--count", `${remote}/${branchName}..HEAD`]));
+	return output ? parseInt(output, 10) || 0 : 0;
 }
 
 /**
- * Fetch from origin and pull the latest changes on a base branch.
- * Runs: `git fetch origin`, `git checkout <baseBranch>`, `git pull origin <baseBranch>`
+ * Fetch from a remote (default: the base remote) and pull the latest changes on a base branch.
+ * Runs: `git fetch <remote>`, `git checkout <baseBranch>`, `git pull <remote> <baseBranch>`
  * Returns { success: false, message } if any step fails.
  */
 export function pullLatest(
 	baseBranch: string,
 	repoRoot: string,
+	remote = getBaseRemote(null, repoRoot),
 ): { success: boolean; message: string } {
-	try {
-		// Fetch from origin
-		execSync("git fetch origin", { cwd: repoRoot, stdio: "ignore" });
-
+	const steps = [
+		// Fetch from the remote
+		["fetch", remote],
 		// Update the base branch
-		execSync(`git checkout ${baseBranch}`, { cwd: repoRoot, stdio: "ignore" });
-		execSync(`git pull origin ${baseBranch}`, {
-			cwd: repoRoot,
-			stdio: "ignore",
-		});
-
-		return { success: true, message: "Fetched latest changes" };
-	} catch (e) {
-		return {
-			success: false,
-			message: e instanceof Error ? e.message : "Failed to pull latest",
-		};
+		["checkout", baseBranch],
+		["pull", remote, baseBranch],
+	];
+	for (const args of steps) {
+		const result = git(args, { cwd: repoRoot });
+		if (!result.ok) {
+			return { success: false, message: commandError(result, `git ${args[0]}`) };
+		}
 	}
+
+	return { success: true, message: "Fetched latest changes" };
 }
 
 /**
@@ -598,7 +756,7 @@ export function getInitScriptPath(repoRoot: string): string {
  * Returns null if not in a git repo or no commits.
  */
 export function getLatestCommitMessage(): string | null {
-	return run("git log -1 --format=%s");
+	return commandOutput(git(["log", "-1", "--format=%s"]));
 }
 
 /**
@@ -607,7 +765,7 @@ export function getLatestCommitMessage(): string | null {
  * Returns null if there are no commits ahead of baseBranch.
  */
 export function getFirstCommitMessage(baseBranch: string): string | null {
-	const output = run(`git log ${baseBranch}..HEAD --reverse --format=%s`);
+	const output = commandOutput(git(["log", `${baseBranch}..HEAD`, "--reverse", "--format=%s"]));
 	if (!output) return null;
 	const firstLine = output.split("\n")[0];
 	return firstLine || null;
@@ -619,7 +777,7 @@ export function getFirstCommitMessage(baseBranch: string): string | null {
  * Returns null if there are no commits or on failure.
  */
 export function getCommitLog(baseBranch: string): string | null {
-	return run(`git log ${baseBranch}..HEAD --format="- %s"`) || null;
+	return commandOutput(git(["log", `${baseBranch}..HEAD`, "--format=- %s"])) || null;
 }
 
 /**
@@ -628,15 +786,14 @@ export function getCommitLog(baseBranch: string): string | null {
  * Returns null if there are no changes or on failure.
  */
 export function getDiffStat(baseBranch: string): string | null {
-	return run(`git diff ${baseBranch}..HEAD --stat`) || null;
+	return commandOutput(git(["diff", `${baseBranch}..HEAD`, "--stat"])) || null;
 }
 
 /**
  * Get the full diff of all changes since baseBranch.
  * Runs: `git diff <baseBranch>..HEAD`
- * Uses a 10MB max buffer for large diffs.
  * Returns null if there are no changes or on failure.
  */
 export function getDiffContent(baseBranch: string): string | null {
-	return run(`git diff ${baseBranch}..HEAD`, { maxBuffer: 10 * 1024 * 1024 }) || null;
+	return commandOutput(git(["diff", `${baseBranch}..HEAD`])) || null;
 }
@@ -1,8 +1,12 @@
-import { execSync, exec } from "child_process";
-import { promisify } from "util";
-import { run, runAsync } from "./exec.js";
-
-const execAsync = promisify(exec);
+import { git, gitAsync, gh, ghAsync, commandOutput, commandError, commandExists } from "./exec.js";
+import {
+	getBaseRemote,
+	getPushRemote,
+	getCurrentBranch,
+	findMainRepoRoot,
+	getWorktreeKey,
+} from "./git.js";
+import { getWorktreeEntry } from "./metadata.js";
 
 export interface PRInfo {
 	number: string;
@@ -11,17 +15,92 @@ export interface PRInfo {
 	url?: string;
 }
 
+// ── Remotes ────────────────────────────────────────────────────────────
+
+export interface RemoteRepo {
+	host: string;
+	owner: string;
+	name: string;
+}
+
+// git@host:owner/repo.git, https://host/owner/repo, ssh://git@host:22/owner/repo.git
+const REMOTE_URL_RE =
+	/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/]([^/]+)\/([^/]+?)(?:\.git)?\/?$/;
+
+/**
+ * Get the GitHub repository a remote points at, parsed from its URL.
+ * Runs: `git remote get-url <remote>`
+ * Returns null if the remote doesn't exist or isn't a host/owner/repo URL.
+ */
+export function getRemoteRepo(remote: string, repoRoot?: string | null): RemoteRepo | null {
+	const url = commandOutput(git(["remote", "get-url", remote], { cwd: repoRoot ?? undefined }));
+	const match = url?.match(REMOTE_URL_RE);
+	return match ? { host: match[1]!, owner: match[2]!, name: match[3]! } : null;
+}
+
+/**
+ * Environment for gh calls about a branch (default: the current branch).
+ * When its base and push remotes differ (working from a fork), GH_REPO points gh at the
+ * base remote's repository, where the PRs live. Otherwise gh picks the repository itself.
+ * `repoRoot` looks the branch up in another repo than the current one.
+ */
+export function ghEnv(
+	branch: string | null = getCurrentBranch(),
+	repoRoot?: string | null,
+): NodeJS.ProcessEnv | undefined {
+	const baseRemote = getBaseRemote(branch, repoRoot);
+	if (baseRemote === getPushRemote(branch, repoRoot)) return undefined;
+	const repo = getRemoteRepo(baseRemote, repoRoot);
+	return repo ? { ...process.env, GH_REPO: `${repo.host}/${repo.owner}/${repo.name}` } : undefined;
+}
+
+/**
+ * Get the `--head` of a branch's PR: `<owner>:<branch>` when the push remote is a different
+ * repository than the base remote (a fork), else the branch itself.
+ */
+export function getPRHeadArg(branchName: string, repoRoot?: string | null): string {
+	const baseRemote = getBaseRemote(branchName, repoRoot);
+	const pushRemote = getPushRemote(branchName, repoRoot);
+	if (baseRemote === pushRemote) return branchName;
+	const base = getRemoteRepo(baseRemote, repoRoot);
+	const push = getRemoteRepo(pushRemote, repoRoot);
+	return push && base && push.owner !== base.owner ? `${push.owner}:${branchName}` : branchName;
+}
+
+// ── Pull Requests ──────────────────────────────────────────────────────
+
+/**
+ * Get the argument to pass to `gh pr view` for a branch.
+ * Worktrees checked out with `--from-pr` use the stored PR number, since a fork PR's
+ * local branch name (`<owner>/<branch>`) doesn't match its head branch on GitHub.
+ * Branches pushed to a fork are looked up as `<owner>:<branch>`.
+ */
+export function getPRRef(branchName: string, repoRoot: string | null = findMainRepoRoot()): string {
+	const prNumber = repoRoot
+		? getWorktreeEntry(repoRoot, getWorktreeKey(branchName, repoRoot))?.pr_number
+		: undefined;
+	return prNumber ? String(prNumber) : getPRHeadArg(branchName, repoRoot);
+}
+
 /**
  * Get PR info for a branch using the GitHub CLI (async).
- * Runs: `gh pr view "<branchName>" --json number,state,url,isDraft`
+ * Pass `repoRoot` to look up a branch of another repo than the current one.
+ * Runs: `gh pr view <branchName> --json number,state,url,isDraft`
  * Returns null if no PR exists for the branch or gh CLI fails.
  */
-export async function getPRInfoAsync(branchName: string): Promise<PRInfo | null> {
+export async function getPRInfoAsync(
+	branchName: string,
+	repoRoot?: string,
+): Promise<PRInfo | null> {
+	const output = commandOutput(
+		await ghAsync(
+			["pr", "view", getPRRef(branchName, repoRoot), "--json", "number,state,url,isDraft"],
+			{ cwd: repoRoot, env: ghEnv(branchName, repoRoot) },
+		),
+	);
+	if (!output) return null;
 	try {
-		const { stdout } = await execAsync(
-			`gh pr view "${branchName}" --json number,state,url,isDraft`,
-		);
-		const data = JSON.parse(stdout);
+		const data = JSON.parse(output);
 		return {
 			number: String(data.number ?? ""),
 			state: data.state ?? "OPEN",
@@ -33,41 +112,151 @@ export async function getPRInfoAsync(branchName: string): Promise<PRInfo | null>
 	}
 }
 
+export interface PRHead {
+	number: number;
+	title: string;
+	url: string;
+	state: "OPEN" | "MERGED" | "CLOSED";
+	headRefName: string;
+	baseRefName: string;
+	headOwner: string;
+	isCrossRepository: boolean;
+}
+
+/**
+ * Get the number and last head commit of a branch's merged PR (async), e.g. to tell a branch's
+ * own commits apart after it was squash-merged and deleted.
+ * `forBranch` picks the repository to ask (see ghEnv; default: the current branch).
+ * Runs: `gh pr list --head <branchName> --state merged --json number,headRefOid --limit 1`
+ * Returns null if the branch has no merged PR or gh CLI fails.
+ */
+export async function getMergedPRHeadAsync(
+	branchName: string,
+	forBranch?: string,
+): Promise<{ number: number; sha: string } | null> {
+	const output = commandOutput(
+		await ghAsync(
+			[
+				"pr",
+				"list",
+				"--head",
+				branchName,
+				"--state",
+				"merged",
+				"--json",
+				"number,headRefOid",
+				"--limit",
+				"1",
+			],
+			{ env: ghEnv(forBranch) },
+		),
+	);
+	if (!output) return null;
+	try {
+		const [pr] = JSON.parse(output);
+		return pr?.headRefOid ? { number: pr.number, sha: pr.headRefOid } : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Resolve a PR number, `#number` or URL to its head and base refs (async).
+ * Runs: `gh pr view <ref> --json number,title,url,state,headRefName,baseRefName,headRepositoryOwner,isCrossRepository`
+ * Returns null if the PR can't be found or gh CLI fails.
+ */
+export async function getPRHeadAsync(ref: string): Promise<PRHead | null> {
+	const output = commandOutput(
+		await ghAsync(
+			[
+				"pr",
+				"view",
+				ref.replace(/^#/, ""),
+				"--json",
+				"number,title,url,state,headRefName,baseRefName,headRepositoryOwner,isCrossRepository",
+			],
+			{ env: ghEnv() },
+		),
+	);
+	if (!output) return null;
+	try {
+		const data = JSON.parse(output);
+		return {
+			number: data.number,
+			title: data.title ?? "",
+			url: data.url ?? "",
+			state: data.state ?? "OPEN",
+			headRefName: data.headRefName,
+			baseRefName: data.baseRefName,
+			headOwner: data.headRepositoryOwner?.login ?? "",
+			isCrossRepository: data.isCrossRepository ?? false,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Local branch name for checking out a PR.
+ * Fork PRs are prefixed with the fork owner so they can't collide with branches in this repo.
+ */
+export function getPRLocalBranch(pr: PRHead): string {
+	return pr.isCrossRepository ? `${pr.headOwner}/${pr.headRefName}` : pr.headRefName;
+}
+
+/**
+ * Fetch a PR's head commit into a local branch from the base remote, where PRs live.
+ * Same-repo PRs are fetched from their branch and tracked so `git push` updates the PR.
+ * Fork PRs are fetched from `pull/<number>/head`, which works without adding the fork as a remote.
+ * Runs: `git fetch <remote> <head>:<branch>` + `git branch -u <remote>/<head> <branch>`
+ *   or: `git fetch <remote> pull/<number>/head:<branch>`
+ */
+export async function fetchPRBranch(
+	pr: PRHead,
+	branch: string,
+	repoRoot: string,
+	remote = getBaseRemote(null, repoRoot),
+): Promise<{ success: boolean; error?: string }> {
+	const source = pr.isCrossRepository ? `pull/${pr.number}/head` : pr.headRefName;
+
+	const fetched = await gitAsync(["fetch", remote, `${source}:${branch}`], { cwd: repoRoot });
+	if (!fetched.ok) {
+		return { success: false, error: commandError(fetched, "git fetch") };
+	}
+
+	if (!pr.isCrossRepository) {
+		// Fetching into a local branch doesn't update the remote-tracking ref, so fetch it too
+		await gitAsync(["fetch", remote, pr.headRefName], { cwd: repoRoot });
+		git(["branch", "-u", `${remote}/${pr.headRefName}`, branch], { cwd: repoRoot });
+	}
+
+	return { success: true };
+}
+
 /**
  * Check if the GitHub CLI (gh) is available on PATH.
  * Runs: `which gh`
  * Returns false if gh is not installed.
  */
 export function ghCliAvailable(): boolean {
-	try {
-		execSync("which gh", { stdio: "ignore" });
-		return true;
-	} catch {
-		return false;
-	}
+	return commandExists("gh");
 }
 
 /**
- * Push a branch to origin, optionally with --force-with-lease.
- * Runs: `git push -u origin "<branchName>" [--force-with-lease]`
+ * Push a branch to its push remote, optionally with --force-with-lease.
+ * Runs: `git push -u <remote> <branchName> [--force-with-lease]`
  * Uses stdio: "inherit" so push progress is shown to the user.
  * Returns false if the push fails.
  */
 export function pushBranch(branchName: string, force = false): boolean {
-	try {
-		const forceFlag = force ? "--force-with-lease" : "";
-		execSync(`git push -u origin "${branchName}" ${forceFlag}`.trim(), {
-			stdio: "inherit",
-		});
-		return true;
-	} catch {
-		return false;
-	}
+	const remote = getPushRemote(branchName);
+	const args = ["push", "-u", remote, branchName, ...(force ? ["--force-with-lease"] : [])];
+	return git(args, { stdio: "inherit" }).ok;
 }
 
 /**
- * Create a GitHub pull request and open it in the browser.
- * Runs: `gh pr create --title "<title>" --base "<baseBranch>" --head "<headBranch>" --web [--body-file "<bodyFile>"]`
+ * Create a GitHub pull request against the base remote's repository and open it in the browser.
+ * Runs: `gh pr create --title <title> --base <baseBranch> --head [<owner>:]<headBranch> --web [--body-file <bodyFile>]`
  * Uses stdio: "inherit" so the browser open is handled by gh.
  * Returns 0 on success, 1 on failure.
  */
@@ -77,16 +266,19 @@ export function createPR(
 	headBranch: string,
 	bodyFile?: string,
 ): number {
-	try {
-		const bodyFlag = bodyFile ? `--body-file "${bodyFile}"` : "";
-		execSync(
-			`gh pr create --title "${title}" --base "${baseBranch}" --head "${headBranch}" --web ${bodyFlag}`.trim(),
-			{ stdio: "inherit" },
-		);
-		return 0;
-	} catch {
-		return 1;
-	}
+	const args = [
+		"pr",
+		"create",
+		"--title",
+		title,
+		"--base",
+		baseBranch,
+		"--head",
+		getPRHeadArg(headBranch),
+		"--web",
+	];
+	if (bodyFile) args.push("--body-file", bodyFile);
+	return gh(args, { stdio: "inherit", env: ghEnv(headBranch) }).ok ? 0 : 1;
 }
 
 /**
@@ -95,8 +287,11 @@ export function createPR(
  * Returns the decoded template content, or null if none exists.
  */
 export function getPRTemplate(): string | null {
-	const output = run(
-		`gh api repos/{owner}/{repo}/contents/.github/pull_request_template.md --jq .content`,
+	const output = commandOutput(
+		gh(
+			["api", "repos/{owner}/{repo}/contents/.github/pull_request_template.md", "--jq", ".content"],
+			{ env: ghEnv() },
+		),
 	);
 	if (!output) return null;
 	return Buffer.from(output, "base64").toString("utf-8");
@@ -106,8 +301,11 @@ export function getPRTemplate(): string | null {
  * Fetch CI check results for a pull request (async).
  */
 export async function getPRChecksAsync(prNumber: string): Promise<PRCheck[] | null> {
-	const output = await runAsync(
-		`gh pr checks ${prNumber} --json name,state,bucket,link,description,workflow`,
+	const output = commandOutput(
+		await ghAsync(
+			["pr", "checks", prNumber, "--json", "name,state,bucket,link,description,workflow"],
+			{ env: ghEnv() },
+		),
 	);
 	if (!output) return null;
 	try {
@@ -121,7 +319,9 @@ export async function getPRChecksAsync(prNumber: string): Promise<PRCheck[] | nu
  * Fetch reviews for a pull request (async).
  */
 export async function getPRReviewsAsync(prNumber: string): Promise<PRReview[] | null> {
-	const output = await runAsync(`gh pr view ${prNumber} --json reviews`);
+	const output = commandOutput(
+		await ghAsync(["pr", "view", prNumber, "--json", "reviews"], { env: ghEnv() }),
+	);
 	if (!output) return null;
 	try {
 		const data = JSON.parse(output);
@@ -137,8 +337,10 @@ export async function getPRReviewsAsync(prNumber: string): Promise<PRReview[] |
 export async function getPRReviewCommentsAsync(
 	prNumber: string,
 ): Promise<PRReviewComment[] | null> {
-	const output = await runAsync(
-		`gh api repos/{owner}/{repo}/pulls/${prNumber}/comments --paginate`,
+	const output = commandOutput(
+		await ghAsync(["api", `repos/{owner}/{repo}/pulls/${prNumber}/comments`, "--paginate"], {
+			env: ghEnv(),
+		}),
 	);
 	if (!output) return null;
 	try {
@@ -154,7 +356,9 @@ export async function getPRReviewCommentsAsync(
 export async function getPRConversationCommentsAsync(
 	prNumber: string,
 ): Promise<PRConversationComment[] | null> {
-	const output = await runAsync(`gh pr view ${prNumber} --json comments`);
+	const output = commandOutput(
+		await ghAsync(["pr", "view", prNumber, "--json", "comments"], { env: ghEnv() }),
+	);
 	if (!output) return null;
 	try {
 		const data = JSON.parse(output);
@@ -188,7 +392,9 @@ export async function getFailedCheckDetailsAsync(check: PRCheck): Promise<Failed
 	let stepStartMs = 0;
 	let stepEndMs = 0;
 
-	const jobOutput = await runAsync(`gh api repos/{owner}/{repo}/actions/jobs/${jobId}`);
+	const jobOutput = commandOutput(
+		await ghAsync(["api", `repos/{owner}/{repo}/actions/jobs/${jobId}`], { env: ghEnv() }),
+	);
 	if (jobOutput) {
 		try {
 			const job = JSON.parse(jobOutput);
@@ -203,8 +409,8 @@ export async function getFailedCheckDetailsAsync(check: PRCheck): Promise<Failed
 
 	if (!stepStartMs) return detail;
 
-	const logOutput = await runAsync(
-		`gh api repos/{owner}/{repo}/actions/jobs/${jobId}/logs 2>/dev/null`,
+	const logOutput = commandOutput(
+		await ghAsync(["api", `repos/{owner}/{repo}/actions/jobs/${jobId}/logs`], { env: ghEnv() }),
 	);
 	if (logOutput) {
 		const lines = logOutput.split("\n");
@@ -0,0 +1,131 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getConfig, type HookName } from "./config.js";
+import type { PortBlock } from "./metadata.js";
+import { spawnAsync } from "./exec.js";
+
+// Lifecycle hooks run shell commands around santree operations:
+//   pre-create / post-create  - around `git worktree add` in createWorktree
+//   pre-remove / post-remove  - around removeWorktree
+//   post-sync                 - after a worktree was synced with its base
+//   pre-commit-push           - after `worktree commit` commits, before it pushes
+//   post-pr-create            - after `pr create` opened the PR
+// A hook is the commands under `hooks.<name>` in the config, then `.santree/hooks/<name>`
+// if that file is executable. A failing pre-* hook aborts the operation; a failing post-*
+// hook is reported but the operation has already happened.
+
+export type { HookName };
+
+/** What a hook is told about the worktree, as SANTREE_* variables (see getHookEnv) */
+export interface HookContext {
+	repoRoot: string;
+	branch: string;
+	/** Worktree key: ticket ID or branch slug */
+	key: string;
+	ticketId: string | null;
+	worktreePath?: string | null;
+	baseBranch?: string | null;
+	prNumber?: string | null;
+	/** The worktree's ports, if it has been given any (see ports.ts) */
+	ports?: PortBlock | null;
+}
+
+export interface HookResult {
+	success: boolean;
+	output: string;
+	error?: string;
+}
+
+const ERROR_OUTPUT_LINES = 5;
+
+/**
+ * Get the path of a hook script: .santree/hooks/<name> in the repo root.
+ */
+export function getHookScriptPath(repoRoot: string, name: HookName): string {
+	return path.join(repoRoot, ".santree", "hooks", name);
+}
+
+/**
+ * Get the commands a hook runs, in order: configured commands, then the hook script.
+ */
+export function getHookCommands(repoRoot: string, name: HookName): string[] {
+	const configured = getConfig(repoRoot).hooks[name];
+	const commands = configured === undefined ? [] : [configured].flat();
+	const script = getHookScriptPath(repoRoot, name);
+	try {
+		fs.accessSync(script, fs.constants.X_OK);
+		commands.push(JSON.stringify(script));
+	} catch {
+		// No script, or not executable
+	}
+	return commands;
+}
+
+/**
+ * Environment variables passed to a hook. Variables without a value are left unset:
+ *   SANTREE_HOOK, SANTREE_REPO_ROOT, SANTREE_BRANCH, SANTREE_WORKTREE_KEY, SANTREE_TICKET,
+ *   SANTREE_WORKTREE_PATH, SANTREE_BASE_BRANCH, SANTREE_PR_NUMBER,
+ *   SANTREE_PORT and SANTREE_PORT_<n> (when the worktree has ports, see ports.ts)
+ */
+export function getHookEnv(name: HookName, ctx: HookContext): Record<string, string> {
+	const values: Record<string, string | null | undefined> = {
+		SANTREE_HOOK: name,
+		SANTREE_REPO_ROOT: ctx.repoRoot,
+		SANTREE_BRANCH: ctx.branch,
+		SANTREE_WORKTREE_KEY: ctx.key,
+		SANTREE_TICKET: ctx.ticketId,
+		SANTREE_WORKTREE_PATH: ctx.worktreePath,
+		SANTREE_BASE_BRANCH: ctx.baseBranch,
+		SANTREE_PR_NUMBER: ctx.prNumber,
+	};
+
+	if (ctx.ports) {
+		values.SANTREE_PORT = String(ctx.ports.base);
+		for (let i = 0; i < ctx.ports.count; i++) {
+			values[`SANTREE_PORT_${i}`] = String(ctx.ports.base + i);
+		}
+	}
+
+	const env: Record<string, string> = {};
+	for (const [key, value] of Object.entries(values)) {
+		if (value) env[key] = value;
+	}
+	return env;
+}
+
+/**
+ * Run a lifecycle hook's commands in order, stopping at the first failure.
+ * Commands run in the worktree when it exists on disk, otherwise in the repo root.
+ * Succeeds without running anything when the hook isn't configured.
+ */
+export async function runHook(
+	name: HookName,
+	ctx: HookContext,
+	onOutput?: (output: string) => void,
+): Promise<HookResult> {
+	const commands = getHookCommands(ctx.repoRoot, name);
+	if (commands.length === 0) return { success: true, output: "" };
+
+	const cwd = ctx.worktreePath && fs.existsSync(ctx.worktreePath) ? ctx.worktreePath : ctx.repoRoot;
+	const env = { ...process.env, ...getHookEnv(name, ctx) };
+	let output = "";
+
+	for (const command of commands) {
+		const result = await spawnAsync("sh", ["-c", command], {
+			cwd,
+			env,
+			onOutput: (text) => onOutput?.(output + text),
+		});
+		output += result.output;
+		if (result.code !== 0) {
+			const tail = result.output.trim().split("\n").slice(-ERROR_OUTPUT_LINES).join("\n");
+			return {
+				success: false,
+				output,
+				error: `${name} hook failed: \`${command}\` exited with code ${result.code}${tail ? `\n${tail}` : ""}`,
+			};
+		}
+	}
+
+	return { success: true, output };
+}
@@ -0,0 +1,258 @@
+import { createRequire } from "module";
+import { loadConfig } from "./config.js";
+import { findMainRepoRoot } from "./git.js";
+import { getAuthStatus, getValidTokens } from "./linear.js";
+import { runDoctorChecks } from "./doctor.js";
+import { loadWorktreeList } from "./list.js";
+import { loadDashboardData } from "./dashboard/data.js";
+import type { DashboardIssue } from "./dashboard/types.js";
+
+// Read commands print JSON instead of rendering with Ink when given `--json`, so scripts and
+// editor integrations can consume them. cli.tsx hands those invocations to runJsonCommand
+// before Pastel runs. Every document is one object on stdout:
+//   { "schema": "santree.<name>", "version": <n>, "data": { ... } }
+// and failures print { "schema": "santree.error", "version": 1, "error": { "message" } }.
+// A schema's version is bumped whenever a field is removed, renamed or changes type; new
+// fields can be added without a bump. The exit codes match the Ink commands (see README).
+
+const require = createRequire(import.meta.url);
+const { version } = require("../../package.json");
+
+export const JSON_SCHEMA_VERSIONS = {
+	"santree.worktree-list": 1,
+	"santree.doctor": 1,
+	"santree.linear-auth-status": 1,
+	"santree.dashboard": 1,
+	"santree.error": 1,
+} as const;
+
+export type JsonSchema = keyof typeof JSON_SCHEMA_VERSIONS;
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+
+// ── Output ─────────────────────────────────────────────────────────────
+
+/**
+ * Write a document to stdout and exit once it's flushed, so piped output isn't cut short.
+ */
+function writeAndExit(document: object, exitCode: number): void {
+	process.stdout.write(JSON.stringify(document, null, 2) + "\n", () => process.exit(exitCode));
+}
+
+/**
+ * Print a JSON document and exit.
+ */
+export function printJson(schema: JsonSchema, data: unknown, exitCode = EXIT_SUCCESS): void {
+	writeAndExit({ schema, version: JSON_SCHEMA_VERSIONS[schema], data }, exitCode);
+}
+
+/**
+ * Print a JSON error document and exit with EXIT_FAILURE.
+ */
+export function printJsonError(message: string): void {
+	writeAndExit(
+		{ schema: "santree.error", version: JSON_SCHEMA_VERSIONS["santree.error"], error: { message } },
+		EXIT_FAILURE,
+	);
+}
+
+// ── Schemas ────────────────────────────────────────────────────────────
+
+/** An issue on the dashboard, flattened out of its project and status groups */
+export interface DashboardIssueJson {
+	identifier: string;
+	title: string;
+	description: string | null;
+	url: string;
+	state: { name: string; type: string };
+	priority: number;
+	priorityLabel: string;
+	labels: string[];
+	project: { id: string | null; name: string } | null;
+	worktree: {
+		path: string;
+		/** null for scratch worktrees */
+		branch: string | null;
+		dirty: boolean;
+		commitsAhead: number;
+		sessionId: string | null;
+		lock: { reason: string | null } | null;
+		scratch: { name: string; ref: string | null; expiresAt: string | null } | null;
+	} | null;
+	pr: { number: string; state: string; isDraft: boolean; url: string | null } | null;
+	checks: { name: string; state: string; bucket: string; workflow: string; link: string }[] | null;
+	reviews: { author: string; state: string; submittedAt: string }[] | null;
+	repoWorktrees: {
+		repo: string;
+		path: string;
+		branch: string;
+		dirty: boolean;
+		commitsAhead: number;
+		pr: { number: string; state: string; isDraft: boolean; url: string | null } | null;
+	}[];
+}
+
+function dashboardIssueJson(di: DashboardIssue): DashboardIssueJson {
+	const { issue, worktree: wt } = di;
+	return {
+		identifier: issue.identifier,
+		title: issue.title,
+		description: issue.description,
+		url: issue.url,
+		state: issue.state,
+		priority: issue.priority,
+		priorityLabel: issue.priorityLabel,
+		labels: issue.labels,
+		project: issue.projectName ? { id: issue.projectId, name: issue.projectName } : null,
+		worktree: wt && {
+			path: wt.path,
+			branch: wt.scratch ? null : wt.branch,
+			dirty: wt.dirty,
+			commitsAhead: wt.commitsAhead,
+			sessionId: wt.sessionId,
+			lock: wt.lock,
+			scratch: wt.scratch
+				? { name: wt.scratch.name, ref: wt.scratch.ref, expiresAt: wt.scratch.expiresAt }
+				: null,
+		},
+		pr: di.pr && { ...di.pr, url: di.pr.url ?? null },
+		checks:
+			di.checks?.map((c) => ({
+				name: c.name,
+				state: c.state,
+				bucket: c.bucket,
+				workflow: c.workflow,
+				link: c.link,
+			})) ?? null,
+		reviews:
+			di.reviews?.map((r) => ({
+				author: r.author.login,
+				state: r.state,
+				submittedAt: r.submittedAt,
+			})) ?? null,
+		repoWorktrees: (di.repoWorktrees ?? []).map((rw) => ({
+			...rw,
+			pr: rw.pr && { ...rw.pr, url: rw.pr.url ?? null },
+		})),
+	};
+}
+
+// ── Commands ───────────────────────────────────────────────────────────
+
+interface JsonCommand {
+	schema: JsonSchema;
+	/** Flags accepted alongside --json */
+	flags: string[];
+	/** Flags that must be given, e.g. --status for `linear auth` */
+	requiredFlags?: string[];
+	run: (flags: Set<string>) => Promise<{ data: unknown; exitCode?: number }>;
+}
+
+const JSON_COMMANDS: Record<string, JsonCommand> = {
+	"worktree list": {
+		schema: "santree.worktree-list",
+		flags: ["--size"],
+		run: async (flags) => {
+			if (!findMainRepoRoot()) throw new Error("Not inside a git repository");
+			return { data: await loadWorktreeList({ size: flags.has("--size") }) };
+		},
+	},
+	doctor: {
+		schema: "santree.doctor",
+		flags: [],
+		run: async () => {
+			const report = await runDoctorChecks();
+			return {
+				data: { version, ready: report.requiredIssues === 0, ...report },
+				exitCode: report.requiredIssues > 0 ? EXIT_FAILURE : EXIT_SUCCESS,
+			};
+		},
+	},
+	"linear auth": {
+		schema: "santree.linear-auth-status",
+		flags: ["--status"],
+		requiredFlags: ["--status"],
+		run: async () => {
+			const status = getAuthStatus(findMainRepoRoot());
+			if (!status.authenticated || !status.orgSlug) {
+				return {
+					data: {
+						authenticated: false,
+						org: null,
+						tokenValid: null,
+						tokenExpiresAt: null,
+						repoLinked: false,
+					},
+				};
+			}
+			const valid = await getValidTokens(status.orgSlug);
+			return {
+				data: {
+					authenticated: true,
+					org: { slug: status.orgSlug, name: status.orgName ?? null },
+					tokenValid: valid !== null,
+					tokenExpiresAt: valid ? new Date(valid.expires_at).toISOString() : null,
+					repoLinked: status.repoLinked ?? false,
+				},
+			};
+		},
+	},
+	dashboard: {
+		schema: "santree.dashboard",
+		flags: [],
+		run: async () => {
+			const repoRoot = findMainRepoRoot();
+			if (!repoRoot) throw new Error("Not inside a git repository");
+			const { flatIssues } = await loadDashboardData(repoRoot);
+			return { data: { issues: flatIssues.map(dashboardIssueJson) } };
+		},
+	},
+};
+
+/**
+ * Run a command given `--json`, print its document and exit. `argv` is santree's own
+ * arguments: the command name first, then flags, with nothing from after a `--`.
+ * Commands, flags and arguments without JSON output are reported as errors.
+ */
+export async function runJsonCommand(argv: string[]): Promise<void> {
+	const firstFlag = argv.findIndex((a) => a.startsWith("-"));
+	const name = (firstFlag === -1 ? argv : argv.slice(0, firstFlag)).join(" ");
+	const rest = firstFlag === -1 ? [] : argv.slice(firstFlag);
+	const flags = new Set(rest.filter((a) => a.startsWith("-") && a !== "--json"));
+	const command = JSON_COMMANDS[name];
+
+	if (!command) {
+		const supported = Object.keys(JSON_COMMANDS).join(", ");
+		printJsonError(`--json isn't supported by "santree ${name}" (supported: ${supported})`);
+		return;
+	}
+	const extra = rest.filter((a) => !a.startsWith("-"));
+	if (extra.length > 0) {
+		printJsonError(`Unexpected argument(s) with --json: ${extra.join(" ")}`);
+		return;
+	}
+	const unsupported = [...flags].filter((f) => !command.flags.includes(f));
+	if (unsupported.length > 0) {
+		printJsonError(`--json can't be combined with ${unsupported.join(", ")}`);
+		return;
+	}
+	const missing = (command.requiredFlags ?? []).filter((f) => !flags.has(f));
+	if (missing.length > 0) {
+		printJsonError(`--json requires ${missing.join(", ")} with "santree ${name}"`);
+		return;
+	}
+
+	const { issues } = loadConfig(findMainRepoRoot());
+	if (issues.length > 0) {
+		printJsonError(`Invalid santree config: ${issues.join("; ")}`);
+		return;
+	}
+
+	try {
+		const result = await command.run(flags);
+		printJson(command.schema, result.data, result.exitCode);
+	} catch (e) {
+		printJsonError(e instanceof Error ? e.message : "Unknown error");
+	}
+}
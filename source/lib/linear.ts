@@ -4,7 +4,7 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { exec } from "child_process";
-import { getRepoLinearOrg } from "./git.js";
+import { getRepoLinearOrg } from "./metadata.js";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -587,6 +587,95 @@ export async function fetchAssignedIssues(repoRoot: string): Promise<LinearAssig
 	}));
 }
 
+const ISSUE_STATES_QUERY = `
+query IssueStates($filter: IssueFilter!, $first: Int!) {
+  issues(filter: $filter, first: $first) {
+    nodes {
+      identifier
+      state { name type }
+    }
+  }
+}
+`;
+
+/**
+ * Fetch the workflow state of several tickets in one request.
+ * Returns a map of ticket ID -> state; tickets that don't exist are left out.
+ * Returns null if not authenticated or fetch fails.
+ */
+export async function fetchIssueStates(
+	ticketIds: string[],
+	repoRoot: string,
+): Promise<Map<string, { name: string; type: string }> | null> {
+	const orgSlug = getRepoLinearOrg(repoRoot);
+	if (!orgSlug) return null;
+
+	const tokens = await getValidTokens(orgSlug);
+	if (!tokens) return null;
+
+	const states = new Map<string, { name: string; type: string }>();
+	const conditions = ticketIds.flatMap((id) => {
+		const match = id.match(/^([A-Za-z0-9]+)-(\d+)$/);
+		if (!match) return [];
+		return [{ team: { key: { eq: match[1]!.toUpperCase() } }, number: { eq: Number(match[2]) } }];
+	});
+	if (conditions.length === 0) return states;
+
+	const data = await graphqlQuery(
+		ISSUE_STATES_QUERY,
+		{ filter: { or: conditions }, first: conditions.length },
+		tokens.access_token,
+	);
+	if (!data?.issues?.nodes) return null;
+
+	for (const issue of data.issues.nodes) {
+		states.set(issue.identifier, {
+			name: issue.state?.name ?? "Unknown",
+			type: issue.state?.type ?? "unstarted",
+		});
+	}
+	return states;
+}
+
+// ── Issue Scope Query ──────────────────────────────────────────────────
+
+const ISSUE_SCOPE_QUERY = `
+query GetIssueScope($id: String!) {
+  issue(id: $id) {
+    labels { nodes { name } }
+    project { name }
+  }
+}
+`;
+
+export interface LinearIssueScope {
+	labels: string[];
+	project: string | null;
+}
+
+/**
+ * Fetch just a ticket's labels and project, without comments or images.
+ * Returns null if not authenticated or fetch fails.
+ */
+export async function getTicketScope(
+	ticketId: string,
+	repoRoot: string,
+): Promise<LinearIssueScope | null> {
+	const orgSlug = getRepoLinearOrg(repoRoot);
+	if (!orgSlug) return null;
+
+	const tokens = await getValidTokens(orgSlug);
+	if (!tokens) return null;
+
+	const data = await graphqlQuery(ISSUE_SCOPE_QUERY, { id: ticketId }, tokens.access_token);
+	if (!data?.issue) return null;
+
+	return {
+		labels: (data.issue.labels?.nodes ?? []).map((l: { name: string }) => l.name),
+		project: data.issue.project?.name ?? null,
+	};
+}
+
 // ── High-Level Entry Point ─────────────────────────────────────────────
 
 /**
@@ -0,0 +1,116 @@
+import {
+	listWorktrees,
+	getBaseBranch,
+	isWorktreePath,
+	findMainRepoRoot,
+	getWorktreeLock,
+	type WorktreeLock,
+} from "./git.js";
+import { getPRInfoAsync, type PRInfo } from "./github.js";
+import { gitAsync, commandOutput } from "./exec.js";
+import { getWorktreeDiskUsage, type DiskUsage } from "./disk.js";
+import { listScratchWorktrees, type ScratchWorktree } from "./scratch.js";
+
+// The rows behind `santree worktree list`, shared by its Ink view and `worktree list --json`.
+// Fields that don't apply to a worktree (the main checkout has no base, a detached HEAD has no
+// branch) are null.
+
+export interface WorktreeInfo {
+	/** null on a detached HEAD */
+	branch: string | null;
+	path: string;
+	/** The main checkout rather than a worktree */
+	isMain: boolean;
+	base: string | null;
+	/** Commits ahead of the base (null if they couldn't be counted) */
+	ahead: number | null;
+	dirty: boolean | null;
+	pr: PRInfo | null;
+	lock: WorktreeLock | null;
+	/** Only measured when asked for */
+	disk: DiskUsage | null;
+}
+
+export interface ScratchInfo extends ScratchWorktree {
+	dirty: boolean;
+}
+
+async function getCommitsAhead(worktreePath: string, baseBranch: string): Promise<number | null> {
+	const output = commandOutput(
+		await gitAsync(["rev-list", "--count", `${baseBranch}..HEAD`], { cwd: worktreePath }),
+	);
+	return output === null ? null : parseInt(output, 10) || 0;
+}
+
+async function isDirty(worktreePath: string): Promise<boolean> {
+	const output = commandOutput(await gitAsync(["status", "--porcelain"], { cwd: worktreePath }));
+	return Boolean(output);
+}
+
+/**
+ * Gather the status of every worktree of the current repo: base branch, commits ahead,
+ * uncommitted changes, PR and lock, plus disk usage with `size`. Scratch worktrees are
+ * returned separately. `onProgress` is called before each worktree is checked.
+ * Runs: `git rev-list --count` + `git status --porcelain` in each worktree, `gh pr view`
+ */
+export async function loadWorktreeList(
+	opts: { size?: boolean; onProgress?: (done: number, total: number) => void } = {},
+): Promise<{ worktrees: WorktreeInfo[]; scratch: ScratchInfo[] }> {
+	const mainRoot = findMainRepoRoot();
+	// Scratch worktrees are listed on their own
+	const scratches = mainRoot ? listScratchWorktrees(mainRoot) : [];
+	const scratchPaths = new Set(scratches.map((s) => s.path));
+	const worktrees = listWorktrees().filter((wt) => !scratchPaths.has(wt.path));
+	const info: WorktreeInfo[] = [];
+
+	// Walking worktrees is slow, so measure them all at once while the rest loads
+	const diskUsage = new Map<string, Promise<DiskUsage>>();
+	if (opts.size && mainRoot) {
+		for (const wt of worktrees) {
+			if (!wt.branch || !isWorktreePath(wt.path)) continue;
+			diskUsage.set(wt.path, getWorktreeDiskUsage(mainRoot, wt.branch, wt.path));
+		}
+	}
+
+	for (let i = 0; i < worktrees.length; i++) {
+		const wt = worktrees[i]!;
+		opts.onProgress?.(i, worktrees.length);
+
+		const row: WorktreeInfo = {
+			branch: wt.branch || null,
+			path: wt.path,
+			isMain: !isWorktreePath(wt.path),
+			base: null,
+			ahead: null,
+			dirty: null,
+			pr: null,
+			lock: null,
+			disk: null,
+		};
+
+		if (!row.isMain) {
+			const base = wt.branch ? getBaseBranch(wt.branch) : null;
+
+			// Run async operations in parallel
+			const [ahead, dirty, pr] = await Promise.all([
+				base ? getCommitsAhead(wt.path, base) : Promise.resolve(null),
+				isDirty(wt.path),
+				wt.branch ? getPRInfoAsync(wt.branch) : Promise.resolve(null),
+			]);
+
+			row.base = base;
+			row.ahead = ahead;
+			row.dirty = dirty;
+			row.pr = pr;
+			if (wt.branch && mainRoot) row.lock = getWorktreeLock(wt.branch, mainRoot, worktrees);
+			row.disk = (await diskUsage.get(wt.path)) ?? null;
+		}
+
+		info.push(row);
+	}
+
+	const scratch = await Promise.all(
+		scratches.map(async (s) => ({ ...s, dirty: await isDirty(s.path) })),
+	);
+	return { worktrees: info, scratch };
+}
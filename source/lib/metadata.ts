@@ -0,0 +1,493 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+
+// ── Schema ─────────────────────────────────────────────────────────────
+
+export const METADATA_VERSION = 2;
+
+const setupStepStatusSchema = z.looseObject({
+	status: z.enum(["done", "failed"]),
+	finished_at: z.string(),
+});
+
+const depsStatusSchema = z.looseObject({
+	lockfile_hash: z.string(),
+	method: z.enum(["reflink", "hardlink", "install"]),
+	/** Worktree the directory was cloned from (reflink/hardlink only) */
+	source: z.string().optional(),
+	installed_at: z.string(),
+});
+
+const diskUsageSchema = z.looseObject({
+	/** Bytes on disk, by category (see disk.ts) */
+	tracked: z.number(),
+	ignored: z.number(),
+	untracked: z.number(),
+	/** Bytes in files hardlinked from another checkout, which removing the worktree won't free */
+	shared: z.number(),
+	total: z.number(),
+	measured_at: z.string(),
+});
+
+const portBlockSchema = z.looseObject({
+	/** First port of the block */
+	base: z.number(),
+	count: z.number(),
+});
+
+const sparseCheckoutSchema = z.looseObject({
+	/** Config profiles the checkout was made from (empty when only adjusted by hand) */
+	profiles: z.array(z.string()),
+	/** Directories checked out (cone mode), relative to the repo root */
+	paths: z.array(z.string()),
+});
+
+const scratchSchema = z.looseObject({
+	/** Branch, tag or commit the scratch worktree was created from, as given */
+	ref: z.string(),
+	created_at: z.string(),
+	expires_at: z.string(),
+});
+
+/**
+ * Per-worktree entry, keyed by worktree key (ticket ID or branch slug, see getWorktreeKey),
+ * or `scratch/<name>` for scratch worktrees (see scratch.ts).
+ * Unknown fields are preserved so an older santree doesn't drop data written by a newer one.
+ */
+const worktreeMetadataSchema = z.looseObject({
+	base_branch: z.string().optional(),
+	session_id: z.string().optional(),
+	/** Stacked worktrees: branch of the sibling worktree this one is built on */
+	parent: z.string().optional(),
+	/** Stacked worktrees: parent commit this branch was last rebased onto */
+	parent_head: z.string().optional(),
+	/** Worktrees created with `--from-pr`: the pull request that was checked out */
+	pr_number: z.number().optional(),
+	/** Provisioning: last result of each setup step, keyed by step name */
+	setup: z.record(z.string(), setupStepStatusSchema).optional(),
+	/** Locked worktrees are skipped by `clean`, `remove` and the dashboard unless forced */
+	locked: z.looseObject({ reason: z.string().optional(), locked_at: z.string() }).optional(),
+	/** Provisioning: how each dependency directory was provisioned, keyed by directory */
+	deps: z.record(z.string(), depsStatusSchema).optional(),
+	/** Overrides of config `base_remote` / `push_remote` for this worktree */
+	base_remote: z.string().optional(),
+	push_remote: z.string().optional(),
+	/** Ports handed to this worktree's processes (see ports.ts) */
+	ports: portBlockSchema.optional(),
+	/** Sparse worktrees: what is checked out (see sparse.ts) */
+	sparse: sparseCheckoutSchema.optional(),
+	/** Scratch worktrees: where they came from and when they expire (see scratch.ts) */
+	scratch: scratchSchema.optional(),
+	/** Last disk usage measurement (cache for `worktree du`, `list --size` and the dashboard) */
+	disk_usage: diskUsageSchema.optional(),
+});
+
+const linearMetadataSchema = z.looseObject({
+	org: z.string().optional(),
+});
+
+const metadataSchema = z.looseObject({
+	version: z.literal(METADATA_VERSION),
+	worktrees: z.record(z.string(), worktreeMetadataSchema).default({}),
+	linear: linearMetadataSchema.default({}),
+});
+
+export type WorktreeMetadata = z.infer<typeof worktreeMetadataSchema>;
+export type SetupStepStatus = z.infer<typeof setupStepStatusSchema>;
+export type DepsStatus = z.infer<typeof depsStatusSchema>;
+export type DiskUsage = z.infer<typeof diskUsageSchema>;
+export type PortBlock = z.infer<typeof portBlockSchema>;
+export type SparseCheckout = z.infer<typeof sparseCheckoutSchema>;
+export type ScratchMetadata = z.infer<typeof scratchSchema>;
+export type Metadata = z.infer<typeof metadataSchema>;
+
+function emptyMetadata(): Metadata {
+	return { version: METADATA_VERSION, worktrees: {}, linear: {} };
+}
+
+// ── Migrations ─────────────────────────────────────────────────────────
+
+/**
+ * Migrations keyed by the version they upgrade *from*. Each one returns data at the next version.
+ * Files written before versioning existed are treated as version 1.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+	// v1: flat map of ticket ID -> entry, plus a special `_linear` key
+	1: (data) => {
+		const { _linear, ...worktrees } = data;
+		const linear = typeof _linear === "object" && _linear !== null ? _linear : {};
+		return { version: 2, worktrees, linear };
+	},
+};
+
+function migrate(raw: Record<string, unknown>): Record<string, unknown> {
+	let data = raw;
+	let version = typeof data.version === "number" ? data.version : 1;
+	while (version < METADATA_VERSION) {
+		const step = MIGRATIONS[version];
+		if (!step) break;
+		data = step(data);
+		if (typeof data.version !== "number") break;
+		version = data.version;
+	}
+	return data;
+}
+
+// ── Paths ──────────────────────────────────────────────────────────────
+
+/**
+ * Get path to the metadata file: .santree/metadata.json in the repo root.
+ */
+export function getMetadataPath(repoRoot: string): string {
+	return path.join(repoRoot, ".santree", "metadata.json");
+}
+
+// ── Locking ────────────────────────────────────────────────────────────
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 25;
+
+function sleepSync(ms: number): void {
+	Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (e) {
+		return (e as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+/**
+ * A lock is stale if its owner has exited or it has been held far longer than any update takes.
+ */
+function isLockStale(lockPath: string): boolean {
+	try {
+		const pid = parseInt(fs.readFileSync(lockPath, "utf-8"), 10);
+		if (pid && !isProcessAlive(pid)) return true;
+		return Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+	} catch {
+		// Lock vanished between attempts — let the next attempt take it
+		return false;
+	}
+}
+
+/**
+ * Remove a stale lock. Waiters that saw the same stale lock take turns through `<lock>.break`
+ * and check again while holding it: otherwise the second one would remove the live lock the
+ * first has taken in the meantime. Returns false if another waiter is breaking it already.
+ */
+function breakStaleLock(lockPath: string): boolean {
+	const breakPath = `${lockPath}.break`;
+	try {
+		fs.closeSync(fs.openSync(breakPath, "wx"));
+	} catch (e) {
+		if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+		// Breaking takes microseconds, so an old one was left by a process that crashed meanwhile
+		try {
+			if (Date.now() - fs.statSync(breakPath).mtimeMs > LOCK_STALE_MS) {
+				fs.rmSync(breakPath, { force: true });
+			}
+		} catch {
+			// Gone already
+		}
+		return false;
+	}
+
+	try {
+		if (!isLockStale(lockPath)) return false;
+		fs.rmSync(lockPath, { force: true });
+		return true;
+	} finally {
+		fs.rmSync(breakPath, { force: true });
+	}
+}
+
+/**
+ * Run fn while holding an exclusive lock file next to filePath (`<file>.lock`).
+ * Stale locks from crashed processes are broken. Throws if the lock can't be taken in time.
+ */
+function withLock<T>(filePath: string, fn: () => T): T {
+	const lockPath = `${filePath}.lock`;
+	fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+	const deadline = Date.now() + LOCK_TIMEOUT_MS;
+	for (;;) {
+		try {
+			const fd = fs.openSync(lockPath, "wx");
+			fs.writeSync(fd, String(process.pid));
+			fs.closeSync(fd);
+			break;
+		} catch (e) {
+			if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+			if (isLockStale(lockPath) && breakStaleLock(lockPath)) continue;
+			if (Date.now() > deadline) {
+				throw new Error(`Timed out waiting for lock on ${filePath}`);
+			}
+			sleepSync(LOCK_RETRY_MS);
+		}
+	}
+
+	try {
+		return fn();
+	} finally {
+		fs.rmSync(lockPath, { force: true });
+	}
+}
+
+// ── Read / Write ───────────────────────────────────────────────────────
+
+type MetadataFileState = "ok" | "missing" | "corrupt" | "newer";
+
+/** Entries of a metadata file that don't match the schema, as they were in the file */
+interface InvalidEntries {
+	worktrees?: Record<string, unknown>;
+	linear?: unknown;
+}
+
+/**
+ * Validate migrated metadata entry by entry, so one bad entry doesn't cost the others.
+ * Returns null if the file as a whole has the wrong shape.
+ */
+function parseMetadata(raw: Record<string, unknown>): {
+	data: Metadata;
+	invalid: InvalidEntries | null;
+} | null {
+	const whole = metadataSchema.safeParse(raw);
+	if (whole.success) return { data: whole.data, invalid: null };
+
+	const worktrees = raw.worktrees ?? {};
+	if (typeof worktrees !== "object" || worktrees === null || Array.isArray(worktrees)) return null;
+	const base = metadataSchema.safeParse({ ...raw, worktrees: {}, linear: {} });
+	if (!base.success) return null;
+
+	const data = base.data;
+	const invalid: InvalidEntries = {};
+	for (const [key, entry] of Object.entries(worktrees)) {
+		const parsed = worktreeMetadataSchema.safeParse(entry);
+		if (parsed.success) data.worktrees[key] = parsed.data;
+		else (invalid.worktrees ??= {})[key] = entry;
+	}
+	const linear = linearMetadataSchema.safeParse(raw.linear ?? {});
+	if (linear.success) data.linear = linear.data;
+	else invalid.linear = raw.linear;
+	return { data, invalid };
+}
+
+/**
+ * Read and migrate .santree/metadata.json.
+ * Returns empty metadata if the file is missing, can't be parsed, doesn't have the shape of a
+ * metadata file, or was written by a newer santree; `state` says which. Entries that don't
+ * match the schema are left out and returned as `invalid`.
+ */
+function readMetadataFile(filePath: string): {
+	data: Metadata;
+	state: MetadataFileState;
+	invalid?: InvalidEntries | null;
+} {
+	if (!fs.existsSync(filePath)) return { data: emptyMetadata(), state: "missing" };
+	try {
+		const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+		if (typeof raw.version === "number" && raw.version > METADATA_VERSION) {
+			return { data: emptyMetadata(), state: "newer" };
+		}
+		const parsed = parseMetadata(migrate(raw));
+		if (parsed) return { ...parsed, state: "ok" };
+	} catch {
+		// Fall through to corrupt
+	}
+	return { data: emptyMetadata(), state: "corrupt" };
+}
+
+/**
+ * Write metadata atomically: write a temp file in the same directory, then rename over the target.
+ */
+function writeMetadataFile(filePath: string, data: Metadata): void {
+	const tmpPath = `${filePath}.${process.pid}.tmp`;
+	fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2) + "\n");
+	fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Read all metadata for a repo (migrated to the current version).
+ * Lock-free: the file is only ever replaced by rename, so readers never see a partial write.
+ */
+export function readMetadata(repoRoot: string): Metadata {
+	return readMetadataFile(getMetadataPath(repoRoot)).data;
+}
+
+/**
+ * Atomically read-modify-write the metadata for a repo under an exclusive lock.
+ * The updater mutates the data in place. Returns the data as written.
+ * A corrupt file is moved aside to `metadata.json.corrupt-<timestamp>` instead of being overwritten;
+ * entries that don't match the schema are moved to `metadata.json.invalid-<timestamp>`.
+ * Throws if the lock can't be taken or the file was written by a newer santree.
+ */
+export function updateMetadata(repoRoot: string, updater: (data: Metadata) => void): Metadata {
+	const filePath = getMetadataPath(repoRoot);
+	return withLock(filePath, () => {
+		const { data, state, invalid } = readMetadataFile(filePath);
+		if (state === "newer") {
+			throw new Error(`${filePath} was written by a newer version of santree; please upgrade`);
+		}
+		if (state === "corrupt") {
+			fs.renameSync(filePath, `${filePath}.corrupt-${Date.now()}`);
+		}
+		if (invalid) {
+			fs.writeFileSync(
+				`${filePath}.invalid-${Date.now()}`,
+				JSON.stringify(invalid, null, 2) + "\n",
+			);
+		}
+		updater(data);
+		writeMetadataFile(filePath, data);
+		return data;
+	});
+}
+
+// ── Worktree entries ───────────────────────────────────────────────────
+
+/**
+ * Get the metadata entry for a worktree key. Returns null if there is none.
+ */
+export function getWorktreeEntry(repoRoot: string, key: string): WorktreeMetadata | null {
+	return readMetadata(repoRoot).worktrees[key] ?? null;
+}
+
+/**
+ * Merge fields into the metadata entry for a worktree key, creating it if needed.
+ * Fields set to undefined are removed.
+ */
+export function updateWorktreeEntry(
+	repoRoot: string,
+	key: string,
+	patch: Partial<WorktreeMetadata>,
+): void {
+	updateMetadata(repoRoot, (data) => {
+		const entry: Record<string, unknown> = { ...data.worktrees[key], ...patch };
+		for (const [field, value] of Object.entries(entry)) {
+			if (value === undefined) delete entry[field];
+		}
+		data.worktrees[key] = entry;
+	});
+}
+
+/**
+ * Delete the metadata entry for a worktree key, if present.
+ */
+export function removeWorktreeEntry(repoRoot: string, key: string): void {
+	if (!getWorktreeEntry(repoRoot, key)) return;
+	updateMetadata(repoRoot, (data) => {
+		delete data.worktrees[key];
+	});
+}
+
+/**
+ * Get the stored session ID for a worktree key.
+ * Returns null if no session ID is stored.
+ */
+export function getSessionId(repoRoot: string, key: string): string | null {
+	return getWorktreeEntry(repoRoot, key)?.session_id ?? null;
+}
+
+/**
+ * Store a session ID for a worktree key.
+ */
+export function setSessionId(repoRoot: string, key: string, sessionId: string): void {
+	updateWorktreeEntry(repoRoot, key, { session_id: sessionId });
+}
+
+/**
+ * Get the last recorded result of each setup step for a worktree key.
+ */
+export function getSetupStatus(repoRoot: string, key: string): Record<string, SetupStepStatus> {
+	return getWorktreeEntry(repoRoot, key)?.setup ?? {};
+}
+
+/**
+ * Record the result of a setup step for a worktree key.
+ */
+export function setSetupStepStatus(
+	repoRoot: string,
+	key: string,
+	step: string,
+	status: SetupStepStatus["status"],
+): void {
+	updateMetadata(repoRoot, (data) => {
+		const entry = (data.worktrees[key] ??= {});
+		entry.setup = {
+			...entry.setup,
+			[step]: { status, finished_at: new Date().toISOString() },
+		};
+	});
+}
+
+/**
+ * Get how each dependency directory was provisioned for a worktree key.
+ */
+export function getDepsStatus(repoRoot: string, key: string): Record<string, DepsStatus> {
+	return getWorktreeEntry(repoRoot, key)?.deps ?? {};
+}
+
+/**
+ * Record how a dependency directory was provisioned for a worktree key.
+ */
+export function setDepsStatus(
+	repoRoot: string,
+	key: string,
+	dir: string,
+	status: { lockfile_hash: string; method: DepsStatus["method"]; source?: string },
+): void {
+	updateMetadata(repoRoot, (data) => {
+		const entry = (data.worktrees[key] ??= {});
+		entry.deps = {
+			...entry.deps,
+			[dir]: { ...status, installed_at: new Date().toISOString() },
+		};
+	});
+}
+
+/**
+ * Get the last disk usage measurement for a worktree (`disk_usage`).
+ */
+export function getDiskUsage(repoRoot: string, key: string): DiskUsage | null {
+	return getWorktreeEntry(repoRoot, key)?.disk_usage ?? null;
+}
+
+/**
+ * Record a disk usage measurement for a worktree (`disk_usage`).
+ */
+export function setDiskUsage(repoRoot: string, key: string, usage: DiskUsage): void {
+	updateWorktreeEntry(repoRoot, key, { disk_usage: usage });
+}
+
+// ── Linear ─────────────────────────────────────────────────────────────
+
+/**
+ * Get the Linear org slug associated with this repo (`linear.org`).
+ */
+export function getRepoLinearOrg(repoRoot: string): string | null {
+	return readMetadata(repoRoot).linear.org ?? null;
+}
+
+/**
+ * Associate a Linear org slug with this repo (`linear.org`).
+ */
+export function setRepoLinearOrg(repoRoot: string, orgSlug: string): void {
+	updateMetadata(repoRoot, (data) => {
+		data.linear.org = orgSlug;
+	});
+}
+
+/**
+ * Remove the Linear org association from this repo.
+ */
+export function removeRepoLinearOrg(repoRoot: string): void {
+	updateMetadata(repoRoot, (data) => {
+		delete data.linear.org;
+	});
+}
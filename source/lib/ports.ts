@@ -0,0 +1,140 @@
+import * as path from "path";
+import { getConfig } from "./config.js";
+import { getWorktreeKey, getWorktreesDir } from "./git.js";
+import {
+	getWorktreeEntry,
+	updateMetadata,
+	type PortBlock,
+	type WorktreeMetadata,
+} from "./metadata.js";
+import { git, commandOutput } from "./exec.js";
+
+// Each worktree gets its own block of ports so dev servers in several worktrees don't collide.
+// Blocks are `ports.block` ports wide, start at `ports.start`, and are handed out lowest-first
+// the first time a worktree needs one. The block is recorded in the worktree's metadata entry,
+// so it stays the same across runs and is released when `removeWorktree` drops the entry.
+// Processes santree starts for a worktree (setup steps, init.sh, tmux windows) see it as
+// SANTREE_PORT (the first port) and SANTREE_PORT_0 .. SANTREE_PORT_<n-1>. Only worktrees santree
+// created get a block; the main checkout and worktrees made with plain git don't.
+
+export type { PortBlock };
+
+const MAX_PORT = 65535;
+
+function overlaps(a: PortBlock, b: PortBlock): boolean {
+	return a.base < b.base + b.count && b.base < a.base + a.count;
+}
+
+/**
+ * Check whether a path is a worktree santree created, i.e. inside the worktrees dir.
+ */
+function isManagedWorktree(repoRoot: string, worktreePath: string): boolean {
+	return path.resolve(worktreePath).startsWith(getWorktreesDir(repoRoot) + path.sep);
+}
+
+/**
+ * Get a worktree's port block, allocating one if it has none yet.
+ * Returns null if every block in the configured range is taken.
+ */
+export function getWorktreePorts(repoRoot: string, branch: string): PortBlock | null {
+	const key = getWorktreeKey(branch, repoRoot);
+	const existing = getWorktreeEntry(repoRoot, key)?.ports;
+	if (existing) return existing;
+
+	const { start, block } = getConfig(repoRoot).ports;
+	let allocated: PortBlock | null = null;
+
+	// Allocate under the metadata lock so concurrent creates can't pick the same block
+	updateMetadata(repoRoot, (data) => {
+		const entry = (data.worktrees[key] ??= {});
+		if (entry.ports) {
+			allocated = entry.ports;
+			return;
+		}
+		const taken = Object.values(data.worktrees).flatMap((wt) => (wt.ports ? [wt.ports] : []));
+		for (let base = start; base + block - 1 <= MAX_PORT; base += block) {
+			const candidate = { base, count: block };
+			if (!taken.some((t) => overlaps(t, candidate))) {
+				entry.ports = candidate;
+				allocated = candidate;
+				return;
+			}
+		}
+	});
+
+	return allocated;
+}
+
+/**
+ * Prepare an entry being restored (from the trash or an archive) for `worktrees`: its port
+ * block was released when the worktree went away and may have been handed to another one
+ * since, in which case it's dropped so a new block is allocated when needed.
+ */
+export function withAvailablePorts(
+	worktrees: Record<string, WorktreeMetadata>,
+	entry: WorktreeMetadata,
+): WorktreeMetadata {
+	const ports = entry.ports;
+	if (!ports || !Object.values(worktrees).some((wt) => wt.ports && overlaps(wt.ports, ports))) {
+		return entry;
+	}
+	const restored = { ...entry };
+	delete restored.ports;
+	return restored;
+}
+
+/**
+ * List every port in a block.
+ */
+export function listPorts(ports: PortBlock): number[] {
+	return Array.from({ length: ports.count }, (_, i) => ports.base + i);
+}
+
+/**
+ * Environment variables for processes santree runs in a worktree:
+ * SANTREE_WORKTREE_PATH, SANTREE_REPO_ROOT, the worktree's ports (allocated if needed, for
+ * worktrees santree created only), and for sparse worktrees SANTREE_SPARSE_PROFILES
+ * (comma-separated) and SANTREE_SPARSE_PATHS (space-separated).
+ */
+export function getWorktreeEnv(
+	repoRoot: string,
+	worktreePath: string,
+	branch: string,
+): Record<string, string> {
+	const env: Record<string, string> = {
+		SANTREE_WORKTREE_PATH: worktreePath,
+		SANTREE_REPO_ROOT: repoRoot,
+	};
+	const ports = isManagedWorktree(repoRoot, worktreePath)
+		? getWorktreePorts(repoRoot, branch)
+		: null;
+	if (ports) {
+		env.SANTREE_PORT = String(ports.base);
+		listPorts(ports).forEach((port, i) => {
+			env[`SANTREE_PORT_${i}`] = String(port);
+		});
+	}
+	const sparse = getWorktreeEntry(repoRoot, getWorktreeKey(branch, repoRoot))?.sparse;
+	if (sparse) {
+		env.SANTREE_SPARSE_PROFILES = sparse.profiles.join(",");
+		env.SANTREE_SPARSE_PATHS = sparse.paths.join(" ");
+	}
+	return env;
+}
+
+/**
+ * `tmux new-window` arguments (`-e NAME=value` pairs) that give a window opened in a worktree
+ * its environment. Returns no arguments for paths that aren't on a branch.
+ * Runs: `git rev-parse --abbrev-ref HEAD` + `git rev-parse --git-common-dir` in the worktree
+ */
+export function getTmuxEnvArgs(worktreePath: string): string[] {
+	const branch = commandOutput(git(["rev-parse", "--abbrev-ref", "HEAD"], { cwd: worktreePath }));
+	const commonDir = commandOutput(git(["rev-parse", "--git-common-dir"], { cwd: worktreePath }));
+	if (!branch || branch === "HEAD" || !commonDir) return [];
+
+	const repoRoot = path.dirname(path.resolve(worktreePath, commonDir));
+	return Object.entries(getWorktreeEnv(repoRoot, worktreePath, branch)).flatMap(([name, value]) => [
+		"-e",
+		`${name}=${value}`,
+	]);
+}
@@ -57,6 +57,8 @@ export function renderTicket(issue: LinearIssue): string {
 }
 
 export interface DiffData {
+	/** Repo name, when diffs of several repos are combined */
+	repo?: string;
 	base_branch: string;
 	commit_log: string | null;
 	diff_stat: string | null;
@@ -0,0 +1,305 @@
+import * as fs from "fs";
+import * as path from "path";
+import nunjucks from "nunjucks";
+import { getConfig, type SantreeConfig } from "./config.js";
+import { hasInitScript, getInitScriptPath, getWorktreeKey } from "./git.js";
+import { setSetupStepStatus } from "./metadata.js";
+import { spawnAsync } from "./exec.js";
+import { provisionDeps } from "./deps.js";
+import { getWorktreeEnv, getWorktreePorts, listPorts } from "./ports.js";
+
+// Provisioning prepares a new worktree in ordered, named steps:
+//   1. "files"   - copy / symlink / share entries from the `setup` config section
+//   2. "env"     - the env file from `setup.env`, rendered for this worktree
+//   3. "deps"    - dependency directories, cloned or installed (see deps.ts)
+//   4. each configured `setup.steps` entry, in order
+//   5. "init.sh" - the legacy .santree/init.sh script, if present
+// The result of each step is recorded in the worktree's metadata entry so a failed
+// step can be retried with `worktree setup --step` or `--from` without rerunning the rest.
+
+export const FILES_STEP = "files";
+export const ENV_STEP = "env";
+export const DEPS_STEP = "deps";
+export const INIT_SCRIPT_STEP = "init.sh";
+
+export type ProvisionStepKind = "files" | "env" | "deps" | "command" | "script";
+
+export interface ProvisionStep {
+	name: string;
+	kind: ProvisionStepKind;
+	/** Shell command (kind "command") or script path (kind "script") */
+	command?: string;
+}
+
+export type StepState = "pending" | "running" | "done" | "failed";
+
+export interface ProvisionResult {
+	success: boolean;
+	failedStep?: string;
+	error?: string;
+}
+
+function hasFileEntries(setup: SantreeConfig["setup"]): boolean {
+	return setup.copy.length + setup.symlink.length + setup.share.length > 0;
+}
+
+/**
+ * Get the provisioning steps for a repo, in the order they run.
+ */
+export function getProvisionSteps(repoRoot: string): ProvisionStep[] {
+	const { setup } = getConfig(repoRoot);
+	const steps: ProvisionStep[] = [];
+	if (hasFileEntries(setup)) steps.push({ name: FILES_STEP, kind: "files" });
+	if (setup.env) steps.push({ name: ENV_STEP, kind: "env" });
+	if (setup.deps.length > 0) steps.push({ name: DEPS_STEP, kind: "deps" });
+	for (const step of setup.steps) {
+		steps.push({ name: step.name, kind: "command", command: step.run });
+	}
+	if (hasInitScript(repoRoot)) {
+		steps.push({ name: INIT_SCRIPT_STEP, kind: "script", command: getInitScriptPath(repoRoot) });
+	}
+	return steps;
+}
+
+/**
+ * Check whether a repo has anything to provision.
+ */
+export function hasProvisioning(repoRoot: string): boolean {
+	return getProvisionSteps(repoRoot).length > 0;
+}
+
+/**
+ * Narrow the steps to a single step (`only`) or everything from a step onwards (`from`).
+ * Returns an error naming the available steps if the step doesn't exist.
+ */
+export function selectProvisionSteps(
+	steps: ProvisionStep[],
+	opts: { only?: string; from?: string },
+): { ok: true; steps: ProvisionStep[] } | { ok: false; error: string } {
+	const name = opts.only ?? opts.from;
+	if (!name) return { ok: true, steps };
+
+	const index = steps.findIndex((s) => s.name === name);
+	if (index === -1) {
+		const available = steps.map((s) => s.name).join(", ") || "none";
+		return { ok: false, error: `Unknown setup step "${name}" (available: ${available})` };
+	}
+	return { ok: true, steps: opts.only ? [steps[index]!] : steps.slice(index) };
+}
+
+// ── Files ──────────────────────────────────────────────────────────────
+
+/**
+ * Point `target` at `source` with a symlink, unless something is already there.
+ * Returns a log line.
+ */
+function linkEntry(source: string, target: string, rel: string): string {
+	const existing = fs.lstatSync(target, { throwIfNoEntry: false });
+	if (existing?.isSymbolicLink() && fs.readlinkSync(target) === source) {
+		return `linked ${rel} (already linked)`;
+	}
+	if (existing) return `skipped ${rel} (already exists in worktree)`;
+	fs.mkdirSync(path.dirname(target), { recursive: true });
+	fs.symlinkSync(source, target);
+	return `linked ${rel}`;
+}
+
+/**
+ * Copy, symlink and share the configured paths from the main repo into a worktree.
+ * Entries missing from the main repo, or already present in the worktree, are skipped.
+ * Throws on filesystem errors.
+ */
+function provisionFiles(repoRoot: string, worktreePath: string, onOutput: (line: string) => void) {
+	const { setup } = getConfig(repoRoot);
+
+	for (const rel of setup.copy) {
+		const source = path.join(repoRoot, rel);
+		const target = path.join(worktreePath, rel);
+		if (!fs.existsSync(source)) {
+			onOutput(`skipped ${rel} (not found in main repo)`);
+		} else if (fs.existsSync(target)) {
+			onOutput(`skipped ${rel} (already exists in worktree)`);
+		} else {
+			fs.mkdirSync(path.dirname(target), { recursive: true });
+			fs.cpSync(source, target, { recursive: true });
+			onOutput(`copied ${rel}`);
+		}
+	}
+
+	for (const rel of setup.symlink) {
+		const source = path.join(repoRoot, rel);
+		if (!fs.existsSync(source)) {
+			onOutput(`skipped ${rel} (not found in main repo)`);
+			continue;
+		}
+		onOutput(linkEntry(source, path.join(worktreePath, rel), rel));
+	}
+
+	for (const rel of setup.share) {
+		const source = path.join(repoRoot, rel);
+		fs.mkdirSync(source, { recursive: true });
+		onOutput(linkEntry(source, path.join(worktreePath, rel), rel));
+	}
+}
+
+// ── Env File ───────────────────────────────────────────────────────────
+
+const envTemplates = new nunjucks.Environment(null, { autoescape: false, throwOnUndefined: true });
+
+/**
+ * Quote a value for an env file when it contains anything beyond a plain word.
+ */
+function formatEnvValue(value: string): string {
+	return /^[\w@%+=:,./-]*$/.test(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Write the `setup.env` file into a worktree. Each value is a nunjucks template with:
+ *   port, ports      - the worktree's first port and all of its ports (see ports.ts)
+ *   branch, key      - the branch and its worktree key
+ *   slug             - the key lowercased with underscores, safe for database and compose names
+ *   worktree_path, repo_root
+ * Variables already in the file (e.g. a copied .env) are replaced; the rest are appended.
+ * Throws on template or filesystem errors.
+ */
+function provisionEnvFile(
+	repoRoot: string,
+	worktreePath: string,
+	branch: string,
+	onOutput: (line: string) => void,
+) {
+	const env = getConfig(repoRoot).setup.env;
+	if (!env) return;
+
+	const ports = getWorktreePorts(repoRoot, branch);
+	if (!ports) throw new Error("No free port block left; raise ports.start or shrink ports.block");
+	const key = getWorktreeKey(branch, repoRoot);
+	const context = {
+		port: ports.base,
+		ports: listPorts(ports),
+		branch,
+		key,
+		slug: key.toLowerCase().replace(/[^a-z0-9]+/g, "_"),
+		worktree_path: worktreePath,
+		repo_root: repoRoot,
+	};
+
+	const target = path.join(worktreePath, env.file);
+	const lines = fs.existsSync(target) ? fs.readFileSync(target, "utf-8").split("\n") : [];
+	if (lines.at(-1) === "") lines.pop();
+
+	for (const [name, template] of Object.entries(env.vars)) {
+		const line = `${name}=${formatEnvValue(envTemplates.renderString(template, context))}`;
+		const index = lines.findIndex((l) => new RegExp(`^(export\\s+)?${name}=`).test(l));
+		if (index === -1) lines.push(line);
+		else lines[index] = line;
+		onOutput(line);
+	}
+
+	fs.mkdirSync(path.dirname(target), { recursive: true });
+	fs.writeFileSync(target, `${lines.join("\n")}\n`);
+	onOutput(`wrote ${env.file}`);
+}
+
+// ── Running ────────────────────────────────────────────────────────────
+
+/**
+ * Run a single provisioning step in a worktree.
+ * `onOutput` receives the step's accumulated output so far.
+ */
+export async function runProvisionStep(
+	step: ProvisionStep,
+	repoRoot: string,
+	worktreePath: string,
+	branch: string,
+	onOutput?: (output: string) => void,
+): Promise<{ success: boolean; output: string; error?: string }> {
+	if (step.kind === "files" || step.kind === "env") {
+		let output = "";
+		const log = (line: string) => {
+			output += `${line}\n`;
+			onOutput?.(output);
+		};
+		try {
+			if (step.kind === "files") provisionFiles(repoRoot, worktreePath, log);
+			else provisionEnvFile(repoRoot, worktreePath, branch, log);
+			return { success: true, output };
+		} catch (e) {
+			const error = e instanceof Error ? e.message : String(e);
+			return { success: false, output: output + error, error };
+		}
+	}
+
+	if (step.kind === "deps") {
+		let output = "";
+		const result = await provisionDeps(repoRoot, worktreePath, branch, (text) => {
+			output += text;
+			onOutput?.(output);
+		});
+		return { ...result, output };
+	}
+
+	if (step.kind === "script") {
+		try {
+			fs.accessSync(step.command!, fs.constants.X_OK);
+		} catch {
+			return {
+				success: false,
+				output: "",
+				error: `Init script is not executable. Run: chmod +x ${step.command}`,
+			};
+		}
+	}
+
+	const [cmd, args] = step.kind === "script" ? [step.command!, []] : ["sh", ["-c", step.command!]];
+	const result = await spawnAsync(cmd, args, {
+		cwd: worktreePath,
+		env: { ...process.env, ...getWorktreeEnv(repoRoot, worktreePath, branch) },
+		onOutput,
+	});
+
+	if (result.code !== 0) {
+		return {
+			success: false,
+			output: result.output,
+			error: `Step "${step.name}" exited with code ${result.code}`,
+		};
+	}
+	return { success: true, output: result.output };
+}
+
+/**
+ * Run provisioning steps for a worktree in order, stopping at the first failure.
+ * Each step's result is recorded in the worktree's metadata entry.
+ * Pass `only` or `from` to run a single step or resume from a step (see selectProvisionSteps).
+ */
+export async function provisionWorktree(
+	repoRoot: string,
+	worktreePath: string,
+	branch: string,
+	opts: {
+		only?: string;
+		from?: string;
+		onStep?: (step: ProvisionStep, state: StepState) => void;
+		onOutput?: (step: ProvisionStep, output: string) => void;
+	} = {},
+): Promise<ProvisionResult> {
+	const selected = selectProvisionSteps(getProvisionSteps(repoRoot), opts);
+	if (!selected.ok) return { success: false, error: selected.error };
+
+	const key = getWorktreeKey(branch, repoRoot);
+	for (const step of selected.steps) {
+		opts.onStep?.(step, "running");
+		const result = await runProvisionStep(step, repoRoot, worktreePath, branch, (output) =>
+			opts.onOutput?.(step, output),
+		);
+		setSetupStepStatus(repoRoot, key, step.name, result.success ? "done" : "failed");
+		opts.onStep?.(step, result.success ? "done" : "failed");
+
+		if (!result.success) {
+			return { success: false, failedStep: step.name, error: result.error };
+		}
+	}
+
+	return { success: true };
+}
@@ -0,0 +1,195 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import { listWorktrees, extractTicketId } from "./git.js";
+import { git, commandOutput } from "./exec.js";
+
+// The repo registry lists the repositories one ticket can span, e.g. an API repo and a web
+// repo, each with a worktree on a matching branch. It belongs to the user rather than to any
+// repo, so it lives in $XDG_CONFIG_HOME/santree/repos.json next to the Linear auth store.
+// Repos are registered under a short name with `santree repo add`; `worktree create --repos`
+// creates a ticket's worktrees across them, and `worktree work` and the dashboard find the
+// worktrees a ticket has in each.
+
+const CONFIG_DIR = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+const REPOS_FILE_PATH = path.join(CONFIG_DIR, "santree", "repos.json");
+
+const REPO_NAME_RE = /^[A-Za-z0-9._-]+$/;
+
+// ── Registry ───────────────────────────────────────────────────────────
+
+const registeredRepoSchema = z.looseObject({
+	/** Root of the main checkout */
+	path: z.string(),
+	added_at: z.string(),
+});
+
+const registrySchema = z.looseObject({
+	repos: z.record(z.string(), registeredRepoSchema).default({}),
+});
+
+type Registry = z.infer<typeof registrySchema>;
+
+export interface RegisteredRepo {
+	name: string;
+	path: string;
+}
+
+/**
+ * Get the path to the repo registry file.
+ */
+export function getRegistryPath(): string {
+	return REPOS_FILE_PATH;
+}
+
+function readRegistry(): Registry {
+	if (!fs.existsSync(REPOS_FILE_PATH)) return { repos: {} };
+	try {
+		const parsed = registrySchema.safeParse(JSON.parse(fs.readFileSync(REPOS_FILE_PATH, "utf-8")));
+		return parsed.success ? parsed.data : { repos: {} };
+	} catch {
+		return { repos: {} };
+	}
+}
+
+function writeRegistry(registry: Registry): void {
+	fs.mkdirSync(path.dirname(REPOS_FILE_PATH), { recursive: true });
+	fs.writeFileSync(REPOS_FILE_PATH, JSON.stringify(registry, null, 2) + "\n");
+}
+
+/**
+ * List registered repos, sorted by name.
+ */
+export function listRegisteredRepos(): RegisteredRepo[] {
+	return Object.entries(readRegistry().repos)
+		.map(([name, repo]) => ({ name, path: repo.path }))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find the registered repo a main checkout belongs to. Returns null if it isn't registered.
+ */
+export function findRegisteredRepo(repoRoot: string): RegisteredRepo | null {
+	const root = path.resolve(repoRoot);
+	return listRegisteredRepos().find((r) => path.resolve(r.path) === root) ?? null;
+}
+
+/**
+ * Find the root of the main checkout of the repository a directory is in.
+ * Runs: `git rev-parse --git-common-dir` in the directory
+ * Returns null if it isn't inside a git repository.
+ */
+function resolveMainRoot(dir: string): string | null {
+	if (!fs.existsSync(dir)) return null;
+	const gitCommonDir = commandOutput(git(["rev-parse", "--git-common-dir"], { cwd: dir }));
+	if (!gitCommonDir) return null;
+	return path.dirname(path.resolve(dir, gitCommonDir));
+}
+
+/**
+ * Register the repository a directory is in (any of its worktrees resolves to the main
+ * checkout) under a name, by default the main checkout's directory name.
+ * Returns { success: false, error } if it isn't a git repository, the name is invalid or
+ * taken by another repo, or the repo is already registered under another name.
+ */
+export function addRepo(
+	dir: string,
+	name?: string,
+): { success: boolean; repo?: RegisteredRepo; error?: string } {
+	const root = resolveMainRoot(path.resolve(dir));
+	if (!root) return { success: false, error: `Not a git repository: ${dir}` };
+
+	const repoName = name ?? path.basename(root);
+	if (!REPO_NAME_RE.test(repoName)) {
+		return {
+			success: false,
+			error: `Invalid repo name "${repoName}" (use letters, digits, ".", "_" and "-")`,
+		};
+	}
+
+	const registry = readRegistry();
+	const existing = findRegisteredRepo(root);
+	if (existing && existing.name !== repoName) {
+		return { success: false, error: `${root} is already registered as ${existing.name}` };
+	}
+	const taken = registry.repos[repoName];
+	if (taken && path.resolve(taken.path) !== root) {
+		return { success: false, error: `The name ${repoName} is already used by ${taken.path}` };
+	}
+
+	registry.repos[repoName] = {
+		...taken,
+		path: root,
+		added_at: taken?.added_at ?? new Date().toISOString(),
+	};
+	writeRegistry(registry);
+	return { success: true, repo: { name: repoName, path: root } };
+}
+
+/**
+ * Unregister a repo. Its worktrees and files are left alone.
+ * Returns { success: false, error } if no repo is registered under that name.
+ */
+export function removeRepo(name: string): { success: boolean; error?: string } {
+	const registry = readRegistry();
+	if (!registry.repos[name]) return { success: false, error: `No repo registered as ${name}` };
+	delete registry.repos[name];
+	writeRegistry(registry);
+	return { success: true };
+}
+
+/**
+ * Look up registered repos by name, e.g. the comma-separated value of `--repos`.
+ * Returns { success: false, error } naming any that aren't registered.
+ */
+export function resolveRepos(names: string[]): {
+	success: boolean;
+	repos?: RegisteredRepo[];
+	error?: string;
+} {
+	const registered = listRegisteredRepos();
+	const unique = [...new Set(names.map((n) => n.trim()).filter(Boolean))];
+	if (unique.length === 0) return { success: false, error: "No repos given" };
+
+	const unknown = unique.filter((n) => !registered.some((r) => r.name === n));
+	if (unknown.length > 0) {
+		const known = registered.map((r) => r.name).join(", ") || "none";
+		return {
+			success: false,
+			error: `Unknown repo(s): ${unknown.join(", ")} (registered: ${known}). Add one with: santree repo add <path>`,
+		};
+	}
+	return { success: true, repos: unique.map((n) => registered.find((r) => r.name === n)!) };
+}
+
+// ── Ticket Worktrees ───────────────────────────────────────────────────
+
+export interface RepoWorktree {
+	repo: RegisteredRepo;
+	path: string;
+	branch: string;
+}
+
+/**
+ * Find the worktrees a ticket has in registered repos (not their main checkouts), skipping
+ * the repo at `exclude` (usually the current one) and repos whose checkout has gone missing.
+ * Runs: `git worktree list --porcelain` in each repo
+ */
+export function findTicketWorktrees(
+	ticketId: string,
+	opts: { exclude?: string | null } = {},
+): RepoWorktree[] {
+	const exclude = opts.exclude ? path.resolve(opts.exclude) : null;
+	const found: RepoWorktree[] = [];
+	for (const repo of listRegisteredRepos()) {
+		const root = path.resolve(repo.path);
+		if (root === exclude || !fs.existsSync(root)) continue;
+		const wt = listWorktrees(root).find(
+			(w) =>
+				w.branch && path.resolve(w.path) !== root && extractTicketId(w.branch, root) === ticketId,
+		);
+		if (wt) found.push({ repo, path: wt.path, branch: wt.branch });
+	}
+	return found;
+}
@@ -0,0 +1,223 @@
+import * as path from "path";
+import { listWorktrees, isWorktreePath, extractTicketId, getWorktreeKey } from "./git.js";
+import { getPRInfoAsync } from "./github.js";
+import { fetchIssueStates } from "./linear.js";
+import { getWorktreeEnv } from "./ports.js";
+import { mapConcurrent } from "./sync.js";
+import { gitAsync, commandOutput, spawnAsync } from "./exec.js";
+
+// `worktree exec` runs one shell command in many worktrees at once. Worktrees can be narrowed
+// with filters, which must all match; a filter with comma-separated values matches any of them:
+//   ticket=<ID,...>                   - the branch's ticket ID
+//   dirty / clean                     - uncommitted or untracked changes, or none
+//   pr=<open|draft|merged|closed|none> - state of the branch's PR (open includes drafts)
+//   linear=<state,...>                - the ticket's Linear state, by name ("In Review") or
+//                                       type (started, completed, ...)
+// Output is streamed line by line, tagged with the worktree it came from.
+
+/** How many worktrees run the command at the same time */
+export const EXEC_CONCURRENCY = 4;
+
+const PR_STATES = ["open", "draft", "merged", "closed", "none"];
+
+export interface ExecFilters {
+	tickets?: string[];
+	dirty?: boolean;
+	prStates?: string[];
+	linearStates?: string[];
+}
+
+export interface ExecTarget {
+	/** Empty for a detached worktree */
+	branch: string;
+	path: string;
+	/** Prefix for the worktree's output: its key, or the branch for the main checkout */
+	label: string;
+	isMain: boolean;
+}
+
+export interface ExecResult {
+	target: ExecTarget;
+	/** Exit code of the command */
+	code: number;
+	durationMs: number;
+}
+
+function splitValues(value: string): string[] {
+	return value
+		.split(",")
+		.map((v) => v.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Parse `--filter` values ("dirty", "pr=open", "ticket=TEAM-1,TEAM-2", ...).
+ * Returns { error } for unknown filters or PR states.
+ */
+export function parseExecFilters(values: string[]): { filters?: ExecFilters; error?: string } {
+	const filters: ExecFilters = {};
+
+	for (const value of values) {
+		const [name, ...rest] = value.split("=");
+		const arg = rest.join("=");
+
+		if ((name === "dirty" || name === "clean") && !arg) {
+			filters.dirty = name === "dirty";
+		} else if (name === "ticket" && arg) {
+			filters.tickets = splitValues(arg).map((id) => id.toUpperCase());
+		} else if (name === "pr" && arg) {
+			const states = splitValues(arg).map((s) => s.toLowerCase());
+			const unknown = states.filter((s) => !PR_STATES.includes(s));
+			if (unknown.length > 0) {
+				return {
+					error: `Unknown PR state: ${unknown.join(", ")} (use ${PR_STATES.join(", ")})`,
+				};
+			}
+			filters.prStates = states;
+		} else if (name === "linear" && arg) {
+			filters.linearStates = splitValues(arg).map((s) => s.toLowerCase());
+		} else {
+			return {
+				error: `Unknown filter: ${value} (use ticket=<id>, dirty, clean, pr=<state> or linear=<state>)`,
+			};
+		}
+	}
+
+	return { filters };
+}
+
+/**
+ * Get the worktrees matching all the filters. The main checkout is only included when asked
+ * for; detached worktrees are left out by the ticket, PR and Linear filters.
+ * Returns an error if Linear states are filtered on but can't be fetched.
+ */
+export async function selectExecTargets(
+	repoRoot: string,
+	filters: ExecFilters,
+	opts: { includeMain?: boolean } = {},
+): Promise<{ success: boolean; error?: string; targets?: ExecTarget[] }> {
+	const mainRoot = path.resolve(repoRoot);
+	const worktrees = listWorktrees()
+		.filter((wt) => !wt.isBare)
+		.map((wt): ExecTarget => {
+			const isMain = path.resolve(wt.path) === mainRoot;
+			const label = !wt.branch
+				? path.basename(wt.path)
+				: isMain
+					? wt.branch
+					: getWorktreeKey(wt.branch);
+			return { branch: wt.branch, path: wt.path, label, isMain };
+		})
+		.filter((t) => (t.isMain ? opts.includeMain : isWorktreePath(t.path)));
+
+	let ticketStates: Map<string, { name: string; type: string }> | null = null;
+	if (filters.linearStates) {
+		const ticketIds = worktrees
+			.map((t) => extractTicketId(t.branch))
+			.filter((id): id is string => id !== null);
+		ticketStates = await fetchIssueStates(ticketIds, repoRoot);
+		if (!ticketStates) {
+			return {
+				success: false,
+				error: "Could not fetch ticket states from Linear. Run: santree linear auth",
+			};
+		}
+	}
+
+	const matches = await Promise.all(
+		worktrees.map(async (t) => {
+			const ticketId = t.branch ? extractTicketId(t.branch) : null;
+
+			if (filters.tickets && !(ticketId && filters.tickets.includes(ticketId))) return false;
+
+			if (filters.dirty !== undefined) {
+				const status = commandOutput(await gitAsync(["status", "--porcelain"], { cwd: t.path }));
+				if (Boolean(status) !== filters.dirty) return false;
+			}
+
+			if (filters.prStates) {
+				if (!t.branch) return false;
+				const pr = await getPRInfoAsync(t.branch);
+				const states = !pr
+					? ["none"]
+					: pr.state === "OPEN"
+						? pr.isDraft
+							? ["open", "draft"]
+							: ["open"]
+						: [pr.state.toLowerCase()];
+				if (!states.some((s) => filters.prStates!.includes(s))) return false;
+			}
+
+			if (ticketStates && filters.linearStates) {
+				const state = ticketId ? ticketStates.get(ticketId) : undefined;
+				if (
+					!state ||
+					!filters.linearStates.some(
+						(s) => s === state.name.toLowerCase() || s === state.type.toLowerCase(),
+					)
+				) {
+					return false;
+				}
+			}
+
+			return true;
+		}),
+	);
+
+	return { success: true, targets: worktrees.filter((_, i) => matches[i]) };
+}
+
+/**
+ * Turn the command's arguments into a shell command: a single argument is used as is (so it
+ * can contain pipes and `&&`), several are quoted and joined.
+ */
+export function toShellCommand(args: string[]): string {
+	if (args.length === 1) return args[0]!;
+	return args
+		.map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`))
+		.join(" ");
+}
+
+/**
+ * Run a shell command in each target, at most `concurrency` at a time. Worktrees get the
+ * environment santree gives their processes (see ports.ts). Each complete line of output is
+ * passed to `onLine` as it arrives; `onResult` is called as each worktree finishes.
+ * Runs: `sh -c <command>` in each worktree
+ */
+export async function execInWorktrees(
+	repoRoot: string,
+	targets: ExecTarget[],
+	command: string,
+	opts: {
+		concurrency?: number;
+		onLine?: (target: ExecTarget, line: string) => void;
+		onResult?: (result: ExecResult) => void;
+	} = {},
+): Promise<ExecResult[]> {
+	return mapConcurrent(targets, opts.concurrency ?? EXEC_CONCURRENCY, async (target) => {
+		const env =
+			target.isMain || !target.branch
+				? process.env
+				: { ...process.env, ...getWorktreeEnv(repoRoot, target.path, target.branch) };
+
+		// spawnAsync reports the output so far; pass on each line once it is complete
+		let emitted = 0;
+		const started = Date.now();
+		const result = await spawnAsync("sh", ["-c", command], {
+			cwd: target.path,
+			env,
+			onOutput: (output) => {
+				const end = output.lastIndexOf("\n");
+				if (end < emitted) return;
+				for (const line of output.slice(emitted, end).split("\n")) opts.onLine?.(target, line);
+				emitted = end + 1;
+			},
+		});
+		const rest = result.output.slice(emitted);
+		if (rest) opts.onLine?.(target, rest);
+
+		const execResult = { target, code: result.code, durationMs: Date.now() - started };
+		opts.onResult?.(execResult);
+		return execResult;
+	});
+}
@@ -0,0 +1,260 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+	listWorktrees,
+	getSantreeDir,
+	getWorktreesDir,
+	getWorktreeKey,
+	getWorktreePath,
+	getDefaultBranch,
+	getHookContext,
+	removeWorktreeCheckout,
+} from "./git.js";
+import {
+	readMetadata,
+	updateMetadata,
+	updateWorktreeEntry,
+	removeWorktreeEntry,
+} from "./metadata.js";
+import { runHook } from "./hooks.js";
+import { git, gitAsync, commandOutput, commandError } from "./exec.js";
+
+// Scratch worktrees are throwaway checkouts of a branch, tag or commit, for bisecting,
+// reproducing a bug or letting an agent try something. They sit on a detached HEAD in
+// .santree/scratch/<name>, apart from the regular worktrees, and expire after config
+// `scratch_expiry`; `worktree clean` offers expired ones for removal. Creating and removing
+// them skips hooks and setup steps, and removed ones aren't kept in the trash.
+// `worktree promote` turns one into a regular worktree: it gets a branch, moves under the
+// worktrees dir and keeps its commits and uncommitted changes.
+// Metadata entries are keyed `scratch/<name>` so they can't clash with worktree keys.
+
+export interface ScratchWorktree {
+	/** Directory name under .santree/scratch */
+	name: string;
+	path: string;
+	/** Short HEAD commit */
+	commit: string;
+	/** Branch, tag or commit it was created from (null without a metadata entry) */
+	ref: string | null;
+	createdAt: string | null;
+	expiresAt: string | null;
+	expired: boolean;
+}
+
+/**
+ * Get the directory scratch worktrees are created in: .santree/scratch in the repo root.
+ */
+export function getScratchDir(repoRoot: string): string {
+	return path.join(getSantreeDir(repoRoot), "scratch");
+}
+
+/**
+ * Get the metadata key of a scratch worktree.
+ */
+export function getScratchKey(name: string): string {
+	return `scratch/${name}`;
+}
+
+/**
+ * List the scratch worktrees of a repo, with their metadata.
+ * Runs: `git worktree list --porcelain`
+ */
+export function listScratchWorktrees(repoRoot: string): ScratchWorktree[] {
+	const scratchDir = path.resolve(getScratchDir(repoRoot));
+	const entries = readMetadata(repoRoot).worktrees;
+	const now = Date.now();
+
+	return listWorktrees()
+		.filter((wt) => path.dirname(path.resolve(wt.path)) === scratchDir)
+		.map((wt) => {
+			const name = path.basename(wt.path);
+			const scratch = entries[getScratchKey(name)]?.scratch;
+			return {
+				name,
+				path: wt.path,
+				commit: wt.commit,
+				ref: scratch?.ref ?? null,
+				createdAt: scratch?.created_at ?? null,
+				expiresAt: scratch?.expires_at ?? null,
+				expired: scratch ? Date.parse(scratch.expires_at) <= now : false,
+			};
+		});
+}
+
+/**
+ * Find a scratch worktree by name or by path. Returns null if none matches.
+ */
+export function findScratchWorktree(repoRoot: string, query: string): ScratchWorktree | null {
+	const queryPath = path.resolve(query);
+	return (
+		listScratchWorktrees(repoRoot).find(
+			(s) => s.name === query || path.resolve(s.path) === queryPath,
+		) ?? null
+	);
+}
+
+/**
+ * Pick an unused directory name for a scratch worktree of a ref: a slug of the ref (or a short
+ * commit hash) plus a random suffix, e.g. "main-3fa9".
+ */
+function newScratchName(ref: string, scratchDir: string): string {
+	const slug = /^[0-9a-f]{9,40}$/i.test(ref)
+		? ref.slice(0, 8).toLowerCase()
+		: ref
+				.toLowerCase()
+				.replace(/[^a-z0-9._-]+/g, "-")
+				.replace(/^[-._]+|[-.]+$/g, "")
+				.slice(0, 24) || "scratch";
+	for (;;) {
+		const name = `${slug}-${crypto.randomBytes(2).toString("hex")}`;
+		if (!fs.existsSync(path.join(scratchDir, name))) return name;
+	}
+}
+
+/**
+ * Create a scratch worktree: a detached checkout of a branch, tag or commit (default: the
+ * default branch) that expires after `expiresInMs`.
+ * Runs: `git worktree add --detach <path> <commit>`
+ * Returns { success: false, error } if the ref doesn't resolve to a commit or git fails.
+ */
+export async function createScratchWorktree(
+	repoRoot: string,
+	ref: string | undefined,
+	expiresInMs: number,
+): Promise<{ success: boolean; scratch?: ScratchWorktree; error?: string }> {
+	const source = ref ?? getDefaultBranch();
+	const commit = commandOutput(
+		git(["rev-parse", "--verify", "--quiet", `${source}^{commit}`], { cwd: repoRoot }),
+	);
+	if (!commit) {
+		return { success: false, error: `Not a branch, tag or commit: ${source}` };
+	}
+
+	const scratchDir = getScratchDir(repoRoot);
+	fs.mkdirSync(scratchDir, { recursive: true });
+	const name = newScratchName(source, scratchDir);
+	const worktreePath = path.join(scratchDir, name);
+
+	const added = await gitAsync(["worktree", "add", "--detach", worktreePath, commit], {
+		cwd: repoRoot,
+	});
+	if (!added.ok) {
+		return { success: false, error: commandError(added, "git worktree add") };
+	}
+
+	const createdAt = new Date();
+	const expiresAt = new Date(createdAt.getTime() + expiresInMs);
+	updateWorktreeEntry(repoRoot, getScratchKey(name), {
+		scratch: {
+			ref: source,
+			created_at: createdAt.toISOString(),
+			expires_at: expiresAt.toISOString(),
+		},
+	});
+
+	return {
+		success: true,
+		scratch: {
+			name,
+			path: worktreePath,
+			commit: commit.slice(0, 8),
+			ref: source,
+			createdAt: createdAt.toISOString(),
+			expiresAt: expiresAt.toISOString(),
+			expired: false,
+		},
+	};
+}
+
+/**
+ * Remove a scratch worktree and its metadata entry. Unlike removeWorktree, nothing is kept in
+ * the trash: without force, a scratch worktree with uncommitted changes is refused.
+ * Runs: `git worktree remove [--force] <path>`
+ */
+export async function removeScratchWorktree(
+	repoRoot: string,
+	scratch: ScratchWorktree,
+	force = false,
+): Promise<{ success: boolean; error?: string }> {
+	const removed = await removeWorktreeCheckout(scratch.path, repoRoot, force);
+	if (!removed.success) return removed;
+	removeWorktreeEntry(repoRoot, getScratchKey(scratch.name));
+	return { success: true };
+}
+
+/**
+ * Promote a scratch worktree to a regular worktree on a new branch. The branch starts at the
+ * scratch worktree's HEAD and keeps its uncommitted changes; the worktree moves to the
+ * branch's place under the worktrees dir. A scratch worktree of a branch other than the
+ * default one is based on that branch. The create hooks run around the promotion.
+ * Runs: `git switch -c <branch>` + `git worktree move <scratch> <path>`
+ * Returns { success: false, error } if the branch or its worktree already exists, pre-create
+ * vetoes, or git fails (in which case the scratch worktree is left as it was).
+ */
+export async function promoteScratchWorktree(
+	repoRoot: string,
+	scratch: ScratchWorktree,
+	branchName: string,
+): Promise<{ success: boolean; path?: string; error?: string; warning?: string }> {
+	if (git(["rev-parse", "--verify", "--quiet", `refs/heads/${branchName}`], { cwd: repoRoot }).ok) {
+		return { success: false, error: `Branch ${branchName} already exists` };
+	}
+	const existing = getWorktreePath(branchName);
+	if (existing) {
+		return { success: false, error: `A worktree for ${branchName} already exists at ${existing}` };
+	}
+
+	const key = getWorktreeKey(branchName);
+	const worktreesDir = getWorktreesDir(repoRoot);
+	const worktreePath = path.join(worktreesDir, key);
+	if (fs.existsSync(worktreePath)) {
+		return { success: false, error: `Worktree already exists at ${worktreePath}` };
+	}
+
+	// Only a branch makes a meaningful base; tags and commits fall back to the default branch
+	const defaultBranch = getDefaultBranch();
+	const baseBranch =
+		scratch.ref &&
+		scratch.ref !== defaultBranch &&
+		git(["rev-parse", "--verify", "--quiet", `refs/heads/${scratch.ref}`], { cwd: repoRoot }).ok
+			? scratch.ref
+			: defaultBranch;
+
+	const preCreate = await runHook(
+		"pre-create",
+		getHookContext(branchName, repoRoot, { worktreePath, baseBranch }),
+	);
+	if (!preCreate.success) return { success: false, error: preCreate.error };
+
+	const switched = await gitAsync(["switch", "-c", branchName], { cwd: scratch.path });
+	if (!switched.ok) {
+		return { success: false, error: commandError(switched, "git switch") };
+	}
+
+	fs.mkdirSync(worktreesDir, { recursive: true });
+	const moved = await gitAsync(["worktree", "move", scratch.path, worktreePath], {
+		cwd: repoRoot,
+	});
+	if (!moved.ok) {
+		// Put the scratch worktree back on its detached HEAD
+		await gitAsync(["switch", "--detach"], { cwd: scratch.path });
+		await gitAsync(["branch", "-D", branchName], { cwd: repoRoot });
+		return { success: false, error: commandError(moved, "git worktree move") };
+	}
+
+	// Carry the entry over (setup results, session), minus the scratch fields
+	updateMetadata(repoRoot, (data) => {
+		const entry = { ...data.worktrees[getScratchKey(scratch.name)] };
+		delete entry.scratch;
+		delete data.worktrees[getScratchKey(scratch.name)];
+		if (baseBranch !== defaultBranch) entry.base_branch = baseBranch;
+		if (Object.keys(entry).length > 0) data.worktrees[key] = entry;
+	});
+
+	const postCreate = await runHook(
+		"post-create",
+		getHookContext(branchName, repoRoot, { worktreePath, baseBranch }),
+	);
+	return { success: true, path: worktreePath, warning: postCreate.error };
+}
@@ -0,0 +1,178 @@
+import { getConfig } from "./config.js";
+import { getWorktreeEntry, updateWorktreeEntry, type SparseCheckout } from "./metadata.js";
+import { getTicketScope, type LinearIssueScope } from "./linear.js";
+import { git, gitAsync, commandOutput, commandError } from "./exec.js";
+
+// Sparse worktrees check out only some directories of a monorepo (git's cone mode, which always
+// includes the files at the repo root). What to check out comes from the profiles under
+// `sparse.profiles` in the config, picked by name or inferred from the Linear ticket's labels
+// and project. The profiles and paths are kept in the worktree's metadata entry, so setup steps
+// and agent prompts know which packages are in scope.
+
+export type { SparseCheckout };
+
+/** `--sparse` values that aren't profile names */
+export const SPARSE_AUTO = "auto";
+export const SPARSE_FULL = "full";
+
+/**
+ * Normalize a path given on the command line or in the config: no leading `./`, no trailing `/`.
+ */
+export function normalizeSparsePath(p: string): string {
+	return p.replace(/^(\.\/)+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Combine the paths of the named profiles.
+ * Returns { success: false, error } if a profile isn't configured.
+ */
+export function getSparseProfiles(
+	repoRoot: string,
+	names: string[],
+): { success: boolean; sparse?: SparseCheckout; error?: string } {
+	const { profiles } = getConfig(repoRoot).sparse;
+	const unknown = names.filter((name) => !profiles[name]);
+	if (unknown.length > 0) {
+		const known = Object.keys(profiles);
+		return {
+			success: false,
+			error: `Unknown sparse profile: ${unknown.join(", ")}${known.length > 0 ? ` (configured: ${known.join(", ")})` : " (none configured)"}`,
+		};
+	}
+
+	const paths = new Set(names.flatMap((name) => profiles[name]!.paths.map(normalizeSparsePath)));
+	return { success: true, sparse: { profiles: names, paths: [...paths] } };
+}
+
+/**
+ * Get the profiles whose `labels` or `projects` match a ticket (case-insensitive).
+ */
+export function inferSparseProfiles(repoRoot: string, scope: LinearIssueScope): string[] {
+	const labels = new Set(scope.labels.map((l) => l.toLowerCase()));
+	const project = scope.project?.toLowerCase();
+
+	return Object.entries(getConfig(repoRoot).sparse.profiles)
+		.filter(
+			([, profile]) =>
+				profile.labels.some((l) => labels.has(l.toLowerCase())) ||
+				profile.projects.some((p) => p.toLowerCase() === project),
+		)
+		.map(([name]) => name);
+}
+
+/**
+ * Decide what a new worktree checks out. `requested` is the `--sparse` value: comma-separated
+ * profile names, "auto" to infer them from the ticket, or "full". Without it, profiles are
+ * inferred only when the config sets `sparse.infer`. `scope` saves looking the ticket up.
+ * Resolves with no `sparse` for a full checkout; a ticket that matches nothing is a warning.
+ */
+export async function chooseSparseCheckout(
+	repoRoot: string,
+	opts: { requested?: string; ticketId: string | null; scope?: LinearIssueScope },
+): Promise<{ success: boolean; sparse?: SparseCheckout; warning?: string; error?: string }> {
+	const requested =
+		opts.requested ?? (getConfig(repoRoot).sparse.infer ? SPARSE_AUTO : SPARSE_FULL);
+	if (requested === SPARSE_FULL) return { success: true };
+
+	if (requested !== SPARSE_AUTO) {
+		const names = requested
+			.split(",")
+			.map((name) => name.trim())
+			.filter(Boolean);
+		return getSparseProfiles(repoRoot, names);
+	}
+
+	if (!opts.ticketId) {
+		return {
+			success: true,
+			warning: "No ticket to pick a sparse profile from; checked out everything",
+		};
+	}
+	const scope = opts.scope ?? (await getTicketScope(opts.ticketId, repoRoot));
+	if (!scope) {
+		return {
+			success: true,
+			warning: `Could not fetch ${opts.ticketId} from Linear to pick a sparse profile; checked out everything`,
+		};
+	}
+
+	const names = inferSparseProfiles(repoRoot, scope);
+	if (names.length === 0) {
+		return {
+			success: true,
+			warning: `No sparse profile matches ${opts.ticketId}'s labels or project; checked out everything`,
+		};
+	}
+	return getSparseProfiles(repoRoot, names);
+}
+
+/**
+ * Get the directories a worktree checks out, or null if it is a full checkout.
+ * Runs: `git config --get core.sparseCheckout` + `git sparse-checkout list`
+ */
+export function getSparsePaths(worktreePath: string): string[] | null {
+	const enabled = commandOutput(
+		git(["config", "--get", "core.sparseCheckout"], { cwd: worktreePath }),
+	);
+	if (enabled !== "true") return null;
+	const output = commandOutput(git(["sparse-checkout", "list"], { cwd: worktreePath }));
+	return output ? output.split("\n").filter(Boolean) : [];
+}
+
+/**
+ * Check out only the given directories in a worktree created with `--no-checkout`.
+ * Runs: `git sparse-checkout set --cone -- <paths>` + `git checkout`
+ */
+export async function initSparseCheckout(
+	worktreePath: string,
+	paths: string[],
+): Promise<{ success: boolean; error?: string }> {
+	const set = await gitAsync(["sparse-checkout", "set", "--cone", "--", ...paths], {
+		cwd: worktreePath,
+	});
+	if (!set.ok) return { success: false, error: commandError(set, "git sparse-checkout set") };
+
+	// The index is still empty after --no-checkout; this fills it and the working tree
+	const checkout = await gitAsync(["checkout"], { cwd: worktreePath });
+	if (!checkout.ok) return { success: false, error: commandError(checkout, "git checkout") };
+	return { success: true };
+}
+
+/**
+ * Add or remove directories in a sparse worktree and record the result in its metadata entry.
+ * Returns { success: false, error } for full checkouts and paths that aren't checked out.
+ * Runs: `git sparse-checkout set --cone -- <paths>`
+ */
+export async function updateSparsePaths(
+	repoRoot: string,
+	key: string,
+	worktreePath: string,
+	change: { add?: string[]; remove?: string[] },
+): Promise<{ success: boolean; paths?: string[]; error?: string }> {
+	const current = getSparsePaths(worktreePath);
+	if (!current) {
+		return { success: false, error: "This worktree is a full checkout, not a sparse one" };
+	}
+
+	const remove = (change.remove ?? []).map(normalizeSparsePath);
+	const missing = remove.filter((p) => !current.includes(p));
+	if (missing.length > 0) {
+		return { success: false, error: `Not in the sparse checkout: ${missing.join(", ")}` };
+	}
+
+	const paths = [
+		...new Set([
+			...current.filter((p) => !remove.includes(p)),
+			...(change.add ?? []).map(normalizeSparsePath),
+		]),
+	];
+	const set = await gitAsync(["sparse-checkout", "set", "--cone", "--", ...paths], {
+		cwd: worktreePath,
+	});
+	if (!set.ok) return { success: false, error: commandError(set, "git sparse-checkout set") };
+
+	updateWorktreeEntry(repoRoot, key, {
+		sparse: { profiles: getWorktreeEntry(repoRoot, key)?.sparse?.profiles ?? [], paths },
+	});
+	return { success: true, paths };
+}
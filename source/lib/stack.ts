@@ -0,0 +1,415 @@
+import * as path from "path";
+import {
+	findMainRepoRoot,
+	listWorktrees,
+	getWorktreeKey,
+	getBaseBranch,
+	getDefaultBranch,
+	getBranchHead,
+	getBaseRemote,
+	isWorktreeBranch,
+	type Worktree,
+} from "./git.js";
+import { getWorktreeEntry, updateWorktreeEntry } from "./metadata.js";
+import { getPRInfoAsync, getMergedPRHeadAsync, ghCliAvailable, ghEnv } from "./github.js";
+import { git, gitAsync, ghAsync, commandOutput, commandError } from "./exec.js";
+
+// A stack is a chain of worktrees where each child was created with `--base <parent branch>`.
+// The child stores `parent` and `parent_head` in its metadata entry; children are derived
+// by scanning the other worktrees for entries that point back at a branch.
+
+export type RestackStatus =
+	| "up-to-date"
+	| "synced"
+	| "retargeted"
+	| "merged"
+	| "conflict"
+	| "dirty"
+	| "skipped";
+
+export interface RestackResult {
+	branch: string;
+	status: RestackStatus;
+	message: string;
+}
+
+/**
+ * Get the stack parent of a branch (the sibling branch it was based on), or null.
+ */
+export function getStackParent(repoRoot: string, branch: string): string | null {
+	return getWorktreeEntry(repoRoot, getWorktreeKey(branch))?.parent ?? null;
+}
+
+/**
+ * Get the branches stacked directly on top of a branch.
+ */
+export function getStackChildren(
+	repoRoot: string,
+	branch: string,
+	worktrees: Worktree[] = listWorktrees(),
+): string[] {
+	return worktrees
+		.filter((w) => w.branch && getStackParent(repoRoot, w.branch) === branch)
+		.map((w) => w.branch);
+}
+
+/**
+ * Get every branch in the stack containing `branch`, parents before children.
+ * The walk up stops at the first ancestor without a worktree.
+ * Returns just [branch] if it isn't stacked.
+ */
+export function getStackOrder(repoRoot: string, branch: string): string[] {
+	const worktrees = listWorktrees();
+	const hasWorktree = (b: string) => worktrees.some((w) => w.branch === b);
+
+	let root = branch;
+	const seen = new Set([root]);
+	for (;;) {
+		const parent = getStackParent(repoRoot, root);
+		if (!parent || !hasWorktree(parent) || seen.has(parent)) break;
+		seen.add(parent);
+		root = parent;
+	}
+
+	const order: string[] = [];
+	const queue = [root];
+	while (queue.length > 0) {
+		const next = queue.shift()!;
+		if (order.includes(next)) continue;
+		order.push(next);
+		queue.push(...getStackChildren(repoRoot, next, worktrees));
+	}
+	return order;
+}
+
+/**
+ * Check whether a branch has a stack parent or any stacked children.
+ */
+export function isStacked(repoRoot: string, branch: string): boolean {
+	return getStackParent(repoRoot, branch) !== null || getStackChildren(repoRoot, branch).length > 0;
+}
+
+/**
+ * Sync a branch that has no stack parent with its base on the remote (merge or rebase).
+ * With `autostash`, local changes are stashed and reapplied by git around the sync.
+ */
+async function syncRoot(
+	branch: string,
+	cwd: string,
+	rebase: boolean,
+	autostash: boolean,
+): Promise<RestackResult> {
+	const upstream = `${getBaseRemote(branch)}/${getBaseBranch(branch)}`;
+	const behind = commandOutput(git(["rev-list", "--count", `HEAD..${upstream}`], { cwd }));
+	if (!behind || behind === "0") {
+		return { branch, status: "up-to-date", message: `Up to date with ${upstream}` };
+	}
+
+	const result = await gitAsync(
+		[rebase ? "rebase" : "merge", ...(autostash ? ["--autostash"] : []), upstream],
+		{ cwd },
+	);
+	if (!result.ok) {
+		return {
+			branch,
+			status: "conflict",
+			message: rebase
+				? `Rebase onto ${upstream} failed in ${cwd} - resolve conflicts and run: git rebase --continue`
+				: `Merge of ${upstream} failed in ${cwd} - resolve conflicts and run: git commit`,
+		};
+	}
+	return { branch, status: "synced", message: `Synced with ${upstream}` };
+}
+
+/**
+ * Move a child off a merged parent: rebase its own commits onto the parent's parent
+ * (or the default branch), update its metadata, and retarget its open PR.
+ */
+async function retarget(
+	repoRoot: string,
+	branch: string,
+	cwd: string,
+	parent: string,
+	autostash: boolean,
+): Promise<RestackResult> {
+	const key = getWorktreeKey(branch);
+	const entry = getWorktreeEntry(repoRoot, key);
+	const grandparent = getStackParent(repoRoot, parent);
+	const newBase = grandparent ?? getDefaultBranch();
+	const onto = grandparent ?? `${getBaseRemote(branch)}/${newBase}`;
+	const upstream = entry?.parent_head ?? parent;
+
+	const result = await gitAsync(
+		["rebase", ...(autostash ? ["--autostash"] : []), "--onto", onto, upstream],
+		{ cwd },
+	);
+	if (!result.ok) {
+		return {
+			branch,
+			status: "conflict",
+			message: `Rebase onto ${onto} failed in ${cwd} - resolve conflicts, run: git rebase --continue, then sync again`,
+		};
+	}
+
+	updateWorktreeEntry(repoRoot, key, {
+		base_branch: newBase === getDefaultBranch() ? undefined : newBase,
+		parent: grandparent ?? undefined,
+		parent_head: grandparent ? (getBranchHead(grandparent, cwd) ?? undefined) : undefined,
+	});
+
+	const prNote = await retargetPR(branch, cwd, newBase);
+	return {
+		branch,
+		status: "retargeted",
+		message: `${parent} was merged; rebased onto ${onto}${prNote}`,
+	};
+}
+
+/**
+ * Point a branch's open PR at a new base.
+ * Runs: `gh pr edit <number> --base <newBase>`
+ * Returns a note for the caller's message, empty when there is no open PR.
+ */
+async function retargetPR(branch: string, cwd: string, newBase: string): Promise<string> {
+	const pr = await getPRInfoAsync(branch);
+	if (pr?.state !== "OPEN") return "";
+
+	const edit = await ghAsync(["pr", "edit", pr.number, "--base", newBase], {
+		cwd,
+		env: ghEnv(branch),
+	});
+	return edit.ok
+		? `, PR #${pr.number} now targets ${newBase}`
+		: ` (could not retarget PR #${pr.number}: ${commandError(edit, "gh pr edit")})`;
+}
+
+/**
+ * Rebase a child onto the current tip of its parent, replaying only its own commits
+ * (`git rebase --onto <parent> <parent_head>`).
+ */
+async function restackChild(
+	repoRoot: string,
+	branch: string,
+	cwd: string,
+	parent: string,
+	autostash: boolean,
+): Promise<RestackResult> {
+	const key = getWorktreeKey(branch);
+	const parentTip = getBranchHead(parent, cwd);
+	if (!parentTip) {
+		return { branch, status: "skipped", message: `Parent branch ${parent} no longer exists` };
+	}
+
+	// Already contains the parent's tip (e.g. after a manual `git rebase --continue`)
+	if (git(["merge-base", "--is-ancestor", parentTip, "HEAD"], { cwd }).ok) {
+		updateWorktreeEntry(repoRoot, key, { parent_head: parentTip });
+		return { branch, status: "up-to-date", message: `Up to date with ${parent}` };
+	}
+
+	const oldHead = getWorktreeEntry(repoRoot, key)?.parent_head;
+	const result = await gitAsync(
+		[
+			"rebase",
+			...(autostash ? ["--autostash"] : []),
+			...(oldHead ? ["--onto", parent, oldHead] : [parent]),
+		],
+		{ cwd },
+	);
+	if (!result.ok) {
+		return {
+			branch,
+			status: "conflict",
+			message: `Rebase onto ${parent} failed in ${cwd} - resolve conflicts, run: git rebase --continue, then sync again`,
+		};
+	}
+
+	updateWorktreeEntry(repoRoot, key, { parent_head: parentTip });
+	return { branch, status: "synced", message: `Rebased onto ${parent}` };
+}
+
+/**
+ * Sync every branch in the stack containing `branch`, parents first.
+ * The bottom branch is merged/rebased with its remote base; each child is rebased onto its parent.
+ * Children of a parent whose PR has merged are retargeted onto the parent's base.
+ * A branch that fails (dirty tree, conflict) stops its descendants from being synced.
+ * With `autostash`, dirty worktrees are synced with their changes stashed around the sync.
+ * Expects the remote to have been fetched already.
+ */
+export async function syncStack(
+	branch: string,
+	opts: { rebase: boolean; autostash?: boolean; onProgress?: (branch: string) => void },
+): Promise<RestackResult[]> {
+	const repoRoot = findMainRepoRoot();
+	if (!repoRoot) return [];
+
+	const worktrees = listWorktrees();
+	const checkPRs = ghCliAvailable();
+	const mergedCache = new Map<string, boolean>();
+	const isMerged = async (b: string): Promise<boolean> => {
+		if (!checkPRs) return false;
+		if (!mergedCache.has(b)) mergedCache.set(b, (await getPRInfoAsync(b))?.state === "MERGED");
+		return mergedCache.get(b)!;
+	};
+	const failed = new Set<string>();
+	const results: RestackResult[] = [];
+
+	for (const b of getStackOrder(repoRoot, branch)) {
+		opts.onProgress?.(b);
+		const wt = worktrees.find((w) => w.branch === b);
+		const parent = getStackParent(repoRoot, b);
+
+		if (!wt) {
+			results.push({ branch: b, status: "skipped", message: "No worktree" });
+			failed.add(b);
+			continue;
+		}
+		const cwd = path.resolve(wt.path);
+
+		if (parent && failed.has(parent)) {
+			results.push({ branch: b, status: "skipped", message: `${parent} was not synced` });
+			failed.add(b);
+			continue;
+		}
+
+		if (await isMerged(b)) {
+			results.push({ branch: b, status: "merged", message: "PR merged, nothing to sync" });
+			continue;
+		}
+
+		const autostash = opts.autostash ?? false;
+		if (!autostash && commandOutput(git(["status", "--porcelain"], { cwd }))) {
+			results.push({ branch: b, status: "dirty", message: `Uncommitted changes in ${cwd}` });
+			failed.add(b);
+			continue;
+		}
+
+		let result: RestackResult;
+		if (!parent) {
+			result = await syncRoot(b, cwd, opts.rebase, autostash);
+		} else if (await isMerged(parent)) {
+			result = await retarget(repoRoot, b, cwd, parent, autostash);
+		} else {
+			result = await restackChild(repoRoot, b, cwd, parent, autostash);
+		}
+
+		if (result.status === "conflict") failed.add(b);
+		results.push(result);
+	}
+
+	return results;
+}
+
+// ── Rebase onto ───────────────────────────────────────────────────────
+
+/**
+ * Find where a branch's own commits start: the newest commit it shares with its old base.
+ * Candidates are the stack parent's recorded head, the old base's local and remote branches,
+ * and, when those are gone (e.g. deleted after a squash merge), the last head of its merged PR.
+ * Runs: `git merge-base HEAD <candidate>` for each candidate
+ * Returns null if none of them is known.
+ */
+async function findForkPoint(
+	repoRoot: string,
+	branch: string,
+	cwd: string,
+	oldBase: string,
+): Promise<string | null> {
+	const entry = getWorktreeEntry(repoRoot, getWorktreeKey(branch));
+	const remote = getBaseRemote(branch, repoRoot);
+	const exists = (ref: string) => git(["rev-parse", "--verify", "-q", ref], { cwd }).ok;
+
+	const candidates = [`refs/heads/${oldBase}`, `refs/remotes/${remote}/${oldBase}`].filter(exists);
+	if (entry?.parent === oldBase && entry.parent_head) candidates.push(entry.parent_head);
+
+	if (candidates.length === 0 && ghCliAvailable()) {
+		const merged = await getMergedPRHeadAsync(oldBase, branch);
+		if (merged) {
+			// The branch is gone, but GitHub keeps the PR's head
+			if (!exists(`${merged.sha}^{commit}`)) {
+				await gitAsync(["fetch", remote, `refs/pull/${merged.number}/head`], { cwd });
+			}
+			if (exists(`${merged.sha}^{commit}`)) candidates.push(merged.sha);
+		}
+	}
+
+	let best: string | null = null;
+	for (const candidate of candidates) {
+		const base = commandOutput(git(["merge-base", "HEAD", candidate], { cwd }));
+		if (!base) continue;
+		if (!best || git(["merge-base", "--is-ancestor", best, base], { cwd }).ok) best = base;
+	}
+	return best;
+}
+
+/**
+ * Move a worktree onto a different base branch: rebase only its own commits
+ * (`git rebase --onto <new base> <fork point>`, so an old base that was squash-merged isn't
+ * replayed), record the new base in its metadata, and point its open PR at the new base.
+ * A new base checked out in a sibling worktree stacks this worktree on it.
+ * Run it again after resolving conflicts (`git rebase --continue`) to finish the move.
+ * Expects the base remote to have been fetched already.
+ */
+export async function rebaseOnto(
+	repoRoot: string,
+	branch: string,
+	cwd: string,
+	newBase: string,
+	opts: { autostash?: boolean } = {},
+): Promise<{ success: boolean; message?: string; error?: string }> {
+	const oldBase = getBaseBranch(branch);
+	if (newBase === branch) {
+		return { success: false, error: "A branch can't be its own base" };
+	}
+
+	const stacked = isWorktreeBranch(newBase, repoRoot);
+	const remoteRef = `${getBaseRemote(branch, repoRoot)}/${newBase}`;
+	const exists = (ref: string) => git(["rev-parse", "--verify", "-q", ref], { cwd }).ok;
+	const onto = stacked ? newBase : exists(remoteRef) ? remoteRef : exists(newBase) ? newBase : null;
+	if (!onto) {
+		return { success: false, error: `Branch ${newBase} not found locally or on the remote` };
+	}
+
+	if (newBase === oldBase) {
+		return { success: false, error: `Already based on ${newBase}; use sync to catch up` };
+	}
+
+	const forkPoint = await findForkPoint(repoRoot, branch, cwd, oldBase);
+	if (!forkPoint) {
+		return {
+			success: false,
+			error: `Could not tell ${branch}'s own commits apart from ${oldBase} (branch and PR not found)`,
+		};
+	}
+
+	const isAncestor = (a: string, b: string) =>
+		git(["merge-base", "--is-ancestor", a, b], { cwd }).ok;
+	// Already moved (e.g. conflicts from an earlier run were resolved with `git rebase --continue`):
+	// the branch contains the new base and nothing of the old base beyond it
+	const moved = isAncestor(onto, "HEAD") && isAncestor(forkPoint, onto);
+	if (!moved) {
+		const result = await gitAsync(
+			["rebase", ...(opts.autostash ? ["--autostash"] : []), "--onto", onto, forkPoint],
+			{ cwd },
+		);
+		if (!result.ok) {
+			return {
+				success: false,
+				error: `Rebase onto ${onto} stopped on conflicts in ${cwd} - resolve them, run: git rebase --continue, then run santree worktree rebase-onto ${newBase} again`,
+			};
+		}
+	}
+
+	updateWorktreeEntry(repoRoot, getWorktreeKey(branch), {
+		base_branch:
+			newBase === getDefaultBranch(getBaseRemote(branch, repoRoot)) ? undefined : newBase,
+		parent: stacked ? newBase : undefined,
+		parent_head: stacked ? (getBranchHead(newBase, cwd) ?? undefined) : undefined,
+	});
+
+	const commits = commandOutput(git(["rev-list", "--count", `${onto}..HEAD`], { cwd })) ?? "0";
+	const prNote = await retargetPR(branch, cwd, newBase);
+	return {
+		success: true,
+		message: `Moved ${commits} commit(s) from ${oldBase} onto ${onto}${prNote}`,
+	};
+}
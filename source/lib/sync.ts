@@ -0,0 +1,97 @@
+import * as path from "path";
+import { listWorktrees, isWorktreePath } from "./git.js";
+import { getStackOrder, syncStack, type RestackResult } from "./stack.js";
+import { git, gitAsync } from "./exec.js";
+
+// `worktree sync --all` syncs every worktree with its base after a single fetch.
+// Stacks are synced as one unit (parents before children, see stack.ts); separate units
+// run concurrently. A sync that conflicts is aborted so the worktree is left as it was.
+
+/** How many worktrees (or stacks) are synced at the same time */
+export const SYNC_CONCURRENCY = 4;
+
+export interface BatchSyncResult extends RestackResult {
+	path: string | null;
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight (at least one), keeping the
+ * input order.
+ */
+export async function mapConcurrent<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]!);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+	return results;
+}
+
+/**
+ * Abort whichever merge or rebase is in progress in a worktree, restoring its previous state
+ * (including changes stashed by `--autostash`).
+ * Runs: `git merge --abort` or `git rebase --abort`
+ */
+async function abortSync(cwd: string): Promise<boolean> {
+	const merging = git(["rev-parse", "-q", "--verify", "MERGE_HEAD"], { cwd }).ok;
+	return (await gitAsync([merging ? "merge" : "rebase", "--abort"], { cwd })).ok;
+}
+
+/**
+ * Sync every worktree (not the main repo) with its base branch.
+ * Conflicting syncs are aborted and reported as "conflict"; descendants of a failed stack
+ * member are reported as "skipped". `onResult` is called as each worktree finishes.
+ * Expects the remote to have been fetched already.
+ */
+export async function syncAllWorktrees(
+	repoRoot: string,
+	opts: {
+		rebase: boolean;
+		autostash?: boolean;
+		concurrency?: number;
+		onResult?: (result: BatchSyncResult) => void;
+	},
+): Promise<BatchSyncResult[]> {
+	const worktrees = listWorktrees().filter((wt) => wt.branch && isWorktreePath(wt.path));
+	const pathOf = (branch: string) => {
+		const wt = worktrees.find((w) => w.branch === branch);
+		return wt ? path.resolve(wt.path) : null;
+	};
+
+	// One unit per stack (keyed by its bottom branch); unstacked worktrees are stacks of one
+	const units = new Set(worktrees.map((wt) => getStackOrder(repoRoot, wt.branch)[0]!));
+
+	const perUnit = await mapConcurrent(
+		[...units],
+		opts.concurrency ?? SYNC_CONCURRENCY,
+		async (root) => {
+			const results = await syncStack(root, { rebase: opts.rebase, autostash: opts.autostash });
+			const batch: BatchSyncResult[] = [];
+			for (const r of results) {
+				const cwd = pathOf(r.branch);
+				let result: BatchSyncResult = { ...r, path: cwd };
+				if (r.status === "conflict" && cwd) {
+					result = {
+						...result,
+						message: (await abortSync(cwd))
+							? "Conflicts; sync aborted, worktree left as it was"
+							: `Conflicts; could not abort, resolve in ${cwd}`,
+					};
+				}
+				opts.onResult?.(result);
+				batch.push(result);
+			}
+			return batch;
+		},
+	);
+
+	return perUnit.flat();
+}
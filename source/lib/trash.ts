@@ -0,0 +1,195 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { getWorktreeEntry } from "./metadata.js";
+import { git, gitAsync, runCommandAsync, commandOutput, commandError } from "./exec.js";
+
+// The trash is a safety net for removeWorktree, which force-removes checkouts and deletes
+// branches. Before anything is deleted, the worktree is backed up:
+//   - refs/santree/trash/<id> keeps the branch's commits, plus uncommitted changes to tracked
+//     files as a `git stash create` commit on top of them
+//   - .santree/trash/<id>.tar.gz holds the untracked, non-ignored files
+//   - .santree/trash/<id>.json is the manifest, with the worktree's metadata entry
+// where <id> is the worktree key and the time it was removed. Ignored files (.env,
+// node_modules) aren't kept; setup recreates them. Restoring lives in undo.ts, which recreates
+// the worktree through git.ts (this module is used by git.ts, so it can't import it).
+
+const trashManifestSchema = z.looseObject({
+	id: z.string(),
+	branch: z.string(),
+	key: z.string(),
+	/** Commit the branch pointed at when removed */
+	head: z.string(),
+	/** `git stash create` commit holding uncommitted changes, null if there were none */
+	snapshot: z.string().nullable(),
+	/** Number of untracked files in the journal (no journal when 0) */
+	untracked: z.number(),
+	/** Where the worktree was checked out */
+	path: z.string(),
+	removed_at: z.string(),
+	/** The worktree's metadata entry at the time it was removed */
+	metadata: z.record(z.string(), z.unknown()),
+});
+
+export type TrashEntry = z.infer<typeof trashManifestSchema>;
+
+/**
+ * Get the directory trash manifests and journals are stored in: .santree/trash in the repo root.
+ */
+export function getTrashDir(repoRoot: string): string {
+	return path.join(repoRoot, ".santree", "trash");
+}
+
+function getManifestPath(repoRoot: string, id: string): string {
+	return path.join(getTrashDir(repoRoot), `${id}.json`);
+}
+
+/**
+ * Get the path of an entry's journal of untracked files.
+ */
+export function getJournalPath(repoRoot: string, id: string): string {
+	return path.join(getTrashDir(repoRoot), `${id}.tar.gz`);
+}
+
+/**
+ * Get the ref that keeps an entry's commits.
+ */
+export function getTrashRef(id: string): string {
+	return `refs/santree/trash/${id}`;
+}
+
+function readManifest(filePath: string): TrashEntry | null {
+	try {
+		const result = trashManifestSchema.safeParse(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+		return result.success ? result.data : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * List everything in the trash, most recently removed first.
+ */
+export function listTrash(repoRoot: string): TrashEntry[] {
+	const dir = getTrashDir(repoRoot);
+	if (!fs.existsSync(dir)) return [];
+	return fs
+		.readdirSync(dir)
+		.filter((f) => f.endsWith(".json"))
+		.map((f) => readManifest(path.join(dir, f)))
+		.filter((m): m is TrashEntry => m !== null)
+		.sort((a, b) => b.removed_at.localeCompare(a.removed_at));
+}
+
+/**
+ * Find a trash entry by ID, or the most recently removed one for a branch or worktree key.
+ * Returns null if there is none.
+ */
+export function findTrash(repoRoot: string, query: string): TrashEntry | null {
+	const entries = listTrash(repoRoot);
+	const lower = query.toLowerCase();
+	return (
+		entries.find((e) => e.id === query) ??
+		entries.find((e) => e.branch === query || e.key.toLowerCase() === lower) ??
+		null
+	);
+}
+
+/**
+ * Make a trash ID from a worktree key and the removal time, e.g. "team-123-20250101T120000Z".
+ */
+function makeTrashId(repoRoot: string, key: string, removedAt: Date): string {
+	const stamp = removedAt
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace(/\.\d+Z$/, "Z");
+	const base = `${key}-${stamp}`;
+	let id = base;
+	for (let n = 2; fs.existsSync(getManifestPath(repoRoot, id)); n++) id = `${base}-${n}`;
+	return id;
+}
+
+/**
+ * Back up a worktree before it is removed: keep its commits and uncommitted changes in a ref,
+ * tar up its untracked files, and save its metadata entry in a manifest.
+ * Runs: `git stash create` + `git update-ref refs/santree/trash/<id>`
+ *   + `git ls-files --others --exclude-standard -z` | `tar -czf <journal>`
+ */
+export async function trashWorktree(
+	repoRoot: string,
+	branch: string,
+	key: string,
+	worktreePath: string,
+): Promise<{ success: boolean; entry?: TrashEntry; error?: string }> {
+	const head = commandOutput(git(["rev-parse", "HEAD"], { cwd: worktreePath }));
+	if (!head) {
+		return { success: false, error: `Could not resolve HEAD in ${worktreePath}` };
+	}
+
+	// Unlike `stash push`, this leaves the worktree and the stash list alone; it prints nothing
+	// when there are no changes
+	const stash = await gitAsync(["stash", "create", `santree trash: ${branch}`], {
+		cwd: worktreePath,
+	});
+	if (!stash.ok) {
+		return {
+			success: false,
+			error: `Could not back up uncommitted changes: ${commandError(stash, "git stash create")}`,
+		};
+	}
+	const snapshot = stash.stdout.trim() || null;
+
+	const removedAt = new Date();
+	const id = makeTrashId(repoRoot, key, removedAt);
+	fs.mkdirSync(getTrashDir(repoRoot), { recursive: true });
+
+	const untracked = commandOutput(
+		git(["ls-files", "--others", "--exclude-standard", "-z"], { cwd: worktreePath }),
+	);
+	const files = untracked ? untracked.split("\0").filter(Boolean) : [];
+	if (files.length > 0) {
+		const journal = getJournalPath(repoRoot, id);
+		const tar = await runCommandAsync(
+			"tar",
+			["-czf", journal, "-C", worktreePath, "--null", "-T", "-"],
+			{ input: files.join("\0") },
+		);
+		if (!tar.ok) {
+			fs.rmSync(journal, { force: true });
+			return {
+				success: false,
+				error: `Could not back up untracked files: ${commandError(tar, "tar")}`,
+			};
+		}
+	}
+
+	const ref = git(["update-ref", getTrashRef(id), snapshot ?? head], { cwd: repoRoot });
+	if (!ref.ok) {
+		fs.rmSync(getJournalPath(repoRoot, id), { force: true });
+		return { success: false, error: commandError(ref, "git update-ref") };
+	}
+
+	const entry: TrashEntry = {
+		id,
+		branch,
+		key,
+		head,
+		snapshot,
+		untracked: files.length,
+		path: worktreePath,
+		removed_at: removedAt.toISOString(),
+		metadata: getWorktreeEntry(repoRoot, key) ?? {},
+	};
+	fs.writeFileSync(getManifestPath(repoRoot, id), JSON.stringify(entry, null, 2) + "\n");
+	return { success: true, entry };
+}
+
+/**
+ * Delete a trash entry for good: its ref, journal and manifest.
+ * Runs: `git update-ref -d refs/santree/trash/<id>`
+ */
+export function purgeTrash(repoRoot: string, entry: TrashEntry): void {
+	git(["update-ref", "-d", getTrashRef(entry.id)], { cwd: repoRoot });
+	fs.rmSync(getJournalPath(repoRoot, entry.id), { force: true });
+	fs.rmSync(getManifestPath(repoRoot, entry.id), { force: true });
+}
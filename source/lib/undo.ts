@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import { getWorktreePath, getDefaultBranch, getBranchHead, createWorktree } from "./git.js";
+import { updateMetadata, type WorktreeMetadata } from "./metadata.js";
+import { withAvailablePorts } from "./ports.js";
+import { getJournalPath, getTrashRef, purgeTrash, type TrashEntry } from "./trash.js";
+import { git, gitAsync, runCommandAsync, commandError } from "./exec.js";
+
+// Bringing removed worktrees back from the trash (see trash.ts): the branch is recreated from
+// the backed-up commit if it was deleted, the worktree is checked out again with its metadata
+// entry, and the uncommitted changes and untracked files are put back.
+
+/**
+ * Recreate a removed worktree from a trash entry. Setup steps are left to the caller.
+ * The entry is purged once everything is back; if the changes or untracked files couldn't be
+ * restored it is kept and the reason returned as a warning.
+ * Runs: `git worktree add <path> <branch>` + `git stash apply --index <snapshot>`
+ *   + `tar -xzkf <journal>`
+ */
+export async function restoreFromTrash(
+	repoRoot: string,
+	entry: TrashEntry,
+): Promise<{ success: boolean; error?: string; path?: string; warning?: string }> {
+	const existing = getWorktreePath(entry.branch);
+	if (existing) {
+		return {
+			success: false,
+			error: `Worktree for ${entry.branch} already exists at ${existing}`,
+		};
+	}
+
+	const warnings: string[] = [];
+
+	const currentHead = getBranchHead(entry.branch, repoRoot);
+	if (!currentHead) {
+		const recreated = git(["branch", entry.branch, entry.head], { cwd: repoRoot });
+		if (!recreated.ok) {
+			return { success: false, error: commandError(recreated, "git branch") };
+		}
+	} else if (currentHead !== entry.head) {
+		warnings.push(`${entry.branch} has moved since it was removed`);
+	}
+
+	const metadata = entry.metadata as WorktreeMetadata;
+	const created = await createWorktree(
+		entry.branch,
+		metadata.base_branch ?? getDefaultBranch(),
+		repoRoot,
+		{ sparse: metadata.sparse },
+	);
+	if (!created.success || !created.path) {
+		return { success: false, error: created.error ?? "Failed to create worktree" };
+	}
+	if (created.warning) warnings.push(created.warning);
+
+	// Replace whatever createWorktree recorded with the removed entry
+	updateMetadata(repoRoot, (data) => {
+		data.worktrees[entry.key] = withAvailablePorts(data.worktrees, metadata);
+	});
+
+	let complete = true;
+	if (entry.snapshot) {
+		const applied = await gitAsync(["stash", "apply", "--index", entry.snapshot], {
+			cwd: created.path,
+		});
+		if (!applied.ok) {
+			complete = false;
+			warnings.push(
+				`Could not re-apply uncommitted changes (${commandError(applied, "git stash apply")}). Retry with: git stash apply --index ${entry.snapshot}`,
+			);
+		}
+	}
+
+	const journal = getJournalPath(repoRoot, entry.id);
+	if (entry.untracked > 0 && fs.existsSync(journal)) {
+		// -k: never overwrite a file that is already there
+		const extracted = await runCommandAsync("tar", ["-xzkf", journal, "-C", created.path]);
+		if (!extracted.ok) {
+			complete = false;
+			warnings.push(
+				`Could not restore all untracked files (${commandError(extracted, "tar")}). They are in ${journal}`,
+			);
+		}
+	}
+
+	if (complete) {
+		purgeTrash(repoRoot, entry);
+	} else {
+		warnings.push(
+			`Kept the backup (${getTrashRef(entry.id)}); drop it with: santree trash purge ${entry.id}`,
+		);
+	}
+
+	return {
+		success: true,
+		path: created.path,
+		warning: warnings.length > 0 ? warnings.join("\n") : undefined,
+	};
+}